@@ -0,0 +1,14 @@
+module.exports = {
+    testEnvironment: "node",
+    roots: ["<rootDir>/src"],
+    testMatch: ["**/*.test.ts"],
+    transform: {
+        "^.+\\.tsx?$": [
+            "ts-jest",
+            {
+                // The app bundles ES modules; Jest loads CommonJS
+                tsconfig: { module: "commonjs" },
+            },
+        ],
+    },
+};
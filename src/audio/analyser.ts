@@ -1,23 +1,93 @@
+import { BeatDetector, BeatEvent, BeatState } from './beatDetector';
+import { FFTAnalyzer, Spectrum, WindowFunction, toDecibels } from './fft';
+import { SpectralFeatureExtractor, SpectralFeatures } from './spectralFeatures';
+import { AudioFrame, BandFrame } from './audioFrame';
+import { FrequencyBandAnalyzer, FrequencyBandOptions } from './frequencyBands';
+import { KeyEstimate, KeyEstimator, PitchEstimate, computeChroma, detectPitchYIN } from './pitch';
+import { StereoAnalyser, computePan } from './stereo';
+
+/**
+ * Where spectra come from: the browser's AnalyserNode, or our own FFT
+ * applied to the node's float time-domain samples.
+ */
+export type SpectrumEngine = 'native' | 'fft';
+
+export const SPECTRUM_ENGINES: SpectrumEngine[] = ['native', 'fft'];
+
 export class AudioAnalyser {
     private analyser: AnalyserNode;
+    private source: AudioNode | null = null;
     private dataArray: Uint8Array;
+    // Linear amplitudes of the same bins, for the spectral features
+    private magnitudes: Float32Array;
+    private floatFrequencyData: Float32Array;
     private useTestData: boolean = false;
     private testOscillator: OscillatorNode | null = null;
     private testGain: GainNode | null = null;
+    private beatDetector: BeatDetector = new BeatDetector();
+    private featureExtractor: SpectralFeatureExtractor = new SpectralFeatureExtractor();
+    private keyEstimator: KeyEstimator = new KeyEstimator();
+    private pitch: PitchEstimate = { frequency: 0, clarity: 0, midi: 0, note: '', cents: 0 };
+    private chroma: Float32Array = new Float32Array(12);
+    private engine: SpectrumEngine = 'native';
+    private fftAnalyzer: FFTAnalyzer;
+    private timeDomainData: Float32Array;
+    private timeDomainBytes: Uint8Array;
+    private spectrum: Spectrum | null = null;
+    private smoothedMagnitudes: Float32Array | null = null;
+    private stereo: StereoAnalyser;
+    // The shared band model, on the mixed signal and on each channel
+    private bandAnalyzer: FrequencyBandAnalyzer = new FrequencyBandAnalyzer();
+    private leftBandAnalyzer: FrequencyBandAnalyzer = new FrequencyBandAnalyzer({ autoGain: false });
+    private rightBandAnalyzer: FrequencyBandAnalyzer = new FrequencyBandAnalyzer({ autoGain: false });
+    private bands: BandFrame = {
+        bands: [], values: new Float32Array(0), left: new Float32Array(0), right: new Float32Array(0), pan: new Float32Array(0)
+    };
+    private lastUpdateTime: number = 0;
 
     constructor(context: AudioContext) {
         this.analyser = context.createAnalyser();
         this.analyser.fftSize = 1024;
         this.analyser.smoothingTimeConstant = 0.8;
         this.dataArray = new Uint8Array(this.analyser.frequencyBinCount);
+        this.magnitudes = new Float32Array(this.analyser.frequencyBinCount);
+        this.floatFrequencyData = new Float32Array(this.analyser.frequencyBinCount);
+        this.timeDomainData = new Float32Array(this.analyser.fftSize);
+        this.timeDomainBytes = new Uint8Array(this.analyser.fftSize);
+        this.fftAnalyzer = new FFTAnalyzer({ size: this.analyser.fftSize, window: 'blackman-harris' });
+        this.stereo = new StereoAnalyser(context, this.analyser.fftSize);
         console.log(`Analyser created with fftSize: ${this.analyser.fftSize}, frequencyBinCount: ${this.analyser.frequencyBinCount}`);
     }
 
-    connect(source: AudioNode) {
+    /**
+     * Connect an input to the analyser. Any previously connected input is
+     * disconnected first, so switching sources never mixes two signals.
+     * @param channelCount Channels the source carries (null when unknown), which tells
+     *                     mono inputs from stereo ones in the stereo analysis
+     */
+    connect(source: AudioNode, channelCount: number | null = null) {
+        // Also for the current source: the file player keeps its node across files
+        this.stereo.setChannelCount(channelCount);
+        if (this.source === source) return;
+        this.disconnect();
         source.connect(this.analyser);
+        this.stereo.connect(source);
+        this.source = source;
         console.log('Analyser connected to audio source');
     }
 
+    disconnect() {
+        if (!this.source) return;
+        try {
+            this.source.disconnect(this.analyser);
+        } catch (e) {
+            // The source was already disconnected elsewhere
+        }
+        this.stereo.disconnect(this.source);
+        this.source = null;
+        console.log('Analyser disconnected from audio source');
+    }
+
     // New method to enable test oscillator
     enableTestMode(context: AudioContext) {
         if (this.testOscillator) return; // Already enabled
@@ -30,13 +100,17 @@ export class AudioAnalyser {
         this.testOscillator.type = 'sine';
         this.testOscillator.frequency.value = 440; // A4 note
         
-        // Create gain node to control volume
+        // Create gain node to control volume; it up-mixes the mono tone onto both channels
         this.testGain = context.createGain();
         this.testGain.gain.value = 0.5;
+        this.testGain.channelCount = 2;
+        this.testGain.channelCountMode = 'explicit';
+        this.testGain.channelInterpretation = 'speakers';
         
         // Connect oscillator -> gain -> analyser
         this.testOscillator.connect(this.testGain);
         this.testGain.connect(this.analyser);
+        this.stereo.connect(this.testGain);
         
         // Start the oscillator
         this.testOscillator.start();
@@ -67,19 +141,267 @@ export class AudioAnalyser {
         this.testOscillator = null;
         
         if (this.testGain) {
+            this.stereo.disconnect(this.testGain);
             this.testGain.disconnect();
             this.testGain = null;
         }
     }
 
+    /**
+     * Capture this frame's spectrum, advance the beat tracker and extract features.
+     * Call once per animation frame, before any visualizer reads beat state or features.
+     */
+    update(time: number = performance.now() / 1000) {
+        this.analyser.getFloatTimeDomainData(this.timeDomainData);
+        this.analyser.getByteTimeDomainData(this.timeDomainBytes);
+        this.captureSpectrum();
+        this.stereo.update();
+        // Clamped like the app's frame dt, for the band smoothing
+        const dt = this.lastUpdateTime > 0 ? Math.max(0, Math.min(time - this.lastUpdateTime, 0.1)) : 1 / 60;
+        this.lastUpdateTime = time;
+        this.updateBands(dt);
+        this.beatDetector.process(this.dataArray, time);
+        this.featureExtractor.extract(this.magnitudes, this.timeDomainBytes, this.getSampleRate());
+        this.updateHarmony();
+    }
+
+    /**
+     * Run the shared band model on the mixed spectrum and on each channel, and pan each band.
+     */
+    private updateBands(dt: number) {
+        const sampleRate = this.getSampleRate();
+        const stereo = this.stereo.getFrame();
+        this.bands.values = this.bandAnalyzer.update(this.dataArray, sampleRate, 255, dt);
+        this.bands.left = this.leftBandAnalyzer.update(stereo.leftFrequencyData, sampleRate, 255, dt);
+        this.bands.right = this.rightBandAnalyzer.update(stereo.rightFrequencyData, sampleRate, 255, dt);
+        this.bands.bands = this.bandAnalyzer.getBands();
+        this.bands.pan = computePan(this.bands.left, this.bands.right, this.bands.pan);
+    }
+
+    /**
+     * Settings of the shared band model; the per-channel bands ignore auto-gain so their
+     * levels stay comparable.
+     */
+    setBandOptions(options: Partial<FrequencyBandOptions>) {
+        this.bandAnalyzer.setOptions(options);
+        this.leftBandAnalyzer.setOptions({ ...options, autoGain: false });
+        this.rightBandAnalyzer.setOptions({ ...options, autoGain: false });
+    }
+
+    /**
+     * Shared band model from the last update().
+     */
+    getBands(): BandFrame {
+        return this.bands;
+    }
+
+    /**
+     * Estimate pitch from the float waveform and fold the spectrum into a chromagram.
+     * The key estimate only learns from frames with audible content.
+     */
+    private updateHarmony() {
+        const sampleRate = this.getSampleRate();
+        this.pitch = detectPitchYIN(this.timeDomainData, sampleRate);
+        this.chroma = computeChroma(this.magnitudes, sampleRate, 1);
+        if (this.featureExtractor.getRawFeatures().rms > 0.01) {
+            this.keyEstimator.update(this.chroma);
+        }
+    }
+
+    /**
+     * Bundle everything captured by the last update() for the visualizers.
+     */
+    getFrame(time: number, dt: number): AudioFrame {
+        let sum = 0;
+        for (let i = 0; i < this.dataArray.length; i++) sum += this.dataArray[i];
+
+        return {
+            time,
+            dt,
+            sampleRate: this.getSampleRate(),
+            frequencyData: this.dataArray,
+            minDecibels: this.analyser.minDecibels,
+            maxDecibels: this.analyser.maxDecibels,
+            timeDomainData: this.timeDomainBytes,
+            floatTimeDomainData: this.timeDomainData,
+            intensity: this.dataArray.length > 0 ? sum / this.dataArray.length / 255 : 0,
+            beat: this.beatDetector.getState(),
+            features: this.featureExtractor.getFeatures(),
+            pitch: this.pitch,
+            chroma: this.chroma,
+            key: this.keyEstimator.getKey(),
+            stereo: this.stereo.getFrame(),
+            bands: this.bands
+        };
+    }
+
+    /**
+     * Fundamental frequency estimate from the last update().
+     */
+    getPitch(): PitchEstimate {
+        return this.pitch;
+    }
+
+    /**
+     * 12-bin chromagram (C..B, max-normalized) from the last update().
+     */
+    getChroma(): Float32Array {
+        return this.chroma;
+    }
+
+    /**
+     * Running musical key estimate.
+     */
+    getKey(): KeyEstimate {
+        return this.keyEstimator.getKey();
+    }
+
+    /**
+     * Normalized (0-1), smoothed spectral features from the last update().
+     */
+    getFeatures(): SpectralFeatures {
+        return this.featureExtractor.getFeatures();
+    }
+
+    getFeatureExtractor(): SpectralFeatureExtractor {
+        return this.featureExtractor;
+    }
+
+    /**
+     * Fill dataArray with this frame's byte spectrum from the selected engine, and
+     * magnitudes with the linear amplitudes behind it.
+     */
+    private captureSpectrum() {
+        if (this.engine === 'native') {
+            this.analyser.getByteFrequencyData(this.dataArray);
+            this.analyser.getFloatFrequencyData(this.floatFrequencyData);
+            for (let i = 0; i < this.magnitudes.length; i++) {
+                // -Infinity dB (digital silence) becomes 0
+                this.magnitudes[i] = Math.pow(10, this.floatFrequencyData[i] / 20);
+            }
+            return;
+        }
+
+        this.spectrum = this.fftAnalyzer.analyze(this.timeDomainData);
+        const magnitudes = this.spectrum.magnitudes;
+
+        if (!this.smoothedMagnitudes || this.smoothedMagnitudes.length !== magnitudes.length) {
+            this.smoothedMagnitudes = new Float32Array(magnitudes.length);
+        }
+
+        // Match AnalyserNode's output: exponential smoothing over time, then
+        // decibels mapped linearly from [minDecibels, maxDecibels] onto 0-255
+        const tau = this.analyser.smoothingTimeConstant;
+        const minDb = this.analyser.minDecibels;
+        const range = this.analyser.maxDecibels - minDb;
+        for (let i = 0; i < this.dataArray.length; i++) {
+            this.smoothedMagnitudes[i] = tau * this.smoothedMagnitudes[i] + (1 - tau) * magnitudes[i];
+            this.magnitudes[i] = this.smoothedMagnitudes[i];
+            const db = toDecibels(this.smoothedMagnitudes[i]);
+            this.dataArray[i] = Math.max(0, Math.min(255, Math.round(((db - minDb) / range) * 255)));
+        }
+    }
+
+    /**
+     * Switch between the native AnalyserNode spectrum and our own FFT.
+     */
+    setEngine(engine: SpectrumEngine) {
+        this.engine = engine;
+        this.smoothedMagnitudes = null;
+        this.spectrum = null;
+        this.resizeDataArray();
+        console.log(`Spectrum engine set to ${engine}`);
+    }
+
+    getEngine(): SpectrumEngine {
+        return this.engine;
+    }
+
+    setWindowFunction(window: WindowFunction) {
+        this.fftAnalyzer.setWindow(window);
+    }
+
+    getWindowFunction(): WindowFunction {
+        return this.fftAnalyzer.getWindow();
+    }
+
+    /**
+     * Zero-padding only applies to the custom FFT engine; it adds bins, so the
+     * byte spectrum grows accordingly.
+     */
+    setZeroPadding(factor: number) {
+        this.fftAnalyzer.setZeroPadding(factor);
+        this.smoothedMagnitudes = null;
+        this.resizeDataArray();
+    }
+
+    getZeroPadding(): number {
+        return this.fftAnalyzer.getZeroPadding();
+    }
+
+    getFFTAnalyzer(): FFTAnalyzer {
+        return this.fftAnalyzer;
+    }
+
+    private resizeDataArray() {
+        // The custom engine returns DC..Nyquist; drop Nyquist to mirror frequencyBinCount
+        const bins = this.engine === 'fft' ? this.fftAnalyzer.getBinCount() - 1 : this.analyser.frequencyBinCount;
+        if (this.dataArray.length !== bins) {
+            this.dataArray = new Uint8Array(bins);
+            this.magnitudes = new Float32Array(bins);
+        }
+    }
+
+    /**
+     * Byte spectrum (0-255 per bin) captured by the last update().
+     */
+    getFrequencyData(): Uint8Array {
+        return this.dataArray;
+    }
+
+    /**
+     * Byte waveform (128 = silence) captured by the last update().
+     */
+    getTimeDomainData(): Uint8Array {
+        return this.timeDomainBytes;
+    }
+
+    /**
+     * Float magnitude/phase spectrum from the last update(); only available with the 'fft' engine.
+     */
+    getSpectrum(): Spectrum | null {
+        return this.spectrum;
+    }
+
+    getSampleRate(): number {
+        return this.analyser.context.sampleRate;
+    }
+
+    getBeatDetector(): BeatDetector {
+        return this.beatDetector;
+    }
+
+    getBeatState(): BeatState {
+        return this.beatDetector.getState();
+    }
+
+    /**
+     * Subscribe to beat events. Returns a function that removes the listener.
+     */
+    onBeat(listener: (event: BeatEvent) => void): () => void {
+        return this.beatDetector.onBeat(listener);
+    }
+
     isSoundDetected(): boolean {
         const intensity = this.getAudioIntensity();
         console.log('Sound detected:', intensity > 10, 'with intensity:', intensity);
         return intensity > 10;
     }
     
+    /**
+     * Mean of the byte spectrum captured by the last update().
+     */
     getAudioIntensity(): number {
-        this.analyser.getByteFrequencyData(this.dataArray);
         console.log('Sample frequency values:', this.dataArray[0], this.dataArray[1], this.dataArray[2], this.dataArray[3]);
         
         const average = this.dataArray.reduce((a, b) => a + b, 0) / this.dataArray.length;
@@ -90,4 +412,8 @@ export class AudioAnalyser {
     getAnalyserNode(): AnalyserNode {
         return this.analyser;
     }
+
+    getStereoAnalyser(): StereoAnalyser {
+        return this.stereo;
+    }
 } 
\ No newline at end of file
@@ -1,7 +1,18 @@
+import { AudioFilePlayer } from './filePlayer';
+
+const INPUT_DEVICE_STORAGE_KEY = 'fftdj-input-device';
+
 export class AudioManager {
     private context: AudioContext;
     private mediaStream: MediaStream | null = null;
+    private microphoneSource: MediaStreamAudioSourceNode | null = null;
     private isActive: boolean = false;
+    private filePlayer: AudioFilePlayer;
+    /** Device the user picked; null means the browser default */
+    private preferredDeviceId: string | null = null;
+    /** Device the current stream is actually bound to */
+    private activeDeviceId: string | null = null;
+    private isRebinding: boolean = false;
 
     constructor() {
         // Create the audio context with appropriate options
@@ -10,9 +21,16 @@ export class AudioManager {
             sampleRate: 44100
         });
         console.log('Audio context created:', this.context.state);
+
+        // File playback is routed to the speakers; the microphone never is (feedback)
+        this.filePlayer = new AudioFilePlayer(this.context);
+        this.filePlayer.getOutputNode().connect(this.context.destination);
+
+        this.preferredDeviceId = localStorage.getItem(INPUT_DEVICE_STORAGE_KEY);
         
         // Add event listeners to various user interactions to activate audio
         this.setupActivationEvents();
+        this.setupDeviceChangeEvents();
     }
     
     private setupActivationEvents() {
@@ -25,9 +43,7 @@ export class AudioManager {
                     // Re-initialize if we already have a stream but audio wasn't active
                     if (this.mediaStream) {
                         console.log('Re-activating existing audio stream');
-                        const source = this.context.createMediaStreamSource(this.mediaStream);
-                        const event = new CustomEvent('audioSourceCreated', { detail: { source } });
-                        document.dispatchEvent(event);
+                        this.dispatchSourceCreated(this.createMicrophoneSource(this.mediaStream));
                     }
                 });
             }
@@ -42,6 +58,94 @@ export class AudioManager {
         console.log('Audio activation events registered');
     }
 
+    /**
+     * Re-bind the microphone when input devices are plugged in or removed.
+     * If the active device vanished we fall back to the default; if the preferred
+     * device came back we switch to it again.
+     */
+    private setupDeviceChangeEvents() {
+        if (!navigator.mediaDevices || !navigator.mediaDevices.addEventListener) return;
+
+        navigator.mediaDevices.addEventListener('devicechange', async () => {
+            try {
+                const devices = await this.listInputDevices();
+                console.log('Audio input devices changed:', devices.map(d => d.label || d.deviceId));
+                document.dispatchEvent(new CustomEvent('audioDevicesChanged', { detail: { devices } }));
+
+                if (!this.mediaStream) return;
+                const isAvailable = (id: string | null) => id === null || devices.some(d => d.deviceId === id);
+
+                if (!isAvailable(this.activeDeviceId)) {
+                    console.log('Active input device was removed, falling back to default');
+                    await this.rebind();
+                } else if (this.preferredDeviceId && this.preferredDeviceId !== this.activeDeviceId && isAvailable(this.preferredDeviceId)) {
+                    console.log('Preferred input device reconnected, switching back');
+                    await this.rebind();
+                }
+            } catch (error) {
+                console.error('Failed to handle audio device change:', error);
+            }
+        });
+    }
+
+    /**
+     * List available audio inputs. Labels are empty until microphone permission is granted.
+     */
+    async listInputDevices(): Promise<MediaDeviceInfo[]> {
+        if (!navigator.mediaDevices || !navigator.mediaDevices.enumerateDevices) {
+            return [];
+        }
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        return devices.filter(device => device.kind === 'audioinput');
+    }
+
+    getPreferredDeviceId(): string | null {
+        return this.preferredDeviceId;
+    }
+
+    getActiveDeviceId(): string | null {
+        return this.activeDeviceId;
+    }
+
+    /**
+     * Channels of the current microphone stream, or null when there is no stream or the
+     * browser doesn't report it.
+     */
+    getMicrophoneChannelCount(): number | null {
+        const track = this.mediaStream && this.mediaStream.getAudioTracks()[0];
+        const channelCount = track ? track.getSettings().channelCount : undefined;
+        return channelCount !== undefined ? channelCount : null;
+    }
+
+    /**
+     * Switch to a different input device and remember the choice.
+     * Pass null to use the browser default.
+     */
+    async selectInputDevice(deviceId: string | null) {
+        this.preferredDeviceId = deviceId;
+        if (deviceId) {
+            localStorage.setItem(INPUT_DEVICE_STORAGE_KEY, deviceId);
+        } else {
+            localStorage.removeItem(INPUT_DEVICE_STORAGE_KEY);
+        }
+        await this.rebind();
+    }
+
+    private async rebind() {
+        if (this.isRebinding) return;
+        this.isRebinding = true;
+        try {
+            const source = await this.initialize();
+            if (this.isContextReady()) {
+                this.dispatchSourceCreated(source);
+            }
+        } catch (error) {
+            console.error('Failed to re-bind audio input:', error);
+        } finally {
+            this.isRebinding = false;
+        }
+    }
+
     async initialize() {
         try {
             console.log('Requesting microphone access...');
@@ -50,16 +154,13 @@ export class AudioManager {
             if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
                 throw new Error('getUserMedia is not supported in this browser');
             }
-            
-            // Request microphone with specific constraints for better audio quality
-            this.mediaStream = await navigator.mediaDevices.getUserMedia({ 
-                audio: {
-                    echoCancellation: false,
-                    noiseSuppression: false,
-                    autoGainControl: false,
-                    channelCount: 1
-                } 
-            });
+
+            // Request microphone with specific constraints for better audio quality.
+            // The previous stream is only released once the new one is open, so a failed
+            // switch (permission revoked, device busy) keeps the current input.
+            const stream = await this.openStream(this.preferredDeviceId);
+            this.releaseMicrophone();
+            this.mediaStream = stream;
             
             console.log('Microphone access granted!');
             console.log('Media stream tracks:', this.mediaStream.getAudioTracks().length);
@@ -69,6 +170,14 @@ export class AudioManager {
                 console.log('Using audio track:', track.label, 'enabled:', track.enabled);
                 // Ensure track is enabled
                 track.enabled = true;
+                this.activeDeviceId = track.getSettings().deviceId || null;
+                // Some browsers end the track on unplug without firing devicechange
+                track.addEventListener('ended', () => {
+                    if (this.mediaStream && this.mediaStream.getAudioTracks()[0] === track) {
+                        console.log('Audio input track ended, re-binding');
+                        this.rebind();
+                    }
+                });
             }
             
             // Try to resume the context if needed
@@ -76,7 +185,7 @@ export class AudioManager {
             
             // Check if we can create the audio source now
             if (this.isContextReady()) {
-                const source = this.context.createMediaStreamSource(this.mediaStream);
+                const source = this.createMicrophoneSource(this.mediaStream);
                 console.log('Media stream source created, state:', this.context.state);
                 this.isActive = true;
                 return source;
@@ -90,6 +199,64 @@ export class AudioManager {
             throw error;
         }
     }
+
+    /**
+     * Open a stream on the given device, falling back to the default device
+     * when the requested one no longer exists.
+     */
+    private async openStream(deviceId: string | null): Promise<MediaStream> {
+        const audio: MediaTrackConstraints = {
+            echoCancellation: false,
+            noiseSuppression: false,
+            autoGainControl: false,
+            // Stereo when the device has it; mono devices still open
+            channelCount: { ideal: 2 }
+        };
+
+        if (deviceId) {
+            try {
+                return await navigator.mediaDevices.getUserMedia({
+                    audio: { ...audio, deviceId: { exact: deviceId } }
+                });
+            } catch (error) {
+                const name = (error as DOMException).name;
+                if (name !== 'OverconstrainedError' && name !== 'NotFoundError') {
+                    throw error;
+                }
+                console.warn('Preferred input device unavailable, using default');
+            }
+        }
+        return await navigator.mediaDevices.getUserMedia({ audio });
+    }
+
+    private createMicrophoneSource(stream: MediaStream): MediaStreamAudioSourceNode {
+        if (this.microphoneSource) {
+            this.microphoneSource.disconnect();
+        }
+        this.microphoneSource = this.context.createMediaStreamSource(stream);
+        return this.microphoneSource;
+    }
+
+    /**
+     * Disconnect the current MediaStreamSource and stop its tracks so the
+     * device is released and the analyser is never fed by a stale source.
+     */
+    private releaseMicrophone() {
+        if (this.microphoneSource) {
+            this.microphoneSource.disconnect();
+            this.microphoneSource = null;
+        }
+        if (this.mediaStream) {
+            this.mediaStream.getTracks().forEach(track => track.stop());
+            this.mediaStream = null;
+        }
+        this.activeDeviceId = null;
+    }
+
+    private dispatchSourceCreated(source: AudioNode) {
+        const event = new CustomEvent('audioSourceCreated', { detail: { source } });
+        document.dispatchEvent(event);
+    }
     
     private isContextReady(): boolean {
         // Safe way to check if context is in running state
@@ -113,6 +280,20 @@ export class AudioManager {
         return await this.context.decodeAudioData(arrayBuffer);
     }
 
+    /**
+     * Decode a file and hand it to the file player, ready for playback.
+     */
+    async loadIntoPlayer(file: File): Promise<AudioFilePlayer> {
+        await this.tryResumeContext();
+        const buffer = await this.loadAudioFile(file);
+        this.filePlayer.load(buffer, file.name);
+        return this.filePlayer;
+    }
+
+    getFilePlayer(): AudioFilePlayer {
+        return this.filePlayer;
+    }
+
     getContext(): AudioContext {
         return this.context;
     }
@@ -0,0 +1,54 @@
+import { BeatState } from './beatDetector';
+import { FrequencyBand } from './frequencyBands';
+import { KeyEstimate, PitchEstimate } from './pitch';
+import { SpectralFeatures } from './spectralFeatures';
+import { StereoFrame } from './stereo';
+
+/**
+ * The shared frequency-band model for this frame, laid out and smoothed with the band
+ * settings from the panel (layout, aggregation, attack/release, auto-gain).
+ */
+export interface BandFrame {
+    bands: FrequencyBand[];
+    /** Level (0-1) of each band of the mixed signal */
+    values: Float32Array;
+    /**
+     * The same bands measured on each channel. Never auto-gained, so the two stay
+     * comparable; mono inputs give identical channels.
+     */
+    left: Float32Array;
+    right: Float32Array;
+    /** Pan position of each band, -1 (hard left) to 1 (hard right) */
+    pan: Float32Array;
+}
+
+/**
+ * Everything the analyser knows about the current animation frame, captured once
+ * and shared by whichever visualizer is active.
+ */
+export interface AudioFrame {
+    /** Seconds since page load */
+    time: number;
+    /** Seconds since the previous frame */
+    dt: number;
+    sampleRate: number;
+    /** Byte spectrum (0-255 per bin), DC up to Nyquist */
+    frequencyData: Uint8Array;
+    /** Decibel range the byte spectrum maps onto: 0 is minDecibels, 255 is maxDecibels */
+    minDecibels: number;
+    maxDecibels: number;
+    /** Byte waveform, 128 = silence */
+    timeDomainData: Uint8Array;
+    /** Float waveform in -1..1 */
+    floatTimeDomainData: Float32Array;
+    /** Mean spectrum level (0-1) */
+    intensity: number;
+    beat: BeatState;
+    features: SpectralFeatures;
+    pitch: PitchEstimate;
+    chroma: Float32Array;
+    key: KeyEstimate;
+    /** Per-channel waveforms and spectra, phase correlation and balance */
+    stereo: StereoFrame;
+    bands: BandFrame;
+}
@@ -0,0 +1,42 @@
+import { AudioFrame } from './audioFrame';
+import { readAudioSource } from './audioSources';
+import { FrequencyBandAnalyzer } from './frequencyBands';
+
+const SAMPLE_RATE = 44100;
+
+/**
+ * A frame carrying only the band model, run over a byte spectrum with energy in one range.
+ */
+function frameWithEnergy(analyzer: FrequencyBandAnalyzer, low: number, high: number, level: number): AudioFrame {
+    const spectrum = new Uint8Array(512);
+    const binWidth = SAMPLE_RATE / 2 / spectrum.length;
+    for (let i = Math.round(low / binWidth); i <= Math.round(high / binWidth); i++) spectrum[i] = level;
+    const values = analyzer.update(spectrum, SAMPLE_RATE, 255, 1);
+    const bands = { bands: analyzer.getBands(), values, left: values, right: values, pan: new Float32Array(values.length) };
+    return { bands } as unknown as AudioFrame;
+}
+
+describe('readAudioSource', () => {
+    it('reads bass, mid and treble from the shared band model', () => {
+        const analyzer = new FrequencyBandAnalyzer({ attack: 0, release: 0 });
+        const frame = frameWithEnergy(analyzer, 40, 200, 200);
+        expect(readAudioSource(frame, 'bass')).toBeGreaterThan(0.5);
+        expect(readAudioSource(frame, 'mid')).toBe(0);
+        expect(readAudioSource(frame, 'treble')).toBe(0);
+    });
+
+    it('follows the band settings', () => {
+        const quiet = (options: object) => {
+            const analyzer = new FrequencyBandAnalyzer({ attack: 0, release: 0, ...options });
+            return readAudioSource(frameWithEnergy(analyzer, 5000, 12000, 40), 'treble');
+        };
+        // Auto-gain lifts a quiet band towards full scale
+        expect(quiet({ autoGain: true })).toBeGreaterThan(quiet({ autoGain: false }) * 2);
+    });
+
+    it('works with layouts whose bands straddle the ranges', () => {
+        const analyzer = new FrequencyBandAnalyzer({ layout: 'linear', bandCount: 8, attack: 0, release: 0 });
+        const frame = frameWithEnergy(analyzer, 20, 250, 255);
+        expect(readAudioSource(frame, 'bass')).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,71 @@
+import { AudioFrame } from './audioFrame';
+
+/**
+ * Named scalar signals (0-1) read from an AudioFrame, for driving visual parameters.
+ */
+export type AudioSource = 'none' | 'bass' | 'mid' | 'treble' | 'intensity' | 'beat' | 'flux' | 'centroid' | 'flatness' | 'rms';
+
+export const AUDIO_SOURCES: AudioSource[] = ['none', 'bass', 'mid', 'treble', 'intensity', 'beat', 'flux', 'centroid', 'flatness', 'rms'];
+
+export const AUDIO_SOURCE_LABELS: { [source in AudioSource]: string } = {
+    'none': 'None (constant)',
+    'bass': 'Bass energy',
+    'mid': 'Mid energy',
+    'treble': 'Treble energy',
+    'intensity': 'Overall level',
+    'beat': 'Beat pulse',
+    'flux': 'Spectral flux',
+    'centroid': 'Brightness',
+    'flatness': 'Noisiness',
+    'rms': 'RMS loudness'
+};
+
+/** Frequency ranges of the energy sources, in Hz */
+const BAND_RANGES: { [source: string]: [number, number] } = {
+    bass: [20, 250],
+    mid: [250, 4000],
+    treble: [4000, 16000]
+};
+
+/**
+ * Level (0-1) between two frequencies, read from the shared band model so it follows the
+ * panel's band layout, aggregation, smoothing and auto-gain.
+ *
+ * Numerical method: Mean of the band values weighted by how much of each band lies in the range
+ */
+export function measureBandEnergy(frame: AudioFrame, low: number, high: number): number {
+    const { bands, values } = frame.bands;
+    let sum = 0;
+    let weight = 0;
+    for (let b = 0; b < bands.length; b++) {
+        const band = bands[b];
+        const overlap = Math.min(high, band.highFrequency) - Math.max(low, band.lowFrequency);
+        if (overlap <= 0) continue;
+        const w = overlap / (band.highFrequency - band.lowFrequency);
+        sum += values[b] * w;
+        weight += w;
+    }
+    return weight > 0 ? sum / weight : 0;
+}
+
+/**
+ * Current value of a source, 0-1. 'none' reads as a constant 1 so it leaves whatever it scales unchanged.
+ */
+export function readAudioSource(frame: AudioFrame, source: AudioSource): number {
+    switch (source) {
+        case 'none': return 1;
+        case 'bass':
+        case 'mid':
+        case 'treble': {
+            const range = BAND_RANGES[source];
+            return measureBandEnergy(frame, range[0], range[1]);
+        }
+        case 'intensity': return frame.intensity;
+        case 'beat': return Math.min(1, frame.beat.pulse);
+        case 'flux': return frame.features.flux;
+        case 'centroid': return frame.features.centroid;
+        case 'flatness': return frame.features.flatness;
+        case 'rms': return frame.features.rms;
+    }
+    return 0;
+}
@@ -0,0 +1,279 @@
+export interface BeatEvent {
+    /** Time of the beat in seconds */
+    time: number;
+    /** How far the spectral flux exceeded the adaptive threshold (0-1) */
+    strength: number;
+    bpm: number;
+    confidence: number;
+}
+
+export interface BeatState {
+    /** True only on the frame a beat was detected */
+    isBeat: boolean;
+    /** Current tempo estimate in beats per minute (0 until enough onsets are seen) */
+    bpm: number;
+    /** How strongly the onset intervals agree with the tempo estimate (0-1) */
+    confidence: number;
+    /** Position within the current beat period (0 on the beat, approaching 1 just before the next) */
+    phase: number;
+    /** Decays from 1 to 0 after each beat; convenient for visual pulsing */
+    pulse: number;
+    /** Strength (0-1) of the most recent beat */
+    strength: number;
+    flux: number;
+    threshold: number;
+    lastBeatTime: number;
+}
+
+export interface BeatDetectorOptions {
+    /** Length of the sliding window used for the adaptive threshold (seconds) */
+    historySeconds?: number;
+    /** Number of standard deviations above the mean flux an onset must reach */
+    sensitivity?: number;
+    /** Minimum time between two beats (seconds) */
+    minBeatInterval?: number;
+    /** Length of the onset history used for tempo estimation (seconds) */
+    tempoWindowSeconds?: number;
+    minBpm?: number;
+    maxBpm?: number;
+    /** Time constant of the pulse decay (seconds) */
+    pulseDecay?: number;
+}
+
+type BeatListener = (event: BeatEvent) => void;
+
+/**
+ * Onset and tempo tracker based on spectral flux.
+ *
+ * Numerical methods:
+ * - Spectral flux: half-wave rectified difference between consecutive magnitude spectra
+ * - Adaptive thresholding: mean + k * standard deviation over a sliding window
+ * - Tempo estimation: weighted histogram of inter-onset intervals, octave-folded into [minBpm, maxBpm]
+ * - Exponential decay for the beat pulse envelope
+ */
+export class BeatDetector {
+    private options: Required<BeatDetectorOptions>;
+    private previousSpectrum: Float32Array | null = null;
+    private fluxHistory: { time: number, flux: number }[] = [];
+    private onsetTimes: number[] = [];
+    private wasAboveThreshold: boolean = false;
+    private listeners: BeatListener[] = [];
+    private state: BeatState = {
+        isBeat: false,
+        bpm: 0,
+        confidence: 0,
+        phase: 0,
+        pulse: 0,
+        strength: 0,
+        flux: 0,
+        threshold: 0,
+        lastBeatTime: -Infinity
+    };
+
+    // Absolute floor so silence and noise never register as beats
+    private readonly MIN_THRESHOLD = 0.004;
+
+    constructor(options: BeatDetectorOptions = {}) {
+        this.options = {
+            historySeconds: 1.0,
+            sensitivity: 1.5,
+            minBeatInterval: 0.25,
+            tempoWindowSeconds: 8,
+            minBpm: 70,
+            maxBpm: 180,
+            pulseDecay: 0.15,
+            ...options
+        };
+    }
+
+    /**
+     * Subscribe to beat events. Returns a function that removes the listener.
+     */
+    onBeat(listener: BeatListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    getState(): BeatState {
+        return this.state;
+    }
+
+    setSensitivity(sensitivity: number) {
+        this.options.sensitivity = sensitivity;
+    }
+
+    getSensitivity(): number {
+        return this.options.sensitivity;
+    }
+
+    reset() {
+        this.previousSpectrum = null;
+        this.fluxHistory = [];
+        this.onsetTimes = [];
+        this.wasAboveThreshold = false;
+        this.state = { ...this.state, isBeat: false, bpm: 0, confidence: 0, phase: 0, pulse: 0, strength: 0, lastBeatTime: -Infinity };
+    }
+
+    /**
+     * Feed one magnitude spectrum (byte or float, any scale) captured at `time` seconds.
+     */
+    process(spectrum: ArrayLike<number>, time: number, maxValue: number = 255): BeatState {
+        const flux = this.computeFlux(spectrum, maxValue);
+        const threshold = this.updateThreshold(flux, time);
+
+        const isAbove = flux > threshold;
+        const sinceLastBeat = time - this.state.lastBeatTime;
+        // Only trigger on the rising edge, and respect the refractory period
+        const isBeat = isAbove && !this.wasAboveThreshold && sinceLastBeat >= this.options.minBeatInterval;
+        this.wasAboveThreshold = isAbove;
+
+        if (isBeat) {
+            this.registerOnset(time);
+        }
+
+        const { bpm, lastBeatTime } = this.state;
+        const period = bpm > 0 ? 60 / bpm : 0;
+        const elapsed = time - lastBeatTime;
+        const phase = period > 0 && isFinite(elapsed) ? (elapsed / period) % 1 : 0;
+        // Numerical method: Exponential decay of the pulse envelope
+        const pulse = isFinite(elapsed) ? Math.exp(-elapsed / this.options.pulseDecay) : 0;
+
+        this.state = {
+            ...this.state,
+            isBeat,
+            phase,
+            pulse,
+            flux,
+            threshold
+        };
+
+        if (isBeat) {
+            const strength = Math.min(1, (flux - threshold) / Math.max(threshold, 1e-6));
+            this.state.strength = strength;
+            const event: BeatEvent = { time, strength, bpm: this.state.bpm, confidence: this.state.confidence };
+            this.listeners.forEach(listener => listener(event));
+        }
+
+        return this.state;
+    }
+
+    /**
+     * Numerical method: Spectral flux
+     * Sum of positive magnitude changes between consecutive frames, normalized by bin count.
+     * Only increases count, so decaying notes don't produce onsets.
+     */
+    private computeFlux(spectrum: ArrayLike<number>, maxValue: number): number {
+        const n = spectrum.length;
+        if (!this.previousSpectrum || this.previousSpectrum.length !== n) {
+            this.previousSpectrum = new Float32Array(n);
+            for (let i = 0; i < n; i++) {
+                this.previousSpectrum[i] = spectrum[i] / maxValue;
+            }
+            return 0;
+        }
+
+        let flux = 0;
+        for (let i = 0; i < n; i++) {
+            const value = spectrum[i] / maxValue;
+            const diff = value - this.previousSpectrum[i];
+            if (diff > 0) flux += diff;
+            this.previousSpectrum[i] = value;
+        }
+        return flux / n;
+    }
+
+    /**
+     * Numerical method: Adaptive threshold (mean + k * standard deviation over a sliding window)
+     */
+    private updateThreshold(flux: number, time: number): number {
+        this.fluxHistory.push({ time, flux });
+        const cutoff = time - this.options.historySeconds;
+        while (this.fluxHistory.length > 0 && this.fluxHistory[0].time < cutoff) {
+            this.fluxHistory.shift();
+        }
+
+        const count = this.fluxHistory.length;
+        let mean = 0;
+        for (const entry of this.fluxHistory) mean += entry.flux;
+        mean /= count;
+
+        let variance = 0;
+        for (const entry of this.fluxHistory) variance += (entry.flux - mean) * (entry.flux - mean);
+        const stdDev = Math.sqrt(variance / count);
+
+        return Math.max(this.MIN_THRESHOLD, mean + this.options.sensitivity * stdDev);
+    }
+
+    private registerOnset(time: number) {
+        this.onsetTimes.push(time);
+        const cutoff = time - this.options.tempoWindowSeconds;
+        while (this.onsetTimes.length > 0 && this.onsetTimes[0] < cutoff) {
+            this.onsetTimes.shift();
+        }
+
+        this.state.lastBeatTime = time;
+        this.estimateTempo();
+    }
+
+    /**
+     * Numerical method: Inter-onset interval histogram
+     * Every pair of onsets (not just neighbours) votes for a tempo. Intervals are
+     * octave-folded into [minBpm, maxBpm] so half/double-time onsets reinforce the
+     * same bin, and each vote is spread over neighbouring bins with a small Gaussian.
+     */
+    private estimateTempo() {
+        const { minBpm, maxBpm } = this.options;
+        const onsets = this.onsetTimes;
+        if (onsets.length < 4) return;
+
+        const binCount = Math.floor(maxBpm - minBpm) + 1;
+        const histogram = new Float32Array(binCount);
+        let total = 0;
+
+        for (let i = 0; i < onsets.length; i++) {
+            for (let j = i + 1; j < onsets.length && j - i <= 4; j++) {
+                const interval = onsets[j] - onsets[i];
+                if (interval <= 0) continue;
+
+                let bpm = 60 / interval;
+                while (bpm < minBpm) bpm *= 2;
+                while (bpm > maxBpm) bpm /= 2;
+
+                // Nearby onset pairs are more reliable than distant ones
+                const weight = 1 / (j - i);
+                const center = bpm - minBpm;
+                for (let b = Math.max(0, Math.floor(center) - 2); b <= Math.min(binCount - 1, Math.ceil(center) + 2); b++) {
+                    const d = b - center;
+                    const vote = weight * Math.exp(-(d * d) / 2);
+                    histogram[b] += vote;
+                    total += vote;
+                }
+            }
+        }
+        if (total === 0) return;
+
+        let peakBin = 0;
+        for (let b = 1; b < binCount; b++) {
+            if (histogram[b] > histogram[peakBin]) peakBin = b;
+        }
+
+        // Confidence: fraction of all votes that landed near the peak
+        let peakMass = 0;
+        for (let b = Math.max(0, peakBin - 2); b <= Math.min(binCount - 1, peakBin + 2); b++) {
+            peakMass += histogram[b];
+        }
+        const confidence = peakMass / total;
+        const estimate = peakBin + minBpm;
+
+        // Numerical method: Exponential smoothing of the tempo, but jump when the estimate clearly changed
+        const current = this.state.bpm;
+        if (current === 0 || Math.abs(estimate - current) > 8) {
+            this.state.bpm = estimate;
+        } else {
+            this.state.bpm = current + (estimate - current) * 0.2;
+        }
+        this.state.confidence = confidence;
+    }
+}
@@ -0,0 +1,132 @@
+import { FFTAnalyzer, isPowerOfTwo, realFFT } from './fft';
+
+/**
+ * Reference O(N^2) DFT of a real signal, bins 0..N/2.
+ */
+function naiveDFT(input: number[]): { real: number[], imag: number[] } {
+    const n = input.length;
+    const real: number[] = [];
+    const imag: number[] = [];
+    for (let k = 0; k <= n / 2; k++) {
+        let re = 0;
+        let im = 0;
+        for (let t = 0; t < n; t++) {
+            const angle = (-2 * Math.PI * k * t) / n;
+            re += input[t] * Math.cos(angle);
+            im += input[t] * Math.sin(angle);
+        }
+        real.push(re);
+        imag.push(im);
+    }
+    return { real, imag };
+}
+
+function sine(length: number, frequency: number, sampleRate: number, amplitude: number): number[] {
+    const samples: number[] = [];
+    for (let i = 0; i < length; i++) {
+        samples.push(amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+    }
+    return samples;
+}
+
+describe('isPowerOfTwo', () => {
+    it('accepts powers of two only', () => {
+        expect([1, 2, 4, 1024].every(isPowerOfTwo)).toBe(true);
+        expect([0, -2, 3, 1536].some(isPowerOfTwo)).toBe(false);
+    });
+
+    it('rejects fractions that truncate to a power of two', () => {
+        expect(isPowerOfTwo(1.5)).toBe(false);
+        expect(isPowerOfTwo(2.5)).toBe(false);
+    });
+});
+
+describe('realFFT', () => {
+    it('matches a naive DFT', () => {
+        // Deterministic pseudo-random input
+        let seed = 1;
+        const input: number[] = [];
+        for (let i = 0; i < 256; i++) {
+            seed = (seed * 16807) % 2147483647;
+            input.push(seed / 2147483647 - 0.5);
+        }
+
+        const expected = naiveDFT(input);
+        const { real, imag } = realFFT(input);
+        expect(real.length).toBe(129);
+
+        let maxError = 0;
+        for (let k = 0; k < real.length; k++) {
+            maxError = Math.max(maxError, Math.abs(real[k] - expected.real[k]), Math.abs(imag[k] - expected.imag[k]));
+        }
+        expect(maxError).toBeLessThan(1e-9);
+    });
+
+    it('rejects lengths that are not a power of two', () => {
+        expect(() => realFFT(new Float64Array(12))).toThrow();
+    });
+});
+
+describe('FFTAnalyzer', () => {
+    const sampleRate = 44100;
+
+    it('puts a Hann-windowed sine in the right bin at the right amplitude', () => {
+        const analyzer = new FFTAnalyzer({ size: 1024, window: 'hann' });
+        // Centred on bin 40 so the window's scalloping loss doesn't blur the amplitude
+        const frequency = analyzer.getBinFrequency(40, sampleRate);
+        const { magnitudes } = analyzer.analyze(sine(1024, frequency, sampleRate, 0.5));
+
+        let peak = 0;
+        for (let k = 1; k < magnitudes.length; k++) {
+            if (magnitudes[k] > magnitudes[peak]) peak = k;
+        }
+        expect(peak).toBe(40);
+        expect(magnitudes[peak]).toBeCloseTo(0.5, 3);
+    });
+
+    it('keeps the peak frequency and amplitude with zero-padding', () => {
+        const analyzer = new FFTAnalyzer({ size: 1024, window: 'hann', zeroPadding: 4 });
+        const { magnitudes } = analyzer.analyze(sine(1024, analyzer.getBinFrequency(160, sampleRate), sampleRate, 0.25));
+        expect(magnitudes.length).toBe(2049);
+
+        let peak = 0;
+        for (let k = 1; k < magnitudes.length; k++) {
+            if (magnitudes[k] > magnitudes[peak]) peak = k;
+        }
+        expect(peak).toBe(160);
+        expect(magnitudes[peak]).toBeCloseTo(0.25, 3);
+    });
+
+    it('produces one frame per hop over a signal', () => {
+        const signal = new Float32Array(4096);
+        expect(new FFTAnalyzer({ size: 1024 }).process(signal).length).toBe(4);
+        expect(new FFTAnalyzer({ size: 1024, overlap: 0.5 }).process(signal).length).toBe(7);
+        expect(new FFTAnalyzer({ size: 1024, overlap: 0.75 }).process(signal).length).toBe(13);
+    });
+
+    it('streams the same frames as processing the whole signal', () => {
+        const analyzer = new FFTAnalyzer({ size: 1024, overlap: 0.5 });
+        const signal = new Float32Array(4096);
+        let frames = 0;
+        for (let start = 0; start < signal.length; start += 300) {
+            frames += analyzer.push(signal.subarray(start, start + 300)).length;
+        }
+        expect(frames).toBe(7);
+    });
+
+    it('rejects zero-padding factors that are not powers of two', () => {
+        const analyzer = new FFTAnalyzer({ size: 1024 });
+        expect(() => analyzer.setZeroPadding(1.5)).toThrow();
+        expect(() => analyzer.setZeroPadding(3)).toThrow();
+        expect(() => new FFTAnalyzer({ zeroPadding: 2.5 })).toThrow();
+        expect(analyzer.getZeroPadding()).toBe(1);
+    });
+
+    it('keeps the previous overlap when given an invalid one', () => {
+        const analyzer = new FFTAnalyzer({ size: 1024, overlap: 0.5 });
+        expect(() => analyzer.setOverlap(1)).toThrow();
+        expect(analyzer.getOverlap()).toBe(0.5);
+        // Still fully usable afterwards
+        expect(() => analyzer.setZeroPadding(2)).not.toThrow();
+    });
+});
@@ -0,0 +1,375 @@
+/**
+ * Pure TypeScript Fast Fourier Transform, independent of the Web Audio API.
+ *
+ * Numerical methods:
+ * - Iterative radix-2 Cooley-Tukey FFT (decimation in time) with bit-reversal permutation
+ * - Real-input FFT computed as a half-length complex FFT plus a post-processing twiddle step
+ * - Window functions to reduce spectral leakage (Hann, Hamming, Blackman-Harris, rectangular)
+ * - Zero-padding to interpolate the spectrum on a finer frequency grid
+ * - Overlapping frames (short-time Fourier transform) for analysing longer signals
+ *
+ * Nothing here touches the DOM, so it runs unchanged under Node for testing.
+ */
+
+export type WindowFunction = 'rectangular' | 'hann' | 'hamming' | 'blackman-harris';
+
+export const WINDOW_FUNCTIONS: WindowFunction[] = ['rectangular', 'hann', 'hamming', 'blackman-harris'];
+
+export interface Spectrum {
+    /**
+     * Single-sided amplitude spectrum, normalized so that a sine of amplitude A
+     * produces a peak of roughly A regardless of window or padding.
+     */
+    magnitudes: Float32Array;
+    /** Phase of each bin in radians (-PI..PI) */
+    phases: Float32Array;
+}
+
+export interface FFTOptions {
+    /** Number of input samples per frame (power of two) */
+    size?: number;
+    window?: WindowFunction;
+    /** Zero-padding factor; the transform length is size * zeroPadding (power of two) */
+    zeroPadding?: number;
+    /** Fraction of each frame shared with the next when processing a long signal (0 to <1) */
+    overlap?: number;
+}
+
+export function isPowerOfTwo(n: number): boolean {
+    return Number.isInteger(n) && n > 0 && (n & (n - 1)) === 0;
+}
+
+export function nextPowerOfTwo(n: number): number {
+    let p = 1;
+    while (p < n) p <<= 1;
+    return p;
+}
+
+/**
+ * Build window coefficients of the given length.
+ * Uses the periodic (DFT-even) form, which is what spectral analysis wants.
+ */
+export function createWindow(type: WindowFunction, size: number): Float32Array {
+    const w = new Float32Array(size);
+    for (let n = 0; n < size; n++) {
+        const x = (2 * Math.PI * n) / size;
+        switch (type) {
+            case 'hann':
+                w[n] = 0.5 - 0.5 * Math.cos(x);
+                break;
+            case 'hamming':
+                w[n] = 0.54 - 0.46 * Math.cos(x);
+                break;
+            case 'blackman-harris':
+                w[n] = 0.35875 - 0.48829 * Math.cos(x) + 0.14128 * Math.cos(2 * x) - 0.01168 * Math.cos(3 * x);
+                break;
+            default:
+                w[n] = 1;
+        }
+    }
+    return w;
+}
+
+// Twiddle factors and bit-reversal tables are reused across calls of the same size
+const twiddleCache: { [size: number]: { cos: Float64Array, sin: Float64Array, reverse: Uint32Array } } = {};
+
+function getTables(size: number) {
+    let tables = twiddleCache[size];
+    if (tables) return tables;
+
+    const half = size >> 1;
+    const cos = new Float64Array(half);
+    const sin = new Float64Array(half);
+    for (let k = 0; k < half; k++) {
+        cos[k] = Math.cos((2 * Math.PI * k) / size);
+        sin[k] = Math.sin((2 * Math.PI * k) / size);
+    }
+
+    const bits = Math.round(Math.log(size) / Math.LN2);
+    const reverse = new Uint32Array(size);
+    for (let i = 0; i < size; i++) {
+        let r = 0;
+        for (let b = 0; b < bits; b++) {
+            r = (r << 1) | ((i >> b) & 1);
+        }
+        reverse[i] = r;
+    }
+
+    tables = { cos, sin, reverse };
+    twiddleCache[size] = tables;
+    return tables;
+}
+
+/**
+ * In-place complex FFT of (real, imag). Length must be a power of two.
+ * With `inverse` set, computes the inverse transform including the 1/N scaling.
+ */
+export function fft(real: Float64Array | Float32Array | number[], imag: Float64Array | Float32Array | number[], inverse: boolean = false) {
+    const n = real.length;
+    if (n !== imag.length) {
+        throw new Error('fft: real and imaginary parts must have the same length');
+    }
+    if (!isPowerOfTwo(n)) {
+        throw new Error(`fft: length ${n} is not a power of two`);
+    }
+    if (n === 1) return;
+
+    const { cos, sin, reverse } = getTables(n);
+
+    // Bit-reversal permutation
+    for (let i = 0; i < n; i++) {
+        const j = reverse[i];
+        if (j > i) {
+            let t = real[i]; real[i] = real[j]; real[j] = t;
+            t = imag[i]; imag[i] = imag[j]; imag[j] = t;
+        }
+    }
+
+    // Butterflies: combine DFTs of length `half` into DFTs of length `len`
+    const sign = inverse ? 1 : -1;
+    for (let len = 2; len <= n; len <<= 1) {
+        const half = len >> 1;
+        const step = n / len;
+        for (let start = 0; start < n; start += len) {
+            for (let k = 0; k < half; k++) {
+                const wr = cos[k * step];
+                const wi = sign * sin[k * step];
+                const a = start + k;
+                const b = a + half;
+                const tr = real[b] * wr - imag[b] * wi;
+                const ti = real[b] * wi + imag[b] * wr;
+                real[b] = real[a] - tr;
+                imag[b] = imag[a] - ti;
+                real[a] += tr;
+                imag[a] += ti;
+            }
+        }
+    }
+
+    if (inverse) {
+        for (let i = 0; i < n; i++) {
+            real[i] /= n;
+            imag[i] /= n;
+        }
+    }
+}
+
+/**
+ * FFT of a real signal. Returns bins 0..N/2 inclusive (N/2 + 1 values).
+ *
+ * Numerical method: Packs the even samples into the real part and the odd samples
+ * into the imaginary part of a length-N/2 complex signal, transforms it, then
+ * separates the two half-length spectra and combines them with twiddle factors.
+ * This is roughly twice as fast as a full complex FFT of the zero-imaginary signal.
+ */
+export function realFFT(input: ArrayLike<number>): { real: Float64Array, imag: Float64Array } {
+    const n = input.length;
+    if (!isPowerOfTwo(n) || n < 2) {
+        throw new Error(`realFFT: length ${n} is not a power of two >= 2`);
+    }
+
+    const half = n >> 1;
+    const zr = new Float64Array(half);
+    const zi = new Float64Array(half);
+    for (let i = 0; i < half; i++) {
+        zr[i] = input[2 * i];
+        zi[i] = input[2 * i + 1];
+    }
+    fft(zr, zi);
+
+    const real = new Float64Array(half + 1);
+    const imag = new Float64Array(half + 1);
+    const { cos, sin } = getTables(n);
+
+    for (let k = 0; k <= half; k++) {
+        const kk = k % half;
+        const mk = (half - k) % half;
+        // Even part E = (Z[k] + conj(Z[N/2-k])) / 2
+        const er = (zr[kk] + zr[mk]) / 2;
+        const ei = (zi[kk] - zi[mk]) / 2;
+        // Odd part O = (Z[k] - conj(Z[N/2-k])) / 2i
+        const or = (zi[kk] + zi[mk]) / 2;
+        const oi = -(zr[kk] - zr[mk]) / 2;
+        // X[k] = E + W^k * O, with W = e^(-2*PI*i/N)
+        const c = k < half ? cos[k] : -1;
+        const s = k < half ? sin[k] : 0;
+        real[k] = er + c * or + s * oi;
+        imag[k] = ei + c * oi - s * or;
+    }
+
+    return { real, imag };
+}
+
+/**
+ * Windowed, zero-padded spectral analysis of real signals.
+ */
+export class FFTAnalyzer {
+    private size: number;
+    private windowType: WindowFunction;
+    private zeroPadding: number;
+    private overlap: number;
+    private window: Float32Array;
+    private windowSum: number = 0;
+    private frame: Float64Array;
+    // Samples carried over between push() calls when streaming
+    private pending: number[] = [];
+
+    constructor(options: FFTOptions = {}) {
+        this.size = options.size || 1024;
+        this.windowType = options.window || 'hann';
+        this.zeroPadding = options.zeroPadding || 1;
+        this.overlap = options.overlap || 0;
+        this.validate();
+        this.window = createWindow(this.windowType, this.size);
+        this.windowSum = this.window.reduce((a, b) => a + b, 0);
+        this.frame = new Float64Array(this.getTransformSize());
+    }
+
+    private validate() {
+        if (!isPowerOfTwo(this.size)) {
+            throw new Error(`FFTAnalyzer: size ${this.size} is not a power of two`);
+        }
+        if (!isPowerOfTwo(this.zeroPadding)) {
+            throw new Error(`FFTAnalyzer: zero-padding factor ${this.zeroPadding} is not a power of two`);
+        }
+        if (this.overlap < 0 || this.overlap >= 1) {
+            throw new Error(`FFTAnalyzer: overlap ${this.overlap} must be in [0, 1)`);
+        }
+    }
+
+    setWindow(type: WindowFunction) {
+        this.windowType = type;
+        this.window = createWindow(type, this.size);
+        this.windowSum = this.window.reduce((a, b) => a + b, 0);
+    }
+
+    getWindow(): WindowFunction {
+        return this.windowType;
+    }
+
+    setZeroPadding(factor: number) {
+        const previous = this.zeroPadding;
+        this.zeroPadding = factor;
+        try {
+            this.validate();
+        } catch (error) {
+            // Keep analysing with the last valid factor
+            this.zeroPadding = previous;
+            throw error;
+        }
+        this.frame = new Float64Array(this.getTransformSize());
+    }
+
+    getZeroPadding(): number {
+        return this.zeroPadding;
+    }
+
+    setOverlap(overlap: number) {
+        const previous = this.overlap;
+        this.overlap = overlap;
+        try {
+            this.validate();
+        } catch (error) {
+            // Keep framing with the last valid overlap
+            this.overlap = previous;
+            throw error;
+        }
+    }
+
+    getOverlap(): number {
+        return this.overlap;
+    }
+
+    getSize(): number {
+        return this.size;
+    }
+
+    /** Length of the transform after zero-padding */
+    getTransformSize(): number {
+        return this.size * this.zeroPadding;
+    }
+
+    /** Number of bins in each spectrum (DC through Nyquist) */
+    getBinCount(): number {
+        return this.getTransformSize() / 2 + 1;
+    }
+
+    /** Samples between the starts of consecutive frames */
+    getHopSize(): number {
+        return Math.max(1, Math.round(this.size * (1 - this.overlap)));
+    }
+
+    getBinFrequency(bin: number, sampleRate: number): number {
+        return (bin * sampleRate) / this.getTransformSize();
+    }
+
+    /**
+     * Analyse one frame. Uses the last `size` samples of the input; shorter
+     * input is treated as preceded by silence.
+     */
+    analyze(samples: ArrayLike<number>, offset: number = Math.max(0, samples.length - this.size)): Spectrum {
+        const frame = this.frame;
+        frame.fill(0);
+        const available = Math.min(this.size, samples.length - offset);
+        const lead = this.size - available;
+        for (let i = 0; i < available; i++) {
+            frame[lead + i] = samples[offset + i] * this.window[lead + i];
+        }
+
+        const { real, imag } = realFFT(frame);
+        const bins = real.length;
+        const magnitudes = new Float32Array(bins);
+        const phases = new Float32Array(bins);
+        // Numerical method: Amplitude normalization by the window's coherent gain
+        const scale = this.windowSum > 0 ? 2 / this.windowSum : 0;
+
+        for (let k = 0; k < bins; k++) {
+            const mag = Math.sqrt(real[k] * real[k] + imag[k] * imag[k]) * scale;
+            // DC and Nyquist have no mirrored negative-frequency twin
+            magnitudes[k] = k === 0 || k === bins - 1 ? mag / 2 : mag;
+            phases[k] = Math.atan2(imag[k], real[k]);
+        }
+
+        return { magnitudes, phases };
+    }
+
+    /**
+     * Short-time Fourier transform of a complete signal, one spectrum per hop.
+     */
+    process(signal: ArrayLike<number>): Spectrum[] {
+        const spectra: Spectrum[] = [];
+        const hop = this.getHopSize();
+        for (let start = 0; start + this.size <= signal.length; start += hop) {
+            spectra.push(this.analyze(signal, start));
+        }
+        return spectra;
+    }
+
+    /**
+     * Streaming variant of process(): feed chunks of any length and receive
+     * every frame that became complete, honouring the configured overlap.
+     */
+    push(chunk: ArrayLike<number>): Spectrum[] {
+        for (let i = 0; i < chunk.length; i++) {
+            this.pending.push(chunk[i]);
+        }
+        const spectra: Spectrum[] = [];
+        const hop = this.getHopSize();
+        while (this.pending.length >= this.size) {
+            spectra.push(this.analyze(this.pending, 0));
+            this.pending.splice(0, hop);
+        }
+        return spectra;
+    }
+
+    reset() {
+        this.pending = [];
+    }
+}
+
+/**
+ * Convert a linear amplitude to decibels, clamped to a floor to avoid -Infinity.
+ */
+export function toDecibels(amplitude: number, floor: number = -160): number {
+    return amplitude > 0 ? Math.max(floor, 20 * Math.log10(amplitude)) : floor;
+}
@@ -0,0 +1,162 @@
+/**
+ * Plays a decoded AudioBuffer through a persistent output node.
+ *
+ * AudioBufferSourceNodes are single-use, so a fresh source node is created every
+ * time playback starts or seeks. All of them feed the same output GainNode, which
+ * means the analyser and the speakers only ever need to be connected once.
+ */
+export class AudioFilePlayer {
+    private context: AudioContext;
+    private output: GainNode;
+    private buffer: AudioBuffer | null = null;
+    private sourceNode: AudioBufferSourceNode | null = null;
+    private playing: boolean = false;
+    private loop: boolean = false;
+    private startedAt: number = 0;  // context time at which offset 0 would have played
+    private pausedAt: number = 0;   // offset (seconds) into the buffer while paused
+    private fileName: string = '';
+    private endedListeners: (() => void)[] = [];
+
+    constructor(context: AudioContext) {
+        this.context = context;
+        this.output = context.createGain();
+        this.output.gain.value = 1;
+    }
+
+    /**
+     * Replace the current buffer. Playback is stopped and rewound to the start.
+     */
+    load(buffer: AudioBuffer, fileName: string = '') {
+        this.stopSource();
+        this.buffer = buffer;
+        this.fileName = fileName;
+        this.pausedAt = 0;
+        this.playing = false;
+        console.log(`Audio file loaded: ${fileName} (${buffer.duration.toFixed(2)}s, ${buffer.numberOfChannels} channels)`);
+    }
+
+    play() {
+        if (!this.buffer || this.playing) return;
+
+        // Restart from the beginning if we previously played to the end
+        if (this.pausedAt >= this.buffer.duration) {
+            this.pausedAt = 0;
+        }
+
+        const source = this.context.createBufferSource();
+        source.buffer = this.buffer;
+        source.loop = this.loop;
+        source.connect(this.output);
+        source.onended = () => {
+            // Ignore sources that were stopped on purpose (pause/seek/load)
+            if (this.sourceNode !== source) return;
+            this.sourceNode = null;
+            this.playing = false;
+            this.pausedAt = this.getDuration();
+            this.endedListeners.forEach(listener => listener());
+        };
+        source.start(0, this.pausedAt);
+
+        this.sourceNode = source;
+        this.startedAt = this.context.currentTime - this.pausedAt;
+        this.playing = true;
+    }
+
+    pause() {
+        if (!this.playing) return;
+        this.pausedAt = this.getCurrentTime();
+        this.stopSource();
+        this.playing = false;
+    }
+
+    togglePlayback() {
+        if (this.playing) {
+            this.pause();
+        } else {
+            this.play();
+        }
+    }
+
+    /**
+     * Jump to a position in seconds, keeping the current play/pause state.
+     */
+    seek(time: number) {
+        if (!this.buffer) return;
+        const wasPlaying = this.playing;
+        this.stopSource();
+        this.playing = false;
+        this.pausedAt = Math.max(0, Math.min(time, this.buffer.duration));
+        if (wasPlaying) {
+            this.play();
+        }
+    }
+
+    setLoop(loop: boolean) {
+        this.loop = loop;
+        if (this.sourceNode) {
+            // Re-anchor so the position readout stays correct when looping is toggled mid-track
+            this.pausedAt = this.getCurrentTime();
+            this.startedAt = this.context.currentTime - this.pausedAt;
+            this.sourceNode.loop = loop;
+        }
+    }
+
+    getLoop(): boolean {
+        return this.loop;
+    }
+
+    isPlaying(): boolean {
+        return this.playing;
+    }
+
+    hasBuffer(): boolean {
+        return this.buffer !== null;
+    }
+
+    getFileName(): string {
+        return this.fileName;
+    }
+
+    /**
+     * Channels of the loaded file (0 when none is loaded).
+     */
+    getChannelCount(): number {
+        return this.buffer ? this.buffer.numberOfChannels : 0;
+    }
+
+    getDuration(): number {
+        return this.buffer ? this.buffer.duration : 0;
+    }
+
+    /**
+     * Current playback position in seconds.
+     */
+    getCurrentTime(): number {
+        if (!this.playing) return this.pausedAt;
+        const duration = this.getDuration();
+        const elapsed = this.context.currentTime - this.startedAt;
+        if (this.loop && duration > 0) {
+            return elapsed % duration;
+        }
+        return Math.min(elapsed, duration);
+    }
+
+    /**
+     * The node that carries the player's signal; connect it to the analyser and destination.
+     */
+    getOutputNode(): AudioNode {
+        return this.output;
+    }
+
+    onEnded(listener: () => void) {
+        this.endedListeners.push(listener);
+    }
+
+    private stopSource() {
+        if (!this.sourceNode) return;
+        const source = this.sourceNode;
+        this.sourceNode = null;
+        source.stop();
+        source.disconnect();
+    }
+}
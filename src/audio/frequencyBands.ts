@@ -0,0 +1,243 @@
+/**
+ * Frequency-band model shared by all visualizers.
+ *
+ * Splits a magnitude spectrum into bands laid out on one of several frequency
+ * scales, aggregates every bin inside each band, and smooths the result over time.
+ *
+ * Numerical methods:
+ * - Perceptual frequency scales (Mel, Bark) and their inverses for band placement
+ * - Bin aggregation by sum, mean, root-mean-square or peak
+ * - Asymmetric exponential smoothing (separate attack and release time constants)
+ * - Automatic gain control using a decaying running peak
+ */
+
+export type BandLayout = 'linear' | 'logarithmic' | 'octave' | 'third-octave' | 'mel' | 'bark';
+export type BandAggregation = 'sum' | 'mean' | 'rms' | 'peak';
+
+export const BAND_LAYOUTS: BandLayout[] = ['linear', 'logarithmic', 'octave', 'third-octave', 'mel', 'bark'];
+export const BAND_AGGREGATIONS: BandAggregation[] = ['sum', 'mean', 'rms', 'peak'];
+
+export interface FrequencyBand {
+    lowFrequency: number;
+    centerFrequency: number;
+    highFrequency: number;
+    /** First spectrum bin in the band (inclusive) */
+    startBin: number;
+    /** Last spectrum bin in the band (inclusive) */
+    endBin: number;
+}
+
+export interface FrequencyBandOptions {
+    layout: BandLayout;
+    /** Number of bands; octave and third-octave layouts derive the count from the range instead */
+    bandCount: number;
+    minFrequency: number;
+    maxFrequency: number;
+    aggregation: BandAggregation;
+    /** Rise time constant in seconds (0 = instant) */
+    attack: number;
+    /** Fall time constant in seconds (0 = instant) */
+    release: number;
+    /** Normalize output against a decaying running peak */
+    autoGain: boolean;
+    /** Time constant in seconds for the auto-gain peak to fall back */
+    autoGainRelease: number;
+}
+
+export const DEFAULT_BAND_OPTIONS: FrequencyBandOptions = {
+    layout: 'logarithmic',
+    bandCount: 32,
+    minFrequency: 20,
+    maxFrequency: 16000,
+    aggregation: 'rms',
+    attack: 0.01,
+    release: 0.15,
+    autoGain: false,
+    autoGainRelease: 5
+};
+
+export const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+export const melToHz = (mel: number) => 700 * (Math.pow(10, mel / 2595) - 1);
+
+// Traunmüller's approximation of the Bark scale
+export const hzToBark = (hz: number) => (26.81 * hz) / (1960 + hz) - 0.53;
+export const barkToHz = (bark: number) => (1960 * (bark + 0.53)) / (26.28 - bark);
+
+/**
+ * Compute [low, center, high] frequencies for every band of a layout.
+ */
+export function computeBandFrequencies(layout: BandLayout, bandCount: number, minFrequency: number, maxFrequency: number): { low: number, center: number, high: number }[] {
+    const bands: { low: number, center: number, high: number }[] = [];
+    const min = Math.max(minFrequency, 1);
+    const max = Math.max(maxFrequency, min + 1);
+
+    // Fractional-octave bands are centred on the ISO 1 kHz reference
+    if (layout === 'octave' || layout === 'third-octave') {
+        const fraction = layout === 'octave' ? 1 : 3;
+        const halfBand = Math.pow(2, 1 / (2 * fraction));
+        const first = Math.ceil(fraction * Math.log2(min * halfBand / 1000));
+        const last = Math.floor(fraction * Math.log2(max / halfBand / 1000));
+        for (let k = first; k <= last; k++) {
+            const center = 1000 * Math.pow(2, k / fraction);
+            bands.push({ low: center / halfBand, center, high: center * halfBand });
+        }
+        return bands;
+    }
+
+    // Every other layout places equally spaced edges on some warped axis
+    let toScale = (f: number) => f;
+    let fromScale = (x: number) => x;
+    if (layout === 'logarithmic') {
+        toScale = Math.log;
+        fromScale = Math.exp;
+    } else if (layout === 'mel') {
+        toScale = hzToMel;
+        fromScale = melToHz;
+    } else if (layout === 'bark') {
+        toScale = hzToBark;
+        fromScale = barkToHz;
+    }
+
+    const start = toScale(min);
+    const end = toScale(max);
+    const count = Math.max(1, Math.floor(bandCount));
+    for (let i = 0; i < count; i++) {
+        const low = start + ((end - start) * i) / count;
+        const high = start + ((end - start) * (i + 1)) / count;
+        bands.push({ low: fromScale(low), center: fromScale((low + high) / 2), high: fromScale(high) });
+    }
+    return bands;
+}
+
+export class FrequencyBandAnalyzer {
+    private options: FrequencyBandOptions;
+    private bands: FrequencyBand[] = [];
+    private values: Float32Array = new Float32Array(0);
+    private raw: Float32Array = new Float32Array(0);
+    private runningPeak: number = 0;
+    // Spectrum geometry the bin ranges were computed for
+    private binCount: number = 0;
+    private sampleRate: number = 0;
+
+    // Keeps auto-gain from amplifying silence into full-scale noise
+    private readonly MIN_AUTO_GAIN_PEAK = 0.05;
+
+    constructor(options: Partial<FrequencyBandOptions> = {}) {
+        this.options = { ...DEFAULT_BAND_OPTIONS, ...options };
+    }
+
+    setOptions(options: Partial<FrequencyBandOptions>) {
+        this.options = { ...this.options, ...options };
+        // Force bin ranges to be recomputed on the next update
+        this.binCount = 0;
+    }
+
+    getOptions(): FrequencyBandOptions {
+        return { ...this.options };
+    }
+
+    getBands(): FrequencyBand[] {
+        return this.bands;
+    }
+
+    getBandCount(): number {
+        return this.bands.length;
+    }
+
+    /**
+     * Smoothed band values (0-1) from the last update().
+     */
+    getValues(): Float32Array {
+        return this.values;
+    }
+
+    /**
+     * Lay out the bands for a given spectrum size. Called automatically by
+     * update(), but useful beforehand when a consumer needs band positions early.
+     */
+    configure(binCount: number, sampleRate: number) {
+        if (binCount === this.binCount && sampleRate === this.sampleRate) return;
+        this.binCount = binCount;
+        this.sampleRate = sampleRate;
+
+        const nyquist = sampleRate / 2;
+        const binWidth = nyquist / binCount;
+        const { layout, bandCount, minFrequency, maxFrequency } = this.options;
+
+        this.bands = computeBandFrequencies(layout, bandCount, minFrequency, Math.min(maxFrequency, nyquist))
+            .map(({ low, center, high }) => {
+                const startBin = Math.min(binCount - 1, Math.max(0, Math.round(low / binWidth)));
+                // Narrow low-frequency bands can fall inside one bin; always keep at least one
+                const endBin = Math.min(binCount - 1, Math.max(startBin, Math.round(high / binWidth) - 1));
+                return { lowFrequency: low, centerFrequency: center, highFrequency: high, startBin, endBin };
+            });
+
+        if (this.values.length !== this.bands.length) {
+            this.values = new Float32Array(this.bands.length);
+            this.raw = new Float32Array(this.bands.length);
+        }
+    }
+
+    /**
+     * Aggregate one spectrum into band values.
+     * @param spectrum Magnitudes per bin (e.g. a byte spectrum from AudioAnalyser)
+     * @param sampleRate Sample rate the spectrum was computed at
+     * @param maxValue Full-scale value of the spectrum (255 for byte data)
+     * @param dt Seconds since the previous update, used by the smoothing
+     */
+    update(spectrum: ArrayLike<number>, sampleRate: number, maxValue: number = 255, dt: number = 1 / 60): Float32Array {
+        this.configure(spectrum.length, sampleRate);
+        const { aggregation, attack, release, autoGain, autoGainRelease } = this.options;
+
+        let framePeak = 0;
+        for (let b = 0; b < this.bands.length; b++) {
+            const { startBin, endBin } = this.bands[b];
+            let value = 0;
+            for (let i = startBin; i <= endBin; i++) {
+                const v = spectrum[i] / maxValue;
+                if (aggregation === 'peak') {
+                    value = Math.max(value, v);
+                } else if (aggregation === 'rms') {
+                    value += v * v;
+                } else {
+                    value += v;
+                }
+            }
+
+            const width = endBin - startBin + 1;
+            if (aggregation === 'mean') {
+                value /= width;
+            } else if (aggregation === 'rms') {
+                value = Math.sqrt(value / width);
+            }
+
+            this.raw[b] = value;
+            framePeak = Math.max(framePeak, value);
+        }
+
+        // Numerical method: Running peak with exponential decay for auto-gain
+        let gain = 1;
+        if (autoGain) {
+            const decay = autoGainRelease > 0 ? Math.exp(-dt / autoGainRelease) : 0;
+            this.runningPeak = Math.max(framePeak, this.runningPeak * decay);
+            gain = 1 / Math.max(this.runningPeak, this.MIN_AUTO_GAIN_PEAK);
+        }
+
+        // Numerical method: Asymmetric exponential smoothing (attack/release)
+        const attackCoeff = attack > 0 ? 1 - Math.exp(-dt / attack) : 1;
+        const releaseCoeff = release > 0 ? 1 - Math.exp(-dt / release) : 1;
+        for (let b = 0; b < this.bands.length; b++) {
+            const target = Math.min(1, this.raw[b] * gain);
+            const current = this.values[b];
+            const coeff = target > current ? attackCoeff : releaseCoeff;
+            this.values[b] = current + (target - current) * coeff;
+        }
+
+        return this.values;
+    }
+
+    reset() {
+        this.values.fill(0);
+        this.runningPeak = 0;
+    }
+}
@@ -0,0 +1,58 @@
+import { FFTAnalyzer } from './fft';
+import { computeChroma, detectPitchYIN } from './pitch';
+
+const SAMPLE_RATE = 44100;
+
+function sine(frequency: number, length: number = 1024): Float32Array {
+    const samples = new Float32Array(length);
+    for (let i = 0; i < length; i++) {
+        samples[i] = 0.5 * Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE);
+    }
+    return samples;
+}
+
+describe('detectPitchYIN', () => {
+    it('finds the pitch of a sine inside the measurable range', () => {
+        const pitch = detectPitchYIN(sine(440), SAMPLE_RATE);
+        expect(pitch.frequency).toBeCloseTo(440, 0);
+        expect(pitch.note).toBe('A4');
+        expect(pitch.clarity).toBeGreaterThan(0.9);
+    });
+
+    it('reports pitches below the buffer floor as unpitched', () => {
+        // Low E needs a 535-sample period; 1024 samples only allow 512
+        const pitch = detectPitchYIN(sine(82.41), SAMPLE_RATE);
+        expect(pitch.frequency).toBe(0);
+        expect(pitch.note).toBe('');
+        expect(pitch.clarity).toBe(0);
+    });
+
+    it('finds the same low pitch once the buffer is long enough', () => {
+        const pitch = detectPitchYIN(sine(82.41, 2048), SAMPLE_RATE);
+        expect(pitch.note).toBe('E2');
+    });
+
+    it('never reports negative zero cents', () => {
+        [261.5, 440, 329.5].forEach(frequency => {
+            expect(Object.is(detectPitchYIN(sine(frequency), SAMPLE_RATE).cents, -0)).toBe(false);
+        });
+    });
+});
+
+describe('computeChroma', () => {
+    it('puts an A4 sine over a noise floor on pitch class A', () => {
+        // Deterministic noise about 40 dB below the tone
+        let seed = 7;
+        const signal = sine(440, 4096).map(x => {
+            seed = (seed * 16807) % 2147483647;
+            return x + 0.005 * (seed / 2147483647 - 0.5);
+        });
+        const { magnitudes } = new FFTAnalyzer({ size: 4096, window: 'hann' }).analyze(signal);
+
+        const chroma = computeChroma(magnitudes.subarray(0, magnitudes.length - 1), SAMPLE_RATE);
+        expect(chroma[9]).toBe(1);
+        chroma.forEach((value, pitchClass) => {
+            if (pitchClass !== 9) expect(value).toBeLessThan(0.1);
+        });
+    });
+});
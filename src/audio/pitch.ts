@@ -0,0 +1,249 @@
+/**
+ * Pitch, chroma and key estimation.
+ *
+ * Numerical methods:
+ * - YIN fundamental frequency estimation: cumulative mean normalized difference
+ *   function, absolute threshold, and parabolic interpolation of the minimum
+ * - Chromagram: spectral energy folded onto the 12 pitch classes via log2 frequency mapping
+ * - Key estimation: Pearson correlation of a decaying chroma average against the
+ *   Krumhansl-Kessler major and minor key profiles, rotated to all 12 tonics
+ */
+
+export const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+export interface PitchEstimate {
+    /** Fundamental frequency in Hz, or 0 when no periodic signal was found */
+    frequency: number;
+    /** Periodicity of the signal (0-1); low values mean noise or silence */
+    clarity: number;
+    /** Fractional MIDI note number (69 = A4) */
+    midi: number;
+    /** Note name with octave, e.g. "A4"; empty when unpitched */
+    note: string;
+    /** Deviation from the nearest equal-tempered note in cents */
+    cents: number;
+}
+
+export type KeyMode = 'major' | 'minor';
+
+export interface KeyEstimate {
+    /** Pitch class of the tonic (0 = C) */
+    tonic: number;
+    mode: KeyMode;
+    /** e.g. "A minor" */
+    name: string;
+    /** Correlation of the best-matching profile (-1..1) */
+    confidence: number;
+}
+
+// Krumhansl-Kessler probe-tone profiles, indexed from the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+export const frequencyToMidi = (frequency: number) => 69 + 12 * Math.log2(frequency / 440);
+export const midiToFrequency = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
+
+export function midiToNoteName(midi: number): string {
+    const rounded = Math.round(midi);
+    const pitchClass = ((rounded % 12) + 12) % 12;
+    const octave = Math.floor(rounded / 12) - 1;
+    return `${NOTE_NAMES[pitchClass]}${octave}`;
+}
+
+const UNPITCHED: PitchEstimate = { frequency: 0, clarity: 0, midi: 0, note: '', cents: 0 };
+
+/**
+ * YIN pitch detector (de Cheveigné & Kawahara, 2002).
+ *
+ * Periods longer than half the buffer can't be measured, so the lowest detectable pitch
+ * is max(minFrequency, 2 * sampleRate / samples.length): about 86 Hz for 1024 samples
+ * at 44.1 kHz. Anything lower is reported as unpitched rather than as that floor.
+ * @param samples Float waveform in -1..1
+ * @param threshold Absolute threshold on the normalized difference (lower = stricter)
+ */
+export function detectPitchYIN(
+    samples: ArrayLike<number>,
+    sampleRate: number,
+    threshold: number = 0.15,
+    minFrequency: number = 60,
+    maxFrequency: number = 2000
+): PitchEstimate {
+    const maxTau = Math.min(Math.floor(samples.length / 2), Math.floor(sampleRate / minFrequency));
+    const minTau = Math.max(2, Math.floor(sampleRate / maxFrequency));
+    if (maxTau <= minTau) return UNPITCHED;
+    const windowSize = samples.length - maxTau;
+
+    // Step 1-2: Difference function d(tau) = sum (x[j] - x[j+tau])^2
+    const diff = new Float32Array(maxTau + 1);
+    for (let tau = 1; tau <= maxTau; tau++) {
+        let sum = 0;
+        for (let j = 0; j < windowSize; j++) {
+            const delta = samples[j] - samples[j + tau];
+            sum += delta * delta;
+        }
+        diff[tau] = sum;
+    }
+
+    // Step 3: Cumulative mean normalized difference d'(tau)
+    const cmnd = new Float32Array(maxTau + 1);
+    cmnd[0] = 1;
+    let runningSum = 0;
+    for (let tau = 1; tau <= maxTau; tau++) {
+        runningSum += diff[tau];
+        cmnd[tau] = runningSum > 0 ? (diff[tau] * tau) / runningSum : 1;
+    }
+
+    // Step 4: First dip below the threshold, followed down to its local minimum
+    let tauEstimate = -1;
+    for (let tau = minTau; tau <= maxTau; tau++) {
+        if (cmnd[tau] < threshold) {
+            while (tau + 1 <= maxTau && cmnd[tau + 1] < cmnd[tau]) {
+                tau++;
+            }
+            tauEstimate = tau;
+            break;
+        }
+    }
+    // A minimum still falling at the longest lag is a period beyond the window, not a pitch
+    if (tauEstimate < 0 || tauEstimate === maxTau) return UNPITCHED;
+
+    // Step 5: Parabolic interpolation around the minimum for sub-sample accuracy
+    let refinedTau = tauEstimate;
+    if (tauEstimate > 1 && tauEstimate < maxTau) {
+        const s0 = cmnd[tauEstimate - 1];
+        const s1 = cmnd[tauEstimate];
+        const s2 = cmnd[tauEstimate + 1];
+        const denominator = s0 - 2 * s1 + s2;
+        if (denominator !== 0) {
+            refinedTau = tauEstimate + (s0 - s2) / (2 * denominator);
+        }
+    }
+
+    const frequency = sampleRate / refinedTau;
+    const midi = frequencyToMidi(frequency);
+    // `|| 0` turns the -0 that rounding small negative offsets gives into 0
+    const cents = Math.round((midi - Math.round(midi)) * 100) || 0;
+    return {
+        frequency,
+        clarity: Math.max(0, 1 - cmnd[tauEstimate]),
+        midi,
+        note: midiToNoteName(midi),
+        cents
+    };
+}
+
+/**
+ * Fold a magnitude spectrum onto the 12 pitch classes. The result is normalized
+ * so its largest entry is 1 (all zeros for silence).
+ *
+ * The spectrum must be linear: energies of a dB or byte spectrum are compressed, so the
+ * noise floor would spread over every pitch class and flatten the chroma.
+ * @param spectrum Linear magnitudes from DC up to, not including, Nyquist
+ * @param spectrumMax Full-scale magnitude; only the relative sizes of the result depend on it
+ */
+export function computeChroma(
+    spectrum: ArrayLike<number>,
+    sampleRate: number,
+    spectrumMax: number = 1,
+    minFrequency: number = 55,
+    maxFrequency: number = 5000
+): Float32Array {
+    const chroma = new Float32Array(12);
+    const binWidth = sampleRate / 2 / spectrum.length;
+
+    const firstBin = Math.max(1, Math.ceil(minFrequency / binWidth));
+    const lastBin = Math.min(spectrum.length - 1, Math.floor(maxFrequency / binWidth));
+    for (let i = firstBin; i <= lastBin; i++) {
+        const magnitude = spectrum[i] / spectrumMax;
+        // Numerical method: Pitch class = round(12 * log2(f / C0)) mod 12
+        const midi = Math.round(frequencyToMidi(i * binWidth));
+        const pitchClass = ((midi % 12) + 12) % 12;
+        chroma[pitchClass] += magnitude * magnitude;
+    }
+
+    let max = 0;
+    for (let i = 0; i < 12; i++) max = Math.max(max, chroma[i]);
+    if (max > 0) {
+        for (let i = 0; i < 12; i++) chroma[i] /= max;
+    }
+    return chroma;
+}
+
+/**
+ * Numerical method: Pearson correlation coefficient between two 12-element vectors,
+ * with `b` rotated by `shift` pitch classes.
+ */
+function correlate(a: ArrayLike<number>, b: number[], shift: number): number {
+    let meanA = 0;
+    let meanB = 0;
+    for (let i = 0; i < 12; i++) {
+        meanA += a[i];
+        meanB += b[i];
+    }
+    meanA /= 12;
+    meanB /= 12;
+
+    let numerator = 0;
+    let varA = 0;
+    let varB = 0;
+    for (let i = 0; i < 12; i++) {
+        const da = a[i] - meanA;
+        const db = b[(i - shift + 12) % 12] - meanB;
+        numerator += da * db;
+        varA += da * da;
+        varB += db * db;
+    }
+    const denominator = Math.sqrt(varA * varB);
+    return denominator > 0 ? numerator / denominator : 0;
+}
+
+/**
+ * Running musical key estimate from successive chroma vectors.
+ */
+export class KeyEstimator {
+    private accumulated: Float32Array = new Float32Array(12);
+    private key: KeyEstimate = { tonic: 0, mode: 'major', name: '', confidence: 0 };
+    private decay: number;
+
+    /**
+     * @param decay Per-frame retention of past chroma (close to 1 = key changes slowly)
+     */
+    constructor(decay: number = 0.995) {
+        this.decay = decay;
+    }
+
+    update(chroma: ArrayLike<number>): KeyEstimate {
+        // Numerical method: Exponentially weighted moving sum of chroma vectors
+        let energy = 0;
+        for (let i = 0; i < 12; i++) {
+            this.accumulated[i] = this.accumulated[i] * this.decay + chroma[i];
+            energy += this.accumulated[i];
+        }
+        if (energy <= 0) return this.key;
+
+        let best = { tonic: 0, mode: 'major' as KeyMode, score: -Infinity };
+        for (let tonic = 0; tonic < 12; tonic++) {
+            const major = correlate(this.accumulated, MAJOR_PROFILE, tonic);
+            if (major > best.score) best = { tonic, mode: 'major', score: major };
+            const minor = correlate(this.accumulated, MINOR_PROFILE, tonic);
+            if (minor > best.score) best = { tonic, mode: 'minor', score: minor };
+        }
+
+        this.key = {
+            tonic: best.tonic,
+            mode: best.mode,
+            name: `${NOTE_NAMES[best.tonic]} ${best.mode}`,
+            confidence: best.score
+        };
+        return this.key;
+    }
+
+    getKey(): KeyEstimate {
+        return this.key;
+    }
+
+    reset() {
+        this.accumulated.fill(0);
+        this.key = { tonic: 0, mode: 'major', name: '', confidence: 0 };
+    }
+}
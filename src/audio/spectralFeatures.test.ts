@@ -0,0 +1,50 @@
+import { SpectralFeatureExtractor } from './spectralFeatures';
+
+const SAMPLE_RATE = 44100;
+const BINS = 512;
+const silence = new Float32Array(1024);
+
+describe('SpectralFeatureExtractor', () => {
+    it('reports a flat spectrum as fully flat, centred mid-band', () => {
+        const extractor = new SpectralFeatureExtractor();
+        extractor.extract(new Float32Array(BINS).fill(0.01), silence, SAMPLE_RATE);
+        const raw = extractor.getRawFeatures();
+        expect(raw.flatness).toBeCloseTo(1, 6);
+        const binWidth = SAMPLE_RATE / 2 / BINS;
+        expect(raw.centroid).toBeCloseTo(((BINS - 1) / 2) * binWidth, 3);
+    });
+
+    it('reports a single partial as tonal, at its frequency', () => {
+        const extractor = new SpectralFeatureExtractor();
+        const magnitudes = new Float32Array(BINS);
+        magnitudes[100] = 0.3;
+        extractor.extract(magnitudes, silence, SAMPLE_RATE);
+        const raw = extractor.getRawFeatures();
+        expect(raw.flatness).toBeLessThan(1e-6);
+        expect(raw.centroid).toBeCloseTo(100 * (SAMPLE_RATE / 2 / BINS), 3);
+        expect(raw.spread).toBeCloseTo(0, 6);
+    });
+
+    it('weights the centroid by linear amplitude', () => {
+        const extractor = new SpectralFeatureExtractor();
+        const magnitudes = new Float32Array(BINS);
+        // -20 dB partial at bin 300 pulls the centroid a tenth of the way towards it
+        magnitudes[100] = 1;
+        magnitudes[300] = 0.1;
+        extractor.extract(magnitudes, silence, SAMPLE_RATE);
+        const binWidth = SAMPLE_RATE / 2 / BINS;
+        expect(extractor.getRawFeatures().centroid).toBeCloseTo(((100 + 30) / 1.1) * binWidth, 3);
+    });
+
+    it('measures flux as the rise in amplitude since the previous frame', () => {
+        const extractor = new SpectralFeatureExtractor();
+        const magnitudes = new Float32Array(BINS);
+        extractor.extract(magnitudes, silence, SAMPLE_RATE);
+        magnitudes[10] = 0.5;
+        extractor.extract(magnitudes, silence, SAMPLE_RATE);
+        expect(extractor.getRawFeatures().flux).toBeCloseTo(0.5 / BINS, 8);
+        magnitudes[10] = 0;
+        extractor.extract(magnitudes, silence, SAMPLE_RATE);
+        expect(extractor.getRawFeatures().flux).toBe(0);
+    });
+});
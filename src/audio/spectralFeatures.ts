@@ -0,0 +1,231 @@
+/**
+ * Per-frame descriptors of timbre and loudness, for driving visual parameters
+ * from what the sound is like rather than only how loud it is.
+ *
+ * Spectral features are computed from linear magnitudes, as their standard definitions
+ * assume; a decibel or byte spectrum would skew the weights and make flatness meaningless.
+ *
+ * Numerical methods:
+ * - Spectral moments: centroid (1st) and spread (2nd central moment) of the magnitude distribution
+ * - Spectral rolloff: frequency below which a fixed fraction of spectral energy lies (cumulative sum)
+ * - Spectral flatness: ratio of geometric to arithmetic mean (Wiener entropy)
+ * - Spectral flux: half-wave rectified frame-to-frame difference
+ * - Time-domain RMS, peak, zero-crossing rate and crest factor
+ * - Exponential smoothing of the normalized features
+ */
+
+export interface SpectralFeatures {
+    /** Brightness: amplitude-weighted mean frequency */
+    centroid: number;
+    /** Bandwidth around the centroid */
+    spread: number;
+    /** Amount of spectral change since the previous frame */
+    flux: number;
+    /** Frequency below which 85% of the spectral energy lies */
+    rolloff: number;
+    /** 0 for a pure tone, approaching 1 for white noise */
+    flatness: number;
+    rms: number;
+    peak: number;
+    /** Zero crossings per sample */
+    zcr: number;
+    /** Peak-to-RMS ratio; high for transient, percussive material */
+    crest: number;
+}
+
+export type SpectralFeatureName = keyof SpectralFeatures;
+
+export const SPECTRAL_FEATURE_NAMES: SpectralFeatureName[] = [
+    'centroid', 'spread', 'flux', 'rolloff', 'flatness', 'rms', 'peak', 'zcr', 'crest'
+];
+
+export interface SpectralFeatureOptions {
+    /** Smoothing factor per frame (0 = none, close to 1 = very slow) */
+    smoothing?: number;
+    /** Energy fraction used for the rolloff frequency */
+    rolloffPercent?: number;
+}
+
+const createEmptyFeatures = (): SpectralFeatures => ({
+    centroid: 0, spread: 0, flux: 0, rolloff: 0, flatness: 0, rms: 0, peak: 0, zcr: 0, crest: 0
+});
+
+export class SpectralFeatureExtractor {
+    private smoothing: number;
+    private rolloffPercent: number;
+    private raw: SpectralFeatures = createEmptyFeatures();
+    private features: SpectralFeatures = createEmptyFeatures();
+    private previousSpectrum: Float32Array | null = null;
+    // Running maximum used to normalize flux, which has no natural upper bound
+    private fluxPeak: number = 0;
+
+    private readonly MIN_FREQUENCY = 20;
+    private readonly EPSILON = 1e-6;
+    private readonly MAGNITUDE_FLOOR = 1e-12; // Keeps log() finite for empty bins without biasing quiet ones
+    private readonly FLUX_PEAK_DECAY = 0.995;
+    private readonly MAX_CREST_DB = 24;
+
+    constructor(options: SpectralFeatureOptions = {}) {
+        this.smoothing = options.smoothing !== undefined ? options.smoothing : 0.8;
+        this.rolloffPercent = options.rolloffPercent !== undefined ? options.rolloffPercent : 0.85;
+    }
+
+    setSmoothing(smoothing: number) {
+        this.smoothing = Math.max(0, Math.min(0.99, smoothing));
+    }
+
+    getSmoothing(): number {
+        return this.smoothing;
+    }
+
+    /**
+     * Normalized (0-1), smoothed features from the last extract().
+     */
+    getFeatures(): SpectralFeatures {
+        return this.features;
+    }
+
+    /**
+     * Unnormalized, unsmoothed features in physical units (Hz for frequencies,
+     * linear ratios otherwise) from the last extract().
+     */
+    getRawFeatures(): SpectralFeatures {
+        return this.raw;
+    }
+
+    /**
+     * @param magnitudes Linear amplitude spectrum (DC up to, not including, Nyquist); any scale
+     * @param timeDomain Waveform samples; bytes centred on 128 or floats in -1..1
+     * @param sampleRate Sample rate of the analysed signal
+     */
+    extract(magnitudes: ArrayLike<number>, timeDomain: ArrayLike<number>, sampleRate: number): SpectralFeatures {
+        const nyquist = sampleRate / 2;
+        const isByteWaveform = timeDomain instanceof Uint8Array;
+
+        this.computeSpectralFeatures(magnitudes, nyquist);
+        this.computeTemporalFeatures(timeDomain, isByteWaveform);
+
+        // Frequencies are normalized on a log axis so low-register changes stay visible
+        const logRange = Math.log(nyquist / this.MIN_FREQUENCY);
+        const normalizeFrequency = (hz: number) =>
+            hz <= this.MIN_FREQUENCY ? 0 : Math.min(1, Math.log(hz / this.MIN_FREQUENCY) / logRange);
+
+        this.fluxPeak = Math.max(this.raw.flux, this.fluxPeak * this.FLUX_PEAK_DECAY);
+        const crestDb = 20 * Math.log10(Math.max(1, this.raw.crest));
+
+        const normalized: SpectralFeatures = {
+            centroid: normalizeFrequency(this.raw.centroid),
+            spread: Math.min(1, this.raw.spread / (nyquist / 2)),
+            flux: this.fluxPeak > this.MAGNITUDE_FLOOR ? this.raw.flux / this.fluxPeak : 0,
+            rolloff: normalizeFrequency(this.raw.rolloff),
+            flatness: this.raw.flatness,
+            rms: Math.min(1, this.raw.rms),
+            peak: Math.min(1, this.raw.peak),
+            // A zero-crossing rate of 0.5 already means energy near Nyquist
+            zcr: Math.min(1, this.raw.zcr * 2),
+            crest: Math.min(1, crestDb / this.MAX_CREST_DB)
+        };
+
+        // Numerical method: Exponential smoothing y[n] = a*y[n-1] + (1-a)*x[n]
+        const a = this.smoothing;
+        SPECTRAL_FEATURE_NAMES.forEach(name => {
+            this.features[name] = a * this.features[name] + (1 - a) * normalized[name];
+        });
+
+        return this.features;
+    }
+
+    private computeSpectralFeatures(magnitudes: ArrayLike<number>, nyquist: number) {
+        const n = magnitudes.length;
+        if (n === 0) return;
+        const binWidth = nyquist / n;
+
+        if (!this.previousSpectrum || this.previousSpectrum.length !== n) {
+            this.previousSpectrum = new Float32Array(n);
+        }
+
+        let sum = 0;
+        let weightedSum = 0;
+        let logSum = 0;
+        let flux = 0;
+        for (let i = 0; i < n; i++) {
+            const m = Math.max(0, magnitudes[i]);
+            sum += m;
+            weightedSum += m * i * binWidth;
+            logSum += Math.log(Math.max(m, this.MAGNITUDE_FLOOR));
+
+            const diff = m - this.previousSpectrum[i];
+            if (diff > 0) flux += diff;
+            this.previousSpectrum[i] = m;
+        }
+
+        if (sum <= 0) {
+            this.raw.centroid = 0;
+            this.raw.spread = 0;
+            this.raw.rolloff = 0;
+            this.raw.flatness = 0;
+            this.raw.flux = flux / n;
+            return;
+        }
+
+        const centroid = weightedSum / sum;
+
+        let variance = 0;
+        let cumulative = 0;
+        let rolloff = nyquist;
+        let rolloffFound = false;
+        for (let i = 0; i < n; i++) {
+            const m = Math.max(0, magnitudes[i]);
+            const f = i * binWidth;
+            variance += m * (f - centroid) * (f - centroid);
+
+            cumulative += m;
+            if (!rolloffFound && cumulative >= this.rolloffPercent * sum) {
+                rolloff = f;
+                rolloffFound = true;
+            }
+        }
+
+        // Numerical method: Geometric mean via the mean of logarithms (avoids underflow)
+        const geometricMean = Math.exp(logSum / n);
+        const arithmeticMean = sum / n;
+
+        this.raw.centroid = centroid;
+        this.raw.spread = Math.sqrt(variance / sum);
+        this.raw.rolloff = rolloff;
+        this.raw.flatness = Math.min(1, geometricMean / arithmeticMean);
+        this.raw.flux = flux / n;
+    }
+
+    private computeTemporalFeatures(timeDomain: ArrayLike<number>, isByteWaveform: boolean) {
+        const n = timeDomain.length;
+        if (n === 0) return;
+
+        let sumSquares = 0;
+        let peak = 0;
+        let crossings = 0;
+        let previous = 0;
+        for (let i = 0; i < n; i++) {
+            const x = isByteWaveform ? (timeDomain[i] - 128) / 128 : timeDomain[i];
+            sumSquares += x * x;
+            peak = Math.max(peak, Math.abs(x));
+            if (i > 0 && ((x >= 0 && previous < 0) || (x < 0 && previous >= 0))) {
+                crossings++;
+            }
+            previous = x;
+        }
+
+        const rms = Math.sqrt(sumSquares / n);
+        this.raw.rms = rms;
+        this.raw.peak = peak;
+        this.raw.zcr = n > 1 ? crossings / (n - 1) : 0;
+        this.raw.crest = rms > this.EPSILON ? peak / rms : 1;
+    }
+
+    reset() {
+        this.raw = createEmptyFeatures();
+        this.features = createEmptyFeatures();
+        this.previousSpectrum = null;
+        this.fluxPeak = 0;
+    }
+}
@@ -0,0 +1,59 @@
+import { StereoAnalyser, computePan } from './stereo';
+
+/**
+ * Just enough of an AudioContext to build the analyser; process() runs on buffers we fill.
+ */
+function createContext(): BaseAudioContext {
+    const node = () => ({ connect: () => undefined, fftSize: 0, smoothingTimeConstant: 0 });
+    return { createChannelSplitter: node, createAnalyser: node } as unknown as BaseAudioContext;
+}
+
+function fill(analyser: StereoAnalyser, left: (i: number) => number, right: (i: number) => number) {
+    const frame = analyser.getFrame();
+    for (let i = 0; i < frame.left.length; i++) {
+        frame.left[i] = left(i);
+        frame.right[i] = right(i);
+    }
+    analyser.process();
+    return frame;
+}
+
+const tone = (i: number) => 0.5 * Math.sin(i * 0.1);
+const silent = () => 0;
+
+describe('StereoAnalyser', () => {
+    it('keeps a stereo source panned hard left as stereo', () => {
+        const analyser = new StereoAnalyser(createContext(), 256);
+        analyser.setSmoothing(0);
+        analyser.setChannelCount(2);
+        const frame = fill(analyser, tone, silent);
+        expect(frame.isStereo).toBe(true);
+        expect(frame.balance).toBe(-1);
+        expect(frame.right[10]).toBe(0);
+    });
+
+    it('mirrors the left channel of a mono source', () => {
+        const analyser = new StereoAnalyser(createContext(), 256);
+        analyser.setSmoothing(0);
+        analyser.setChannelCount(1);
+        const frame = fill(analyser, tone, silent);
+        expect(frame.isStereo).toBe(false);
+        expect(frame.balance).toBe(0);
+        expect(frame.correlation).toBeCloseTo(1, 6);
+        expect(frame.right[10]).toBe(frame.left[10]);
+    });
+
+    it('reads inverted channels as negatively correlated', () => {
+        const analyser = new StereoAnalyser(createContext(), 256);
+        analyser.setSmoothing(0);
+        analyser.setChannelCount(2);
+        expect(fill(analyser, tone, i => -tone(i)).correlation).toBeCloseTo(-1, 6);
+    });
+});
+
+describe('computePan', () => {
+    it('pans each entry from its left and right levels', () => {
+        const pan = computePan([1, 0, 0.5, 0], [0, 1, 0.5, 0]);
+        expect(Array.from(pan)).toEqual([-1, 1, 0, 0]);
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * Per-channel analysis of a stereo signal.
+ *
+ * The input is split into left and right with a ChannelSplitterNode, each feeding its own
+ * AnalyserNode, so visualizers get both waveforms (for XY scopes) and both spectra (for
+ * stereo-panned effects) alongside the mixed analysis in AudioAnalyser.
+ *
+ * Numerical methods:
+ * - Phase correlation: normalized cross-correlation at lag zero, Σ(L·R) / √(ΣL² · ΣR²),
+ *   +1 for mono, 0 for unrelated channels, -1 for polarity-inverted channels
+ * - Balance and per-bin pan from channel energies: (R - L) / (R + L)
+ * - Exponential smoothing of the correlation for a readable meter
+ *
+ * Mono inputs leave the right output of the splitter silent, so the left channel is mirrored
+ * for them and downstream code never has to special-case mono. Whether an input is mono comes
+ * from its channel count (see setChannelCount()), not from the signal: a stereo source panned
+ * hard left also has a silent right channel.
+ */
+
+export interface StereoFrame {
+    /** False when the input has a single channel (right mirrors left) */
+    isStereo: boolean;
+    /** Float waveforms in -1..1 */
+    left: Float32Array;
+    right: Float32Array;
+    /** Byte spectra (0-255 per bin), same layout as AudioFrame.frequencyData with the native engine */
+    leftFrequencyData: Uint8Array;
+    rightFrequencyData: Uint8Array;
+    /** Smoothed phase correlation, -1..1 */
+    correlation: number;
+    /** Energy balance, -1 (hard left) to 1 (hard right) */
+    balance: number;
+}
+
+export class StereoAnalyser {
+    private splitter: ChannelSplitterNode;
+    private leftAnalyser: AnalyserNode;
+    private rightAnalyser: AnalyserNode;
+    private sources: AudioNode[] = [];
+    private frame: StereoFrame;
+    private smoothing: number = 0.9;
+    // Channels of the connected input; null when the source doesn't report it
+    private channelCount: number | null = null;
+
+    private readonly SILENCE = 1e-8;  // Sum of squares below which a channel counts as silent
+
+    constructor(context: BaseAudioContext, fftSize: number = 1024) {
+        this.splitter = context.createChannelSplitter(2);
+        this.leftAnalyser = context.createAnalyser();
+        this.rightAnalyser = context.createAnalyser();
+        [this.leftAnalyser, this.rightAnalyser].forEach(analyser => {
+            analyser.fftSize = fftSize;
+            analyser.smoothingTimeConstant = 0.8;
+        });
+        this.splitter.connect(this.leftAnalyser, 0);
+        this.splitter.connect(this.rightAnalyser, 1);
+
+        this.frame = {
+            isStereo: false,
+            left: new Float32Array(fftSize),
+            right: new Float32Array(fftSize),
+            leftFrequencyData: new Uint8Array(fftSize / 2),
+            rightFrequencyData: new Uint8Array(fftSize / 2),
+            correlation: 1,
+            balance: 0
+        };
+    }
+
+    /**
+     * Add an input. Several inputs are summed, as with AudioNode.connect.
+     */
+    connect(source: AudioNode) {
+        if (this.sources.indexOf(source) !== -1) return;
+        source.connect(this.splitter);
+        this.sources.push(source);
+    }
+
+    /**
+     * Remove one input, or every input when called without arguments.
+     */
+    disconnect(source?: AudioNode) {
+        const targets = source ? this.sources.filter(s => s === source) : this.sources.slice();
+        targets.forEach(s => {
+            try {
+                s.disconnect(this.splitter);
+            } catch (e) {
+                // The source was already disconnected elsewhere
+            }
+        });
+        this.sources = this.sources.filter(s => targets.indexOf(s) === -1);
+    }
+
+    /**
+     * Channel count of the input, e.g. from MediaStreamTrack.getSettings() or
+     * AudioBuffer.numberOfChannels. Pass null when it isn't known; the input then counts as
+     * mono only while the right channel is silent and the left isn't.
+     */
+    setChannelCount(channelCount: number | null) {
+        this.channelCount = channelCount;
+    }
+
+    /**
+     * Smoothing factor per frame for the correlation meter (0 = none).
+     */
+    setSmoothing(smoothing: number) {
+        this.smoothing = Math.max(0, Math.min(0.99, smoothing));
+    }
+
+    /**
+     * Capture both channels. Call once per animation frame.
+     */
+    update() {
+        const frame = this.frame;
+        this.leftAnalyser.getFloatTimeDomainData(frame.left);
+        this.rightAnalyser.getFloatTimeDomainData(frame.right);
+        this.leftAnalyser.getByteFrequencyData(frame.leftFrequencyData);
+        this.rightAnalyser.getByteFrequencyData(frame.rightFrequencyData);
+        this.process();
+    }
+
+    /**
+     * Derive correlation and balance from the captured buffers. Separate from update() so it
+     * can run on buffers filled by other means.
+     */
+    process() {
+        const frame = this.frame;
+        const left = frame.left;
+        const right = frame.right;
+
+        let ll = 0;
+        let rr = 0;
+        let lr = 0;
+        for (let i = 0; i < left.length; i++) {
+            ll += left[i] * left[i];
+            rr += right[i] * right[i];
+            lr += left[i] * right[i];
+        }
+
+        frame.isStereo = this.channelCount !== null ? this.channelCount >= 2 : rr > this.SILENCE || ll <= this.SILENCE;
+        if (!frame.isStereo) {
+            right.set(left);
+            frame.rightFrequencyData.set(frame.leftFrequencyData);
+            rr = ll;
+            lr = ll;
+        }
+
+        // Numerical method: Normalized cross-correlation at lag zero; silence reads as mono
+        const denominator = Math.sqrt(ll * rr);
+        const correlation = denominator > this.SILENCE ? lr / denominator : 1;
+        // Numerical method: Exponential smoothing
+        frame.correlation = this.smoothing * frame.correlation + (1 - this.smoothing) * correlation;
+        frame.balance = ll + rr > this.SILENCE ? (rr - ll) / (rr + ll) : 0;
+    }
+
+    getFrame(): StereoFrame {
+        return this.frame;
+    }
+}
+
+/**
+ * Pan position of each band or bin from its left and right levels, -1 (left) to 1 (right).
+ * Silent entries are centred.
+ */
+export function computePan(left: ArrayLike<number>, right: ArrayLike<number>, out?: Float32Array): Float32Array {
+    const n = Math.min(left.length, right.length);
+    const pan = out && out.length === n ? out : new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+        const sum = left[i] + right[i];
+        pan[i] = sum > 0 ? (right[i] - left[i]) / sum : 0;
+    }
+    return pan;
+}
@@ -0,0 +1,268 @@
+import * as THREE from 'three';
+import { AudioFrame } from './audio/audioFrame';
+import { AUDIO_SOURCES, AUDIO_SOURCE_LABELS, AudioSource, readAudioSource } from './audio/audioSources';
+import { PerlinNoise } from './physics/perlinNoise';
+import { ParameterDefinition, ParameterValue } from './visualizer';
+
+export interface Viewpoint {
+    position: THREE.Vector3;
+    target: THREE.Vector3;
+}
+
+/**
+ * Audio-driven camera moves for the 3D renderer, layered on top of OrbitControls.
+ *
+ * The camera has a base pose owned by the controls (and so by the user's mouse), which
+ * two behaviours move persistently: auto-orbit turns it around the orbit target, and
+ * phrase cuts jump or glide it to another viewpoint. The remaining behaviours (beat
+ * bounce, beat dolly, transient shake) are offsets added just for rendering with
+ * apply() and taken off again with restore(), so the controls never see them and manual
+ * orbiting blends with everything without drift.
+ *
+ * Phrase boundaries are counted in detected beats. Cuts go to the viewpoints saved by
+ * the user, or, with none saved, to the scene's own viewpoint seen from the four sides.
+ */
+export class CameraChoreographer {
+    static readonly PARAMETERS: ParameterDefinition[] = [
+        { key: 'autoOrbit', label: 'Auto-Orbit', type: 'number', min: -60, max: 60, step: 1, unit: '°/s', default: 0, group: 'Camera' },
+        {
+            key: 'orbitSource', label: 'Orbit Driver', type: 'select', default: 'none', group: 'Camera',
+            options: AUDIO_SOURCES.map(source => ({ value: source, label: AUDIO_SOURCE_LABELS[source] }))
+        },
+        { key: 'beatBounce', label: 'Beat Bounce', type: 'number', min: 0, max: 10, step: 0.5, default: 5, group: 'Camera' },
+        { key: 'beatDolly', label: 'Beat Dolly', type: 'number', min: 0, max: 0.5, step: 0.01, default: 0, group: 'Camera' },
+        { key: 'shake', label: 'Transient Shake', type: 'number', min: 0, max: 3, step: 0.05, default: 0, group: 'Camera' },
+        { key: 'phraseCuts', label: 'Cut on Phrases', type: 'boolean', default: false, group: 'Camera' },
+        { key: 'phraseBeats', label: 'Phrase Length', type: 'number', min: 4, max: 64, step: 4, unit: ' beats', default: 16, group: 'Camera' },
+        { key: 'cutGlide', label: 'Cut Glide', type: 'number', min: 0, max: 4, step: 0.1, unit: 's', default: 0, group: 'Camera' },
+        { key: 'viewpoints', label: 'Saved Viewpoints', type: 'string', default: '', group: 'Camera', hidden: true }
+    ];
+
+    private orbitSpeed: number = 0;  // Degrees per second
+    private orbitSource: AudioSource = 'none';
+    private bounceAmount: number = 5;
+    private dollyAmount: number = 0;  // Fraction of the distance to the target
+    private shakeAmount: number = 0;
+    private phraseCuts: boolean = false;
+    private phraseBeats: number = 16;
+    private glideTime: number = 0;
+
+    private viewpoints: Viewpoint[] = [];
+    private sceneViewpoint: Viewpoint | null = null;
+    private viewpointIndex: number = 0;
+    private beatCount: number = 0;
+
+    // Glide in progress between two viewpoints
+    private glideFrom: Viewpoint | null = null;
+    private glideTo: Viewpoint | null = null;
+    private glideProgress: number = 0;
+
+    // Render-only offsets for the current frame
+    private pulse: number = 0;
+    private shakeEnvelope: number = 0;
+    private fluxMean: number = 0;
+    private time: number = 0;
+    private noise: PerlinNoise = new PerlinNoise(7);
+    private basePosition: THREE.Vector3 = new THREE.Vector3();
+    private scratch: THREE.Vector3 = new THREE.Vector3();
+    private applied: boolean = false;
+
+    private readonly SHAKE_DECAY = 0.15;       // Seconds for the shake to fall to 1/e
+    private readonly SHAKE_FREQUENCY = 9;      // Noise lattice cells per second
+    private readonly TRANSIENT_THRESHOLD = 0.08;  // Flux rise over its running mean that counts as a transient
+    private readonly FLUX_SMOOTHING = 0.5;     // Seconds
+
+    public getParameter(key: string): ParameterValue | undefined {
+        switch (key) {
+            case 'autoOrbit': return this.orbitSpeed;
+            case 'orbitSource': return this.orbitSource;
+            case 'beatBounce': return this.bounceAmount;
+            case 'beatDolly': return this.dollyAmount;
+            case 'shake': return this.shakeAmount;
+            case 'phraseCuts': return this.phraseCuts;
+            case 'phraseBeats': return this.phraseBeats;
+            case 'cutGlide': return this.glideTime;
+            case 'viewpoints': return this.serializeViewpoints();
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns false for keys that are not camera parameters.
+     */
+    public setParameter(key: string, value: ParameterValue): boolean {
+        switch (key) {
+            case 'autoOrbit': this.orbitSpeed = Number(value); break;
+            case 'orbitSource': this.orbitSource = value as AudioSource; break;
+            case 'beatBounce': this.bounceAmount = Math.max(0, Number(value)); break;
+            case 'beatDolly': this.dollyAmount = Math.max(0, Math.min(0.9, Number(value))); break;
+            case 'shake': this.shakeAmount = Math.max(0, Number(value)); break;
+            case 'phraseCuts':
+                this.phraseCuts = Boolean(value);
+                this.beatCount = 0;
+                break;
+            case 'phraseBeats': this.phraseBeats = Math.max(1, Math.round(Number(value))); break;
+            case 'cutGlide': this.glideTime = Math.max(0, Number(value)); break;
+            case 'viewpoints': this.parseViewpoints(String(value)); break;
+            default: return false;
+        }
+        return true;
+    }
+
+    /**
+     * The viewpoint of the current scene, used for cuts while nothing is saved.
+     */
+    public setSceneViewpoint(viewpoint: Viewpoint) {
+        this.sceneViewpoint = viewpoint;
+        this.glideFrom = null;
+        this.glideTo = null;
+        this.viewpointIndex = 0;
+    }
+
+    /**
+     * Remember the camera's current pose as a cut destination.
+     */
+    public saveViewpoint(camera: THREE.Camera, target: THREE.Vector3) {
+        this.viewpoints.push({ position: camera.position.clone(), target: target.clone() });
+    }
+
+    public clearViewpoints() {
+        this.viewpoints = [];
+        this.viewpointIndex = 0;
+    }
+
+    public getViewpointCount(): number {
+        return this.viewpoints.length;
+    }
+
+    /**
+     * Advance the behaviours by one frame and move the base pose (auto-orbit, cuts).
+     * Must be called with the camera at its base pose, i.e. not between apply() and restore().
+     */
+    public update(frame: AudioFrame, camera: THREE.Camera, target: THREE.Vector3) {
+        const dt = Math.min(frame.dt, 0.1);
+        this.time += dt;
+        this.pulse = frame.beat.pulse;
+
+        // Numerical method: Transients are flux rising above its exponential moving average;
+        // the shake envelope jumps to the size of the rise and decays exponentially
+        const flux = frame.features.flux;
+        const rise = flux - this.fluxMean;
+        this.fluxMean += (flux - this.fluxMean) * (1 - Math.exp(-dt / this.FLUX_SMOOTHING));
+        this.shakeEnvelope *= Math.exp(-dt / this.SHAKE_DECAY);
+        if (rise > this.TRANSIENT_THRESHOLD) {
+            this.shakeEnvelope = Math.max(this.shakeEnvelope, Math.min(1, rise * 4));
+        }
+
+        if (this.orbitSpeed !== 0) {
+            const angle = this.orbitSpeed * Math.PI / 180 * readAudioSource(frame, this.orbitSource) * dt;
+            this.scratch.subVectors(camera.position, target).applyAxisAngle(THREE.Object3D.DEFAULT_UP, angle);
+            camera.position.addVectors(target, this.scratch);
+        }
+
+        if (frame.beat.isBeat && this.phraseCuts) {
+            this.beatCount++;
+            if (this.beatCount >= this.phraseBeats) {
+                this.beatCount = 0;
+                this.cut(camera, target);
+            }
+        }
+
+        if (this.glideFrom && this.glideTo) {
+            this.glideProgress = Math.min(1, this.glideProgress + dt / this.glideTime);
+            // Smoothstep easing so the glide starts and lands gently
+            const t = this.glideProgress * this.glideProgress * (3 - 2 * this.glideProgress);
+            camera.position.lerpVectors(this.glideFrom.position, this.glideTo.position, t);
+            target.lerpVectors(this.glideFrom.target, this.glideTo.target, t);
+            if (this.glideProgress >= 1) {
+                this.glideFrom = null;
+                this.glideTo = null;
+            }
+        }
+    }
+
+    /**
+     * Add this frame's bounce, dolly and shake to the camera for rendering.
+     */
+    public apply(camera: THREE.Camera, target: THREE.Vector3) {
+        this.basePosition.copy(camera.position);
+        this.applied = true;
+
+        // Dolly towards the target on the beat
+        if (this.dollyAmount > 0) {
+            this.scratch.subVectors(target, camera.position);
+            camera.position.addScaledVector(this.scratch, this.dollyAmount * this.pulse);
+        }
+
+        camera.position.y += this.bounceAmount * this.pulse;
+
+        // Shake sideways and vertically in the camera's own frame
+        if (this.shakeAmount > 0 && this.shakeEnvelope > 0.001) {
+            const t = this.time * this.SHAKE_FREQUENCY;
+            const size = this.shakeAmount * this.shakeEnvelope;
+            camera.updateMatrixWorld();
+            this.scratch.setFromMatrixColumn(camera.matrixWorld, 0);
+            camera.position.addScaledVector(this.scratch, this.noise.noise3(t, 0.5, 0.5) * size);
+            this.scratch.setFromMatrixColumn(camera.matrixWorld, 1);
+            camera.position.addScaledVector(this.scratch, this.noise.noise3(t, 10.5, 0.5) * size);
+        }
+    }
+
+    /**
+     * Put the camera back at its base pose after rendering.
+     */
+    public restore(camera: THREE.Camera) {
+        if (!this.applied) return;
+        camera.position.copy(this.basePosition);
+        this.applied = false;
+    }
+
+    /**
+     * Move to the next viewpoint, gliding if a glide time is set.
+     */
+    private cut(camera: THREE.Camera, target: THREE.Vector3) {
+        const pool = this.getCutViewpoints();
+        if (pool.length === 0) return;
+        this.viewpointIndex = (this.viewpointIndex + 1) % pool.length;
+        const next = pool[this.viewpointIndex];
+
+        if (this.glideTime > 0) {
+            this.glideFrom = { position: camera.position.clone(), target: target.clone() };
+            this.glideTo = next;
+            this.glideProgress = 0;
+        } else {
+            camera.position.copy(next.position);
+            target.copy(next.target);
+        }
+    }
+
+    private getCutViewpoints(): Viewpoint[] {
+        if (this.viewpoints.length > 0 || !this.sceneViewpoint) return this.viewpoints;
+
+        // The scene's viewpoint turned a quarter at a time around its target
+        const base = this.sceneViewpoint;
+        const pool: Viewpoint[] = [];
+        for (let i = 0; i < 4; i++) {
+            const offset = base.position.clone().sub(base.target).applyAxisAngle(THREE.Object3D.DEFAULT_UP, i * Math.PI / 2);
+            pool.push({ position: offset.add(base.target), target: base.target.clone() });
+        }
+        return pool;
+    }
+
+    private serializeViewpoints(): string {
+        const format = (v: THREE.Vector3) => `${v.x.toFixed(2)},${v.y.toFixed(2)},${v.z.toFixed(2)}`;
+        return this.viewpoints.map(v => `${format(v.position)}>${format(v.target)}`).join(';');
+    }
+
+    private parseViewpoints(value: string) {
+        const parse = (text: string) => {
+            const [x, y, z] = text.split(',').map(parseFloat);
+            return new THREE.Vector3(isFinite(x) ? x : 0, isFinite(y) ? y : 0, isFinite(z) ? z : 0);
+        };
+        this.viewpoints = value.split(';').filter(s => s.indexOf('>') !== -1).map(pair => {
+            const [position, target] = pair.split('>');
+            return { position: parse(position), target: parse(target) };
+        });
+        this.viewpointIndex = 0;
+    }
+}
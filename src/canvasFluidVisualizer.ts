@@ -0,0 +1,243 @@
+import { AudioFrame } from './audio/audioFrame';
+import { FrequencyBandAnalyzer, FrequencyBandOptions } from './audio/frequencyBands';
+import { FluidSimulation } from './fluidSimulation';
+import { ParameterDefinition, ParameterValue, Visualizer, createVisualizerCanvas } from './visualizer';
+
+/**
+ * Audio-reactive 2D fluid. Each frequency band owns an emitter on a ring around the
+ * screen centre that injects momentum and colored dye in proportion to the band's energy;
+ * beats add a radial burst from the centre.
+ */
+export class CanvasFluidVisualizer implements Visualizer {
+    static readonly PARAMETERS: ParameterDefinition[] = [
+        { key: 'viscosity', label: 'Viscosity', type: 'number', min: 1e-7, max: 1e-2, scale: 'log', default: 0.0001, group: 'Fluid' },
+        { key: 'forceScale', label: 'Force Scale', type: 'number', min: 0, max: 5, step: 0.1, default: 1, group: 'Fluid' },
+        { key: 'vorticity', label: 'Vorticity', type: 'number', min: 0, max: 50, step: 1, default: 10, group: 'Fluid' },
+        { key: 'resolution', label: 'Resolution', type: 'number', min: 32, max: 192, step: 16, default: 96, group: 'Fluid' }
+    ];
+
+    private canvas!: HTMLCanvasElement;
+    private ctx!: CanvasRenderingContext2D;
+    private bandAnalyzer: FrequencyBandAnalyzer;
+    private simulation: FluidSimulation;
+    // The grid is rendered at simulation resolution, then scaled up with smoothing
+    private gridCanvas: HTMLCanvasElement;
+    private gridCtx: CanvasRenderingContext2D;
+    private imageData: ImageData;
+    private elapsed: number = 0;
+    private pendingBurst: number = 0;
+
+    private resolution: number = 96;
+    private forceScale: number = 1.0;
+    private readonly NUM_EMITTERS = 8;
+    private readonly EMITTER_RADIUS = 0.3;  // Fraction of the shorter screen side
+    private readonly MAX_FORCE = 3.0;       // Velocity injected by a band at full intensity, domain units/s
+    private readonly DYE_AMOUNT = 0.6;
+    private readonly MAX_DT = 1 / 30;       // Clamp so a stalled tab doesn't blow up one step
+
+    constructor() {
+        this.bandAnalyzer = new FrequencyBandAnalyzer({
+            layout: 'logarithmic',
+            bandCount: this.NUM_EMITTERS,
+            minFrequency: 30,
+            maxFrequency: 6000,
+            aggregation: 'rms'
+        });
+
+        this.gridCanvas = document.createElement('canvas');
+        this.gridCtx = this.gridCanvas.getContext('2d')!;
+        // Placeholders; resize() sizes everything to the container
+        this.simulation = new FluidSimulation(1, 1);
+        this.imageData = this.gridCtx.createImageData(1, 1);
+    }
+
+    public init(container: HTMLElement) {
+        this.canvas = createVisualizerCanvas(container);
+        this.ctx = this.canvas.getContext('2d')!;
+    }
+
+    public resize(width: number, height: number) {
+        this.canvas.width = width;
+        this.canvas.height = height;
+        this.createSimulation();
+    }
+
+    public dispose() {
+        this.canvas.remove();
+        // Drop the grids so the (potentially large) field arrays can be collected
+        this.simulation = new FluidSimulation(1, 1);
+        this.imageData = this.gridCtx.createImageData(1, 1);
+    }
+
+    public getParameterSchema(): ParameterDefinition[] {
+        return CanvasFluidVisualizer.PARAMETERS;
+    }
+
+    public getParameter(key: string): ParameterValue | undefined {
+        switch (key) {
+            case 'viscosity': return this.getViscosity();
+            case 'forceScale': return this.getForceScale();
+            case 'vorticity': return this.getVorticity();
+            case 'resolution': return this.getResolution();
+        }
+        return undefined;
+    }
+
+    public setParameter(key: string, value: ParameterValue) {
+        switch (key) {
+            case 'viscosity': this.setViscosity(Number(value)); break;
+            case 'forceScale': this.setForceScale(Number(value)); break;
+            case 'vorticity': this.setVorticity(Number(value)); break;
+            case 'resolution': this.setResolution(Number(value)); break;
+        }
+    }
+
+    /**
+     * (Re)create the grid so its cells stay square for the current aspect ratio.
+     */
+    private createSimulation() {
+        const aspect = this.canvas.height / Math.max(1, this.canvas.width);
+        const nx = this.resolution;
+        const ny = Math.max(8, Math.round(this.resolution * aspect));
+
+        const previous = this.simulation;
+        this.simulation = new FluidSimulation(nx, ny);
+        this.simulation.setViscosity(previous.getViscosity());
+        this.simulation.setVorticity(previous.getVorticity());
+
+        this.gridCanvas.width = nx;
+        this.gridCanvas.height = ny;
+        this.imageData = this.gridCtx.createImageData(nx, ny);
+    }
+
+    public setViscosity(viscosity: number) {
+        this.simulation.setViscosity(viscosity);
+    }
+
+    public getViscosity(): number {
+        return this.simulation.getViscosity();
+    }
+
+    public setVorticity(strength: number) {
+        this.simulation.setVorticity(strength);
+    }
+
+    public getVorticity(): number {
+        return this.simulation.getVorticity();
+    }
+
+    public setForceScale(scale: number) {
+        this.forceScale = scale;
+    }
+
+    public getForceScale(): number {
+        return this.forceScale;
+    }
+
+    /**
+     * Grid cells along the longer axis. Higher looks finer but costs quadratically more.
+     */
+    public setResolution(resolution: number) {
+        this.resolution = Math.max(16, Math.round(resolution));
+        this.createSimulation();
+    }
+
+    public getResolution(): number {
+        return this.resolution;
+    }
+
+    public setBandOptions(options: Partial<FrequencyBandOptions>) {
+        this.bandAnalyzer.setOptions({ ...options, bandCount: this.NUM_EMITTERS, minFrequency: 30, maxFrequency: 6000 });
+    }
+
+    /**
+     * Inject band-driven forces and dye at each emitter.
+     * Emitters push tangentially to the ring so the fluid swirls, with the ring slowly rotating.
+     */
+    private injectForces(bands: Float32Array) {
+        const nx = this.simulation.getWidth();
+        const ny = this.simulation.getHeight();
+        const cx = (nx + 1) / 2;
+        const cy = (ny + 1) / 2;
+        const ringRadius = Math.min(nx, ny) * this.EMITTER_RADIUS;
+        const splatRadius = Math.max(1.5, Math.min(nx, ny) * 0.03);
+        const rotation = this.elapsed * 0.1;
+
+        for (let i = 0; i < bands.length; i++) {
+            const intensity = bands[i];
+            if (intensity < 0.02) continue;
+
+            const angle = (2 * Math.PI * i) / bands.length + rotation;
+            const x = cx + ringRadius * Math.cos(angle);
+            const y = cy + ringRadius * Math.sin(angle);
+
+            // Numerical method: Quadratic response so quiet bands barely stir the fluid
+            const force = intensity * intensity * this.MAX_FORCE * this.forceScale;
+            const direction = angle + Math.PI / 2;
+            this.simulation.addVelocity(x, y, Math.cos(direction) * force, Math.sin(direction) * force, splatRadius);
+
+            const [r, g, b] = this.hslToRgb(i / bands.length, 1, 0.5);
+            const dye = intensity * this.DYE_AMOUNT;
+            this.simulation.addDye(x, y, r * dye, g * dye, b * dye, splatRadius);
+        }
+
+        if (this.pendingBurst > 0) {
+            // Radial burst on the beat: eight outward splats around the centre
+            const burst = this.pendingBurst * this.MAX_FORCE * this.forceScale;
+            for (let k = 0; k < 8; k++) {
+                const angle = (2 * Math.PI * k) / 8;
+                this.simulation.addVelocity(
+                    cx + Math.cos(angle) * splatRadius, cy + Math.sin(angle) * splatRadius,
+                    Math.cos(angle) * burst, Math.sin(angle) * burst, splatRadius
+                );
+            }
+            this.simulation.addDye(cx, cy, 0.3, 0.3, 0.3, splatRadius * 2);
+            this.pendingBurst = 0;
+        }
+    }
+
+    private hslToRgb(h: number, s: number, l: number): [number, number, number] {
+        const a = s * Math.min(l, 1 - l);
+        const f = (n: number) => {
+            const k = (n + h * 12) % 12;
+            return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+        };
+        return [f(0), f(8), f(4)];
+    }
+
+    /**
+     * Copy the dye field into the low-resolution image and scale it onto the screen.
+     */
+    public render() {
+        const nx = this.simulation.getWidth();
+        const ny = this.simulation.getHeight();
+        const pixels = this.imageData.data;
+
+        for (let j = 0; j < ny; j++) {
+            for (let i = 0; i < nx; i++) {
+                const p = (j * nx + i) * 4;
+                pixels[p] = Math.min(255, this.simulation.getDye(0, i + 1, j + 1) * 255);
+                pixels[p + 1] = Math.min(255, this.simulation.getDye(1, i + 1, j + 1) * 255);
+                pixels[p + 2] = Math.min(255, this.simulation.getDye(2, i + 1, j + 1) * 255);
+                pixels[p + 3] = 255;
+            }
+        }
+
+        this.gridCtx.putImageData(this.imageData, 0, 0);
+        this.ctx.imageSmoothingEnabled = true;
+        this.ctx.drawImage(this.gridCanvas, 0, 0, this.canvas.width, this.canvas.height);
+    }
+
+    public update(frame: AudioFrame) {
+        const dt = Math.min(frame.dt, this.MAX_DT);
+        this.elapsed += dt;
+
+        if (frame.beat.isBeat) {
+            this.pendingBurst = Math.max(this.pendingBurst, 0.5 + frame.beat.strength);
+        }
+
+        const bands = this.bandAnalyzer.update(frame.frequencyData, frame.sampleRate, 255, dt);
+        this.injectForces(bands);
+        this.simulation.step(dt);
+    }
+}
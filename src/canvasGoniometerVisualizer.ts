@@ -0,0 +1,246 @@
+import { AudioFrame } from './audio/audioFrame';
+import { StereoFrame } from './audio/stereo';
+import { ParameterDefinition, ParameterValue, Visualizer, createVisualizerCanvas } from './visualizer';
+
+export type ScopeMode = 'goniometer' | 'lissajous';
+
+/**
+ * Stereo XY oscilloscope.
+ *
+ * In goniometer mode the plot is rotated 45° so mid (L + R) is vertical and side (L - R)
+ * horizontal: mono is a vertical line, wide material spreads sideways and out-of-phase
+ * content leans towards horizontal. Lissajous mode plots left against right directly.
+ * Meters along the bottom show phase correlation and balance.
+ *
+ * Numerical methods:
+ * - Mid/side rotation: x = (R - L)/√2, y = (L + R)/√2
+ * - Frame-rate independent persistence: the previous trace is faded by persistence^(dt·60)
+ *
+ * The trace accumulates on an offscreen canvas so the fade never touches the graticule or meters.
+ */
+export class CanvasGoniometerVisualizer implements Visualizer {
+    static readonly PARAMETERS: ParameterDefinition[] = [
+        {
+            key: 'scopeMode', label: 'Mode', type: 'select', default: 'goniometer', group: 'Scope',
+            options: [
+                { value: 'goniometer', label: 'Goniometer (mid/side)' },
+                { value: 'lissajous', label: 'Lissajous (left/right)' }
+            ]
+        },
+        { key: 'gain', label: 'Gain', type: 'number', min: 0.5, max: 20, scale: 'log', default: 2, group: 'Scope' },
+        { key: 'persistence', label: 'Persistence', type: 'number', min: 0, max: 0.98, step: 0.01, default: 0.8, group: 'Scope' },
+        { key: 'glow', label: 'Glow', type: 'number', min: 0, max: 30, step: 1, unit: ' px', default: 8, group: 'Scope' },
+        { key: 'showMeters', label: 'Show Meters', type: 'boolean', default: true, group: 'Scope' }
+    ];
+
+    private canvas!: HTMLCanvasElement;
+    private ctx!: CanvasRenderingContext2D;
+    private traceCanvas: HTMLCanvasElement;
+    private traceCtx: CanvasRenderingContext2D;
+    private stereo: StereoFrame | null = null;
+    private dt: number = 1 / 60;
+    private hue: number = 160;
+
+    private scopeMode: ScopeMode = 'goniometer';
+    private gain: number = 2;
+    private persistence: number = 0.8;
+    private glow: number = 8;
+    private showMeters: boolean = true;
+    private readonly METER_HEIGHT = 10;
+    private readonly METER_MARGIN = 24;
+
+    constructor() {
+        this.traceCanvas = document.createElement('canvas');
+        this.traceCtx = this.traceCanvas.getContext('2d')!;
+    }
+
+    public init(container: HTMLElement) {
+        this.canvas = createVisualizerCanvas(container);
+        this.ctx = this.canvas.getContext('2d')!;
+        this.traceCanvas.width = this.canvas.width;
+        this.traceCanvas.height = this.canvas.height;
+    }
+
+    public resize(width: number, height: number) {
+        this.canvas.width = width;
+        this.canvas.height = height;
+        // Resizing also clears the accumulated trace
+        this.traceCanvas.width = width;
+        this.traceCanvas.height = height;
+    }
+
+    public dispose() {
+        this.canvas.remove();
+        this.traceCanvas.width = 1;
+        this.traceCanvas.height = 1;
+        this.stereo = null;
+    }
+
+    public getParameterSchema(): ParameterDefinition[] {
+        return CanvasGoniometerVisualizer.PARAMETERS;
+    }
+
+    public getParameter(key: string): ParameterValue | undefined {
+        switch (key) {
+            case 'scopeMode': return this.scopeMode;
+            case 'gain': return this.gain;
+            case 'persistence': return this.persistence;
+            case 'glow': return this.glow;
+            case 'showMeters': return this.showMeters;
+        }
+        return undefined;
+    }
+
+    public setParameter(key: string, value: ParameterValue) {
+        switch (key) {
+            case 'scopeMode': this.scopeMode = value as ScopeMode; break;
+            case 'gain': this.gain = Math.max(0, Number(value)); break;
+            case 'persistence': this.persistence = Math.max(0, Math.min(0.99, Number(value))); break;
+            case 'glow': this.glow = Math.max(0, Number(value)); break;
+            case 'showMeters': this.showMeters = Boolean(value); break;
+        }
+    }
+
+    public update(frame: AudioFrame) {
+        this.stereo = frame.stereo;
+        this.dt = frame.dt;
+        // Trace color follows correlation: green when in phase, through yellow to red when inverted
+        this.hue = 60 + frame.stereo.correlation * 60;
+    }
+
+    public render() {
+        const width = this.canvas.width;
+        const height = this.canvas.height;
+
+        // Numerical method: Exponential fade scaled to the frame time
+        const keep = Math.pow(this.persistence, this.dt * 60);
+        this.traceCtx.globalCompositeOperation = 'destination-out';
+        this.traceCtx.fillStyle = `rgba(0, 0, 0, ${1 - keep})`;
+        this.traceCtx.fillRect(0, 0, width, height);
+        if (this.stereo) {
+            this.drawTrace(this.stereo);
+        }
+
+        this.ctx.fillStyle = 'black';
+        this.ctx.fillRect(0, 0, width, height);
+        this.drawGraticule();
+        this.ctx.drawImage(this.traceCanvas, 0, 0);
+        if (this.stereo && this.showMeters) {
+            this.drawMeters(this.stereo);
+        }
+    }
+
+    /**
+     * Scope area: a centred square above the meters.
+     */
+    private getScope(): { cx: number, cy: number, radius: number } {
+        const reserved = this.showMeters ? this.METER_MARGIN * 3 : 0;
+        const radius = Math.max(10, Math.min(this.canvas.width, this.canvas.height - reserved) / 2 - 20);
+        return { cx: this.canvas.width / 2, cy: (this.canvas.height - reserved) / 2, radius };
+    }
+
+    private drawGraticule() {
+        const { cx, cy, radius } = this.getScope();
+        this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.08)';
+        this.ctx.lineWidth = 1;
+        this.ctx.beginPath();
+        this.ctx.moveTo(cx - radius, cy);
+        this.ctx.lineTo(cx + radius, cy);
+        this.ctx.moveTo(cx, cy - radius);
+        this.ctx.lineTo(cx, cy + radius);
+        // Diagonals are the L and R axes in goniometer mode
+        const d = radius / Math.SQRT2;
+        this.ctx.moveTo(cx - d, cy - d);
+        this.ctx.lineTo(cx + d, cy + d);
+        this.ctx.moveTo(cx + d, cy - d);
+        this.ctx.lineTo(cx - d, cy + d);
+        this.ctx.stroke();
+
+        this.ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
+        this.ctx.font = '11px Arial';
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'middle';
+        if (this.scopeMode === 'goniometer') {
+            this.ctx.fillText('M', cx, cy - radius - 10);
+            this.ctx.fillText('L', cx - d - 8, cy - d - 8);
+            this.ctx.fillText('R', cx + d + 8, cy - d - 8);
+        } else {
+            this.ctx.fillText('L', cx + radius + 10, cy);
+            this.ctx.fillText('R', cx, cy - radius - 10);
+        }
+    }
+
+    private drawTrace(stereo: StereoFrame) {
+        const { cx, cy, radius } = this.getScope();
+        const left = stereo.left;
+        const right = stereo.right;
+        const ctx = this.traceCtx;
+
+        ctx.globalCompositeOperation = 'lighter';
+        ctx.strokeStyle = `hsla(${this.hue}, 100%, 60%, 0.6)`;
+        ctx.lineWidth = 1.2;
+        ctx.shadowBlur = this.glow;
+        ctx.shadowColor = `hsl(${this.hue}, 100%, 50%)`;
+        ctx.beginPath();
+        for (let i = 0; i < left.length; i++) {
+            let x: number;
+            let y: number;
+            if (this.scopeMode === 'goniometer') {
+                // Numerical method: 45° rotation into mid/side
+                x = (right[i] - left[i]) * Math.SQRT1_2;
+                y = (left[i] + right[i]) * Math.SQRT1_2;
+            } else {
+                x = left[i];
+                y = right[i];
+            }
+            // Clamp so clipping input stays on screen
+            const px = cx + Math.max(-1.2, Math.min(1.2, x * this.gain)) * radius;
+            const py = cy - Math.max(-1.2, Math.min(1.2, y * this.gain)) * radius;
+            if (i === 0) {
+                ctx.moveTo(px, py);
+            } else {
+                ctx.lineTo(px, py);
+            }
+        }
+        ctx.stroke();
+        ctx.shadowBlur = 0;
+    }
+
+    /**
+     * Horizontal bars from -1 to +1 with a needle at the current value.
+     */
+    private drawMeters(stereo: StereoFrame) {
+        const width = Math.min(400, this.canvas.width - 80);
+        const x = (this.canvas.width - width) / 2;
+        const correlationY = this.canvas.height - this.METER_MARGIN * 2;
+        const balanceY = this.canvas.height - this.METER_MARGIN;
+
+        this.drawMeter(x, correlationY, width, stereo.correlation, 'Correlation', '-1', '+1',
+            stereo.correlation < 0 ? '#ff4040' : '#40ff80');
+        this.drawMeter(x, balanceY, width, stereo.balance, stereo.isStereo ? 'Balance' : 'Balance (mono input)', 'L', 'R', '#40a0ff');
+    }
+
+    private drawMeter(x: number, y: number, width: number, value: number, label: string, minLabel: string, maxLabel: string, color: string) {
+        const h = this.METER_HEIGHT;
+        this.ctx.fillStyle = 'rgba(255, 255, 255, 0.1)';
+        this.ctx.fillRect(x, y - h / 2, width, h);
+
+        // Bar grows from the centre towards the value
+        const center = x + width / 2;
+        const needle = center + Math.max(-1, Math.min(1, value)) * width / 2;
+        this.ctx.fillStyle = color;
+        this.ctx.fillRect(Math.min(center, needle), y - h / 2, Math.abs(needle - center), h);
+        this.ctx.fillStyle = 'white';
+        this.ctx.fillRect(needle - 1, y - h / 2 - 2, 2, h + 4);
+
+        this.ctx.font = '11px Arial';
+        this.ctx.textBaseline = 'middle';
+        this.ctx.textAlign = 'right';
+        this.ctx.fillText(minLabel, x - 6, y);
+        this.ctx.textAlign = 'left';
+        this.ctx.fillText(maxLabel, x + width + 6, y);
+        this.ctx.textAlign = 'center';
+        this.ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+        this.ctx.fillText(`${label} ${value >= 0 ? '+' : ''}${value.toFixed(2)}`, center, y - h - 2);
+    }
+}
@@ -1,188 +1,261 @@
-export class CanvasLineVisualizer {
-    private canvas: HTMLCanvasElement;
-    private ctx: CanvasRenderingContext2D;
-    private analyser: AnalyserNode;
-    private dataArray: Uint8Array;
-    private frequencyData: Uint8Array;
-    private bufferLength: number;
-    private splinePoints: { x: number, y: number }[] = [];
-    private splineCoefficients: { a: number, b: number, c: number, d: number }[] = [];
-    private lastTime: number = 0;
+import { AudioFrame } from './audio/audioFrame';
+import { FrequencyBandAnalyzer, FrequencyBandOptions } from './audio/frequencyBands';
+import { KeyEstimate } from './audio/pitch';
+import { INTERPOLATION_LABELS, INTERPOLATION_TYPES, InterpolationType, Spline } from './splines';
+import { ParameterDefinition, ParameterValue, Visualizer, createVisualizerCanvas } from './visualizer';
+
+export type WaveformLayout = 'linear' | 'mirrored' | 'circular';
+
+/**
+ * Waveform drawn as an interpolated curve over the band-energy bars.
+ *
+ * A subset of the waveform's samples (the control points) is fitted with the selected
+ * interpolation method and the curve is evaluated at a fixed number of points, so the
+ * cost depends on the chosen densities rather than on the analyser's buffer size.
+ * Layouts: straight across the screen, mirrored about the centre line, or wrapped
+ * around a circle.
+ */
+export class CanvasLineVisualizer implements Visualizer {
+    static readonly PARAMETERS: ParameterDefinition[] = [
+        {
+            key: 'hueSource', label: 'Waveform Hue', type: 'select', default: 'time', group: 'Waveform',
+            options: [{ value: 'time', label: 'Cycle over time' }, { value: 'key', label: 'Follow musical key' }]
+        },
+        {
+            key: 'interpolation', label: 'Interpolation', type: 'select', default: 'natural-cubic', group: 'Waveform',
+            options: INTERPOLATION_TYPES.map(type => ({ value: type, label: INTERPOLATION_LABELS[type] }))
+        },
+        { key: 'controlPoints', label: 'Control Points', type: 'number', min: 8, max: 512, step: 8, default: 104, group: 'Waveform' },
+        { key: 'curveSamples', label: 'Curve Samples', type: 'number', min: 50, max: 4000, step: 50, default: 500, group: 'Waveform' },
+        {
+            key: 'layout', label: 'Layout', type: 'select', default: 'linear', group: 'Waveform',
+            options: [
+                { value: 'linear', label: 'Linear' },
+                { value: 'mirrored', label: 'Mirrored' },
+                { value: 'circular', label: 'Circular' }
+            ]
+        }
+    ];
+
+    private canvas!: HTMLCanvasElement;
+    private ctx!: CanvasRenderingContext2D;
+    private dataArray: Uint8Array = new Uint8Array(0);
+    private bufferLength: number = 0;
+    private bandAnalyzer: FrequencyBandAnalyzer;
+    private bands: Float32Array = new Float32Array(0);
+    private readonly BAR_COUNT = 64;
+    private spline: Spline = new Spline();
+    private interpolation: InterpolationType = 'natural-cubic';
+    private controlPoints: number = 104;
+    private curveSamples: number = 500;
+    private layout: WaveformLayout = 'linear';
+    // Knots and evaluated curve in waveform coordinates: u in 0-1 along the buffer, v in -1..1
+    private knotU: Float64Array = new Float64Array(0);
+    private knotV: Float64Array = new Float64Array(0);
+    private curveU: Float64Array = new Float64Array(0);
+    private curveV: Float64Array = new Float64Array(0);
+    private readonly COLOR_SEGMENTS = 50;  // Curve is stroked in this many differently colored pieces
     private hueOffset: number = 0;
+    /** What rotates the color wheel: elapsed time, or the detected musical key */
+    private hueSource: 'time' | 'key' = 'time';
+    private pulse: number = 0;
+    private centroid: number = 0;
 
-    constructor(canvasId: string, analyserNode: AnalyserNode) {
-        this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+    constructor() {
+        this.bandAnalyzer = new FrequencyBandAnalyzer({ bandCount: this.BAR_COUNT, aggregation: 'peak' });
+    }
+
+    public init(container: HTMLElement) {
+        this.canvas = createVisualizerCanvas(container);
         this.ctx = this.canvas.getContext('2d')!;
-        this.analyser = analyserNode;
-        this.bufferLength = this.analyser.frequencyBinCount;
-        this.dataArray = new Uint8Array(this.bufferLength);
-        this.frequencyData = new Uint8Array(this.bufferLength);
-        this.resizeCanvas();
-        window.addEventListener('resize', this.resizeCanvas.bind(this));
     }
 
-    private resizeCanvas() {
-        this.canvas.width = window.innerWidth;
-        this.canvas.height = window.innerHeight;
+    public resize(width: number, height: number) {
+        this.canvas.width = width;
+        this.canvas.height = height;
     }
 
-    /**
-     * Cubic spline interpolation
-     * Computes natural cubic spline coefficients for a set of points
-     */
-    private computeSplineCoefficients(points: { x: number, y: number }[]) {
-        const n = points.length - 1;
-        if (n < 2) return []; // Need at least 3 points for cubic spline
-
-        // Step 1: Calculate h values (differences between x coordinates)
-        const h: number[] = [];
-        for (let i = 0; i < n; i++) {
-            h.push(points[i + 1].x - points[i].x);
-        }
+    public dispose() {
+        this.canvas.remove();
+    }
+
+    public getParameterSchema(): ParameterDefinition[] {
+        return CanvasLineVisualizer.PARAMETERS;
+    }
 
-        // Step 2: Set up the tridiagonal system for computing second derivatives
-        const alpha: number[] = new Array(n).fill(0);
-        for (let i = 1; i < n; i++) {
-            alpha[i] = (3 / h[i]) * (points[i + 1].y - points[i].y) - 
-                       (3 / h[i - 1]) * (points[i].y - points[i - 1].y);
+    public getParameter(key: string): ParameterValue | undefined {
+        switch (key) {
+            case 'hueSource': return this.getHueSource();
+            case 'interpolation': return this.interpolation;
+            case 'controlPoints': return this.controlPoints;
+            case 'curveSamples': return this.curveSamples;
+            case 'layout': return this.layout;
         }
+        return undefined;
+    }
 
-        // Step 3: Solve the tridiagonal system using Thomas algorithm
-        const l: number[] = new Array(n + 1).fill(0);
-        const mu: number[] = new Array(n + 1).fill(0);
-        const z: number[] = new Array(n + 1).fill(0);
-        
-        for (let i = 1; i < n; i++) {
-            l[i] = 2 * (points[i + 1].x - points[i - 1].x) - h[i - 1] * mu[i - 1];
-            mu[i] = h[i] / l[i];
-            z[i] = (alpha[i] - h[i - 1] * z[i - 1]) / l[i];
+    public setParameter(key: string, value: ParameterValue) {
+        switch (key) {
+            case 'hueSource': this.setHueSource(value === 'key' ? 'key' : 'time'); break;
+            case 'interpolation': this.interpolation = value as InterpolationType; break;
+            case 'controlPoints': this.controlPoints = Math.max(3, Math.round(Number(value))); break;
+            case 'curveSamples': this.curveSamples = Math.max(2, Math.round(Number(value))); break;
+            case 'layout': this.layout = value as WaveformLayout; break;
         }
+    }
+
+    public setHueSource(source: 'time' | 'key') {
+        this.hueSource = source;
+    }
+
+    public getHueSource(): 'time' | 'key' {
+        return this.hueSource;
+    }
+
+    /**
+     * Hue for the current key, placed on the circle of fifths so closely related keys
+     * get neighbouring colors. Minor keys share the color of their relative major.
+     */
+    private getKeyHue(key: KeyEstimate): number {
+        if (!key.name) return this.hueOffset;
+        const majorTonic = key.mode === 'minor' ? (key.tonic + 3) % 12 : key.tonic;
+        return ((majorTonic * 7) % 12) * 30;
+    }
 
-        // Step 4: Compute the second derivatives
-        const c: number[] = new Array(n + 1).fill(0);
-        for (let j = n - 1; j >= 0; j--) {
-            c[j] = z[j] - mu[j] * c[j + 1];
+    public setBandOptions(options: Partial<FrequencyBandOptions>) {
+        this.bandAnalyzer.setOptions({ ...options, bandCount: this.BAR_COUNT });
+    }
+
+    /**
+     * Fit the spline through evenly spaced waveform samples and evaluate it at evenly
+     * spaced points along the buffer.
+     */
+    private computeCurve() {
+        const length = this.bufferLength;
+        const knots = Math.max(2, Math.min(this.controlPoints, length));
+        if (this.knotU.length !== knots) {
+            this.knotU = new Float64Array(knots);
+            this.knotV = new Float64Array(knots);
+        }
+        if (this.curveU.length !== this.curveSamples) {
+            this.curveU = new Float64Array(this.curveSamples);
+            this.curveV = new Float64Array(this.curveSamples);
         }
 
-        // Step 5: Compute the coefficients for each segment
-        const coefficients: { a: number, b: number, c: number, d: number }[] = [];
-        for (let i = 0; i < n; i++) {
-            const a = points[i].y;
-            const b = (points[i + 1].y - points[i].y) / h[i] - h[i] * (c[i + 1] + 2 * c[i]) / 3;
-            const d = (c[i + 1] - c[i]) / (3 * h[i]);
-            
-            coefficients.push({ a, b, c: c[i], d });
+        // Knots always include the first and last sample
+        for (let k = 0; k < knots; k++) {
+            const i = Math.round((k / (knots - 1)) * (length - 1));
+            this.knotU[k] = k / (knots - 1);
+            this.knotV[k] = length > 0 ? this.dataArray[i] / 128.0 - 1 : 0;
         }
+        this.spline.fit(this.knotU, this.knotV, this.interpolation);
 
-        return coefficients;
+        for (let j = 0; j < this.curveSamples; j++) {
+            this.curveU[j] = j / (this.curveSamples - 1);
+        }
+        this.spline.evaluateSorted(this.curveU, this.curveV);
     }
 
     /**
-     * Evaluate the cubic spline at a specific x value
+     * Screen position of a curve point for the current layout. `mirror` flips the value,
+     * for the reflected copy in the mirrored layout.
      */
-    private evaluateSpline(x: number, points: { x: number, y: number }[], coeffs: { a: number, b: number, c: number, d: number }[]) {
-        // Find the appropriate segment
-        let i = 0;
-        while (i < points.length - 1 && x > points[i + 1].x) {
-            i++;
+    private toScreen(u: number, v: number, mirror: boolean): { x: number, y: number } {
+        const width = this.canvas.width;
+        const height = this.canvas.height;
+        const value = mirror ? -v : v;
+        if (this.layout === 'circular') {
+            const radius = Math.min(width, height) * 0.25;
+            const r = radius * (1 + value * 0.8);
+            const angle = u * Math.PI * 2 - Math.PI / 2;
+            return { x: width / 2 + r * Math.cos(angle), y: height / 2 + r * Math.sin(angle) };
         }
-        
-        if (i >= coeffs.length) return points[points.length - 1].y;
-        
-        // Calculate the value using the cubic polynomial
-        const dx = x - points[i].x;
-        return coeffs[i].a + coeffs[i].b * dx + coeffs[i].c * dx * dx + coeffs[i].d * dx * dx * dx;
+        return { x: u * width, y: ((value + 1) * height) / 2 };
     }
 
     /**
-     * Draws the waveform based on current audio data with cubic spline interpolation.
+     * Stroke the evaluated curve in colored pieces, each tinted by the band under it.
      */
-    public animate() {
-        const now = performance.now();
-        const dt = now - this.lastTime;
-        this.lastTime = now;
-        
-        // Update hue offset for color cycling
-        this.hueOffset = (this.hueOffset + dt * 0.02) % 360;
-        
-        // Get time-domain and frequency data
-        this.analyser.getByteTimeDomainData(this.dataArray);
-        this.analyser.getByteFrequencyData(this.frequencyData);
+    private drawCurve(mirror: boolean) {
+        const bands = this.bands;
+        const samples = this.curveSamples;
+        const pieces = Math.min(this.COLOR_SEGMENTS, samples - 1);
 
-        // Clear canvas with a dark background
-        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.2)';
-        this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+        for (let p = 0; p < pieces; p++) {
+            const t = p / Math.max(1, pieces - 1);
+            const from = Math.floor((p / pieces) * (samples - 1));
+            const to = Math.floor(((p + 1) / pieces) * (samples - 1));
 
-        // Sample points for the spline (we don't need all data points)
-        // Using fewer points makes the computation more efficient
-        const sampleRate = Math.max(1, Math.floor(this.bufferLength / 100));
-        this.splinePoints = [];
-        
-        for (let i = 0; i < this.bufferLength; i += sampleRate) {
-            const x = (i / this.bufferLength) * this.canvas.width;
-            const v = this.dataArray[i] / 128.0;
-            const y = (v * this.canvas.height) / 2;
-            this.splinePoints.push({ x, y });
-        }
-        
-        // Add the last point if not included
-        if ((this.bufferLength - 1) % sampleRate !== 0) {
-            const i = this.bufferLength - 1;
-            const x = (i / this.bufferLength) * this.canvas.width;
-            const v = this.dataArray[i] / 128.0;
-            const y = (v * this.canvas.height) / 2;
-            this.splinePoints.push({ x, y });
-        }
-        
-        // Compute spline coefficients
-        this.splineCoefficients = this.computeSplineCoefficients(this.splinePoints);
-        
-        // Draw the spline with gradient colors based on frequency data
-        this.ctx.lineWidth = 3;
-        
-        // Create a gradient based on frequency data
-        const steps = 50;
-        for (let i = 0; i < steps; i++) {
-            const t = i / (steps - 1);
-            const startX = t * this.canvas.width;
-            const endX = (i + 1) / (steps - 1) * this.canvas.width;
-            
-            // Get frequency data for this segment
-            const freqIndex = Math.floor(t * (this.frequencyData.length - 1));
-            const intensity = this.frequencyData[freqIndex] / 255;
-            
-            // Create a path for this segment
             this.ctx.beginPath();
-            
-            // Draw the segment with spline interpolation
-            const segmentSteps = 10;
-            for (let j = 0; j <= segmentSteps; j++) {
-                const x = startX + (endX - startX) * (j / segmentSteps);
-                const y = this.evaluateSpline(x, this.splinePoints, this.splineCoefficients);
-                
-                if (j === 0) {
-                    this.ctx.moveTo(x, y);
+            for (let j = from; j <= to; j++) {
+                const point = this.toScreen(this.curveU[j], this.curveV[j], mirror);
+                if (j === from) {
+                    this.ctx.moveTo(point.x, point.y);
                 } else {
-                    this.ctx.lineTo(x, y);
+                    this.ctx.lineTo(point.x, point.y);
                 }
             }
-            
-            // Color based on frequency intensity and position
-            const hue = (t * 360 + this.hueOffset) % 360;
+
+            // Color based on frequency intensity and position, shifted toward blue for bright timbres
+            const intensity = bands.length > 0 ? bands[Math.floor(t * (bands.length - 1))] : 0;
+            const hue = (t * 360 + this.hueOffset + this.centroid * 120) % 360;
             const saturation = 80 + intensity * 20;
             const lightness = 40 + intensity * 30;
             this.ctx.strokeStyle = `hsl(${hue}, ${saturation}%, ${lightness}%)`;
             this.ctx.stroke();
         }
-        
+    }
+
+    /**
+     * Advances the color cycle and captures this frame's waveform and band energies.
+     */
+    public update(frame: AudioFrame) {
+        const dt = frame.dt * 1000;
+
+        // Update hue offset for color cycling
+        if (this.hueSource === 'key') {
+            // Numerical method: Exponential approach along the shortest arc of the color wheel
+            const delta = ((this.getKeyHue(frame.key) - this.hueOffset + 540) % 360) - 180;
+            this.hueOffset = (this.hueOffset + delta * Math.min(1, dt * 0.003) + 360) % 360;
+        } else {
+            this.hueOffset = (this.hueOffset + dt * 0.02) % 360;
+        }
+
+        // Get time-domain data and aggregate the spectrum into bands
+        this.dataArray = frame.timeDomainData;
+        this.bufferLength = this.dataArray.length;
+        this.bands = this.bandAnalyzer.update(frame.frequencyData, frame.sampleRate, 255, Math.min(frame.dt, 0.1));
+        this.pulse = frame.beat.pulse;
+        this.centroid = frame.features.centroid;
+    }
+
+    /**
+     * Draws the interpolated waveform and the band bars.
+     */
+    public render() {
+        const bands = this.bands;
+
+        // Clear canvas with a dark background
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.2)';
+        this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+        this.computeCurve();
+
+        // Thicken on the beat
+        const pulse = this.pulse;
+        this.ctx.lineWidth = 3 + pulse * 5;
+        this.drawCurve(false);
+        if (this.layout === 'mirrored') {
+            this.drawCurve(true);
+        }
+
         // Draw frequency bars at the bottom
-        const barWidth = this.canvas.width / 64;
+        const barWidth = this.canvas.width / bands.length;
         const barHeight = this.canvas.height / 4;
         
-        for (let i = 0; i < 64; i++) {
-            const freqIndex = Math.floor(i * (this.frequencyData.length / 64));
-            const intensity = this.frequencyData[freqIndex] / 255;
-            const height = intensity * barHeight;
+        for (let i = 0; i < bands.length; i++) {
+            const intensity = bands[i];
+            const height = intensity * barHeight * (1 + pulse * 0.5);
             
             const hue = (i * 5 + this.hueOffset) % 360;
             this.ctx.fillStyle = `hsla(${hue}, 100%, 50%, ${0.5 + intensity * 0.5})`;
@@ -1,95 +1,539 @@
+import { AudioFrame } from './audio/audioFrame';
+import { FrequencyBandAnalyzer, FrequencyBandOptions } from './audio/frequencyBands';
+import {
+    Acceleration, AccelerationFunction, FixedTimestep, IntegratorType, INTEGRATOR_LABELS, INTEGRATOR_TYPES,
+    ParticleState, getIntegrator
+} from './physics/integrators';
+import {
+    Force, ForceField, ForceLaw, ForceLayout, FORCE_LAWS, FORCE_LAYOUTS, PolarityPattern, POLARITY_PATTERNS
+} from './physics/forceField';
+import { LifeCurve, LIFE_CURVES, Particle, ParticlePool, evaluateLifeCurve } from './physics/particlePool';
+import { SpatialHash } from './physics/spatialHash';
+import { ParameterChangeListener, ParameterDefinition, ParameterValue, Visualizer, createVisualizerCanvas } from './visualizer';
+import { CIRCLE_STRIDE, VertexBuffer, WebGLParticleRenderer } from './webglParticleRenderer';
+
+export type EmitterMode = 'none' | 'beat' | 'bands' | 'both';
+
+/** How particles, trails and connections are drawn; the simulation is the same for both */
+export type ParticleBackend = 'canvas2d' | 'webgl';
+
 /**
  * A particle system that visualizes audio frequency data using physics-based simulation.
  * This class implements several numerical methods including:
- * - Explicit Euler integration (first-order) for position and velocity updates
- * - Inverse square law for force calculations (similar to gravitational fields)
+ * - Selectable time integration (explicit Euler, semi-implicit Euler, Velocity Verlet, RK4)
+ * - Fixed-timestep accumulator so motion doesn't depend on the display frame rate
+ * - Band force fields with selectable layout, force law and polarity (see ForceField)
  * - Velocity damping using exponential decay
  * - Boundary collision handling with coefficient of restitution
- * - Linear interpolation for visual effects
- * 
- * Note: Explicit Euler is a simple first-order method that approximates the solution
- * to differential equations. More accurate alternatives would include RK4 (4th-order 
- * Runge-Kutta) or Velocity Verlet integration.
+ * - Linear interpolation between physics steps for rendering
+ * - Uniform-grid spatial hashing for neighbor queries (connections, particle-particle forces, collisions)
+ *
+ * Particles live in a pool. A persistent ambient population follows the particle count
+ * (fading in and out as it changes), and emitters add short-lived particles on beats and
+ * band onsets, each with its own lifespan, size, color, opacity-over-life curve and trail.
+ *
+ * Force centers can be dragged on the canvas (switching to the custom layout), and
+ * shift-clicking a center flips its polarity.
+ *
+ * With the 'webgl' backend, dots, trails and connections are drawn by WebGLParticleRenderer
+ * (instanced circles, one draw call per primitive type) on a canvas underneath the Canvas2D
+ * one, which keeps the force-field overlay, energy readout and pointer editing. Everything
+ * else — forces, emitters, parameters — is shared, so the two modes look alike. Without
+ * WebGL2 the backend falls back to Canvas2D.
+ *
+ * Forces were tuned with one step per 60 Hz frame, so the simulation keeps that
+ * frame as its time unit: a physics step of 1/120 s advances dt = 0.5.
  */
-export class CanvasParticleSystem {
-    private canvas: HTMLCanvasElement;
-    private ctx: CanvasRenderingContext2D;
-    private dots: { 
-        x: number; 
-        y: number; 
-        vx: number; 
-        vy: number;
-        mass: number;  
-    }[] = [];
+export class CanvasParticleSystem implements Visualizer {
+    static readonly PARAMETERS: ParameterDefinition[] = [
+        { key: 'particleCount', label: 'Particle Count', type: 'number', min: 10, max: 5000, step: 10, default: 50, group: 'Particles' },
+        { key: 'showConnections', label: 'Show Connections', type: 'boolean', default: true, group: 'Particles' },
+        { key: 'separation', label: 'Separation', type: 'number', min: 0, max: 2, step: 0.05, default: 0, group: 'Interactions' },
+        { key: 'cohesion', label: 'Cohesion', type: 'number', min: 0, max: 1, step: 0.05, default: 0, group: 'Interactions' },
+        { key: 'interactionRadius', label: 'Interaction Radius', type: 'number', min: 5, max: 100, step: 1, unit: ' px', default: 30, group: 'Interactions' },
+        { key: 'collisions', label: 'Collisions', type: 'boolean', default: false, group: 'Interactions' },
+        {
+            key: 'emitterMode', label: 'Emit On', type: 'select', default: 'none', group: 'Emitters',
+            options: [
+                { value: 'none', label: 'Nothing' },
+                { value: 'beat', label: 'Beats' },
+                { value: 'bands', label: 'Band onsets' },
+                { value: 'both', label: 'Beats and band onsets' }
+            ]
+        },
+        { key: 'burstSize', label: 'Burst Size', type: 'number', min: 0, max: 300, step: 5, default: 40, group: 'Emitters' },
+        { key: 'lifespan', label: 'Lifespan', type: 'number', min: 0.2, max: 10, step: 0.1, unit: 's', default: 2, group: 'Emitters' },
+        { key: 'emitSize', label: 'Particle Size', type: 'number', min: 0.5, max: 5, step: 0.1, default: 1.5, group: 'Emitters' },
+        {
+            key: 'opacityCurve', label: 'Opacity Over Life', type: 'select', default: 'smooth', group: 'Emitters',
+            options: LIFE_CURVES.map(curve => ({ value: curve, label: curve.charAt(0).toUpperCase() + curve.slice(1) }))
+        },
+        { key: 'trailLength', label: 'Trail Length', type: 'number', min: 0, max: 32, step: 1, default: 0, group: 'Emitters' },
+        {
+            key: 'fieldLayout', label: 'Layout', type: 'select', default: 'ring', group: 'Force Field',
+            options: FORCE_LAYOUTS.map(layout => ({ value: layout, label: layout === 'line' ? 'Spectrum line' : layout.charAt(0).toUpperCase() + layout.slice(1) }))
+        },
+        {
+            key: 'fieldLaw', label: 'Force Law', type: 'select', default: 'inverse-square', group: 'Force Field',
+            options: [
+                { value: 'inverse-square', label: 'Inverse square' },
+                { value: 'spring', label: 'Spring' },
+                { value: 'vortex', label: 'Vortex' },
+                { value: 'repulsion', label: 'Repulsion' },
+                { value: 'flow', label: 'Perlin flow field' }
+            ]
+        },
+        {
+            key: 'fieldPolarity', label: 'Polarity', type: 'select', default: 'attract', group: 'Force Field',
+            options: POLARITY_PATTERNS.map(pattern => ({ value: pattern, label: pattern.charAt(0).toUpperCase() + pattern.slice(1) }))
+        },
+        { key: 'fieldStrength', label: 'Strength', type: 'number', min: 0, max: 50, step: 0.5, default: 10, group: 'Force Field' },
+        { key: 'fieldScale', label: 'Layout Size', type: 'number', min: 0.05, max: 0.45, step: 0.01, default: 0.25, group: 'Force Field' },
+        { key: 'showFields', label: 'Show Force Fields', type: 'boolean', default: true, group: 'Force Field' },
+        { key: 'fieldPositions', label: 'Custom Positions', type: 'string', default: '', group: 'Force Field', hidden: true },
+        { key: 'bandPolarity', label: 'Band Polarity', type: 'string', default: '', group: 'Force Field', hidden: true },
+        {
+            key: 'integrator', label: 'Integrator', type: 'select', default: 'semi-implicit-euler', group: 'Physics',
+            options: INTEGRATOR_TYPES.map(type => ({ value: type, label: INTEGRATOR_LABELS[type] }))
+        },
+        { key: 'physicsRate', label: 'Physics Rate', type: 'number', min: 30, max: 480, step: 30, unit: ' Hz', default: 120, group: 'Physics' },
+        { key: 'damping', label: 'Damping (per frame)', type: 'number', min: 0, max: 0.05, step: 0.001, default: 0.01, group: 'Physics' },
+        { key: 'showEnergy', label: 'Show Energy', type: 'boolean', default: false, group: 'Physics' }
+    ];
+
+    private canvas!: HTMLCanvasElement;
+    private ctx!: CanvasRenderingContext2D;
+    private backend: ParticleBackend;
+    private glCanvas: HTMLCanvasElement | null = null;
+    private glRenderer: WebGLParticleRenderer | null = null;
+    private circleData!: Float32Array;
+    private lineVertices: VertexBuffer = new VertexBuffer(4096);
+    private triangleVertices: VertexBuffer = new VertexBuffer(4096);
+    private readonly MAX_PARTICLES = 8000;  // Ambient population plus emitted particles
+    private pool: ParticlePool = new ParticlePool(this.MAX_PARTICLES);
+    // The pool's live array; its identity never changes
+    private dots: Particle[] = this.pool.getActive();
     private DOT_COUNT = 50;
     private RADIUS = 2;
     private DIST_THRESH_MAX = 90;
+    // Connection distance is shrunk above this count so the number of lines per particle stays constant
+    private readonly CONNECTION_REFERENCE_COUNT = 200;
+    private readonly MAX_TRIANGLES = 20000;
+    private readonly OPACITY_LEVELS = 16;  // Connections are batched into one path per opacity level
     private backgroundColor: string = '#000000';
-    private audioAnalyser: any;  
+    private backgroundRgb: number[] = [0, 0, 0];
+    private frame: AudioFrame | null = null;
     private frequencyBands: { centerFreq: number, intensity: number }[] = [];
-    private readonly FORCE_CONSTANT = 10.0;  // Significantly increased for stronger gravitational pull
+    private bandAnalyzer: FrequencyBandAnalyzer;
     private readonly INWARD_PULL = 0.5;  // Gentle force pulling particles back when they stray too far
     private readonly NUM_FREQUENCY_BANDS = 8;
-    private readonly DAMPING = 0.99;  // Reduced damping to maintain more energy
+    private damping: number = 0.01;  // Fraction of velocity lost per frame
     private readonly EDGE_BOUNCE = 0.8;  // Bounce factor when hitting edges
+    private readonly BEAT_KICK = 3.0;  // Radial impulse applied to every particle on a beat
+    private readonly TURBULENCE = 0.6;  // Random acceleration at full spectral flatness (noisy sounds)
+    private readonly MAX_SPEED = 10;  // Pixels per frame
+    private readonly FRAME_TIME = 1 / 60;  // Time unit of the simulation, in seconds
     /** Whether to draw connections between particles */
     private showConnections: boolean = true;
+    private integratorType: IntegratorType = 'semi-implicit-euler';
+    private timestep: FixedTimestep = new FixedTimestep(1 / 120);
+    private forceField: ForceField = new ForceField();
+    private showFields: boolean = true;
+    private force: Force = { fx: 0, fy: 0 };
+    private draggedCenter: number = -1;
+    private parameterListeners: ParameterChangeListener[] = [];
+    private readonly PICK_RADIUS = 20;  // Pixels around a force center that start a drag
+    private showEnergy: boolean = false;
+    private energyHistory: { time: number, kinetic: number, potential: number }[] = [];
+    private readonly ENERGY_HISTORY_SECONDS = 5;
+    private connectionHash: SpatialHash = new SpatialHash(90);
+    private interactionHash: SpatialHash = new SpatialHash(30);
+    private collisionHash: SpatialHash = new SpatialHash(4);
+    private separation: number = 0;
+    private cohesion: number = 0;
+    private interactionRadius: number = 30;
+    private collisions: boolean = false;
+    private readonly SEPARATION_ACCEL = 0.5;  // Push between touching particles at separation 1, pixels per frame²
+    private readonly COHESION_RATE = 0.02;  // Pull toward the local centre of mass at cohesion 1, per frame²
+    // Scratch buffers for neighbor forces, sized to the particle count
+    private neighborAx: Float32Array = new Float32Array(0);
+    private neighborAy: Float32Array = new Float32Array(0);
+    private neighborOffsetX: Float32Array = new Float32Array(0);
+    private neighborOffsetY: Float32Array = new Float32Array(0);
+    private neighborCount: Uint16Array = new Uint16Array(0);
+    private emitterMode: EmitterMode = 'none';
+    private burstSize: number = 40;
+    private lifespan: number = 2;
+    private emitSize: number = 1.5;
+    private opacityCurve: LifeCurve = 'smooth';
+    private trailLength: number = 0;
+    private previousBandIntensity: number[] = [];
+    private readonly BAND_ONSET_RISE = 0.15;  // Frame-to-frame rise in band intensity that counts as an onset
+    private readonly FADE_TIME = 0.5;  // Seconds for ambient particles to fade in or out
+    private readonly MAX_SPAWN_PER_FRAME = 100;  // Ambient growth rate when the count is raised
 
-    constructor(canvasId: string) {
-        this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
-        this.ctx = this.canvas.getContext('2d')!;
-        this.resizeCanvas();
-        window.addEventListener('resize', this.resizeCanvas.bind(this));
+    constructor(backend: ParticleBackend = 'canvas2d') {
+        this.backend = backend;
+        this.bandAnalyzer = new FrequencyBandAnalyzer({
+            layout: 'logarithmic',
+            bandCount: this.NUM_FREQUENCY_BANDS,
+            minFrequency: 20,
+            maxFrequency: 2000,
+            aggregation: 'rms'
+        });
         this.initializeFrequencyBands();
+    }
+
+    public init(container: HTMLElement) {
+        this.canvas = createVisualizerCanvas(container);
+        this.ctx = this.canvas.getContext('2d')!;
+        if (this.backend === 'webgl') {
+            this.initWebGL(container);
+        }
+        this.setupFieldEditing();
         this.initializeDots();
     }
 
-    public connectAudioAnalyser(analyser: any) {
-        this.audioAnalyser = analyser;
+    /**
+     * Put a WebGL canvas underneath the Canvas2D one, which becomes a transparent overlay.
+     */
+    private initWebGL(container: HTMLElement) {
+        // createVisualizerCanvas inserts at the front, so this canvas ends up below the 2D one
+        const glCanvas = createVisualizerCanvas(container);
+        this.glRenderer = WebGLParticleRenderer.create(glCanvas);
+        if (!this.glRenderer) {
+            console.warn('WebGL2 is not available, drawing particles with Canvas2D');
+            glCanvas.remove();
+            return;
+        }
+        this.glCanvas = glCanvas;
+        this.glRenderer.resize(glCanvas.width, glCanvas.height);
+        this.circleData = new Float32Array(this.MAX_PARTICLES * CIRCLE_STRIDE);
+    }
+
+    public resize(width: number, height: number) {
+        this.canvas.width = width;
+        this.canvas.height = height;
+        if (this.glCanvas && this.glRenderer) {
+            this.glCanvas.width = width;
+            this.glCanvas.height = height;
+            this.glRenderer.resize(width, height);
+        }
+    }
+
+    public dispose() {
+        if (this.glRenderer) {
+            this.glRenderer.dispose();
+            this.glRenderer = null;
+        }
+        if (this.glCanvas) {
+            this.glCanvas.remove();
+            this.glCanvas = null;
+        }
+        this.canvas.remove();
+        this.pool.clear();
+        this.frame = null;
+        this.parameterListeners = [];
+    }
+
+    public getParameterSchema(): ParameterDefinition[] {
+        return CanvasParticleSystem.PARAMETERS;
+    }
+
+    public getParameter(key: string): ParameterValue | undefined {
+        switch (key) {
+            case 'particleCount': return this.getDotCount();
+            case 'showConnections': return this.getShowConnections();
+            case 'integrator': return this.getIntegrator();
+            case 'physicsRate': return Math.round(1 / this.timestep.getStep());
+            case 'damping': return this.damping;
+            case 'showEnergy': return this.showEnergy;
+            case 'separation': return this.separation;
+            case 'cohesion': return this.cohesion;
+            case 'interactionRadius': return this.interactionRadius;
+            case 'collisions': return this.collisions;
+            case 'emitterMode': return this.emitterMode;
+            case 'burstSize': return this.burstSize;
+            case 'lifespan': return this.lifespan;
+            case 'emitSize': return this.emitSize;
+            case 'opacityCurve': return this.opacityCurve;
+            case 'trailLength': return this.trailLength;
+            case 'fieldLayout': return this.forceField.getLayout();
+            case 'fieldLaw': return this.forceField.getLaw();
+            case 'fieldPolarity': return this.forceField.getPolarityPattern();
+            case 'fieldStrength': return this.forceField.getStrength();
+            case 'fieldScale': return this.forceField.getScale();
+            case 'showFields': return this.showFields;
+            case 'fieldPositions': return this.forceField.serializePositions();
+            case 'bandPolarity': return this.forceField.serializePolarity();
+        }
+        return undefined;
+    }
+
+    public setParameter(key: string, value: ParameterValue) {
+        switch (key) {
+            case 'particleCount': this.setDotCount(Number(value)); break;
+            case 'showConnections': this.setShowConnections(Boolean(value)); break;
+            case 'integrator': this.setIntegrator(value as IntegratorType); break;
+            case 'physicsRate': this.timestep.setStep(1 / Math.max(1, Number(value))); break;
+            case 'damping': this.damping = Math.max(0, Math.min(0.99, Number(value))); break;
+            case 'showEnergy':
+                this.showEnergy = Boolean(value);
+                this.energyHistory = [];
+                break;
+            case 'separation': this.separation = Math.max(0, Number(value)); break;
+            case 'cohesion': this.cohesion = Math.max(0, Number(value)); break;
+            case 'interactionRadius':
+                this.interactionRadius = Math.max(1, Number(value));
+                this.interactionHash.setCellSize(this.interactionRadius);
+                break;
+            case 'collisions': this.collisions = Boolean(value); break;
+            case 'emitterMode': this.emitterMode = value as EmitterMode; break;
+            case 'burstSize': this.burstSize = Math.max(0, Math.round(Number(value))); break;
+            case 'lifespan': this.lifespan = Math.max(0.1, Number(value)); break;
+            case 'emitSize': this.emitSize = Math.max(0.1, Number(value)); break;
+            case 'opacityCurve': this.opacityCurve = value as LifeCurve; break;
+            case 'trailLength':
+                this.trailLength = Math.max(0, Math.min(this.pool.getTrailCapacity(), Math.round(Number(value))));
+                break;
+            case 'fieldLayout': this.forceField.setLayout(value as ForceLayout); break;
+            case 'fieldLaw': this.forceField.setLaw(value as ForceLaw); break;
+            case 'fieldPolarity': this.forceField.setPolarityPattern(value as PolarityPattern); break;
+            case 'fieldStrength': this.forceField.setStrength(Number(value)); break;
+            case 'fieldScale': this.forceField.setScale(Number(value)); break;
+            case 'showFields': this.showFields = Boolean(value); break;
+            case 'fieldPositions': this.forceField.parsePositions(String(value)); break;
+            case 'bandPolarity': this.forceField.parsePolarity(String(value)); break;
+        }
+    }
+
+    public onParameterChange(listener: ParameterChangeListener): () => void {
+        this.parameterListeners.push(listener);
+        return () => {
+            this.parameterListeners = this.parameterListeners.filter(l => l !== listener);
+        };
+    }
+
+    private notifyParameter(key: string) {
+        const value = this.getParameter(key);
+        if (value === undefined) return;
+        this.parameterListeners.forEach(listener => listener(key, value));
     }
 
     /**
-     * Initializes frequency bands with logarithmically spaced center frequencies.
-     * This creates a more perceptually balanced distribution of frequency bands.
+     * Direct manipulation of the force centers: drag to move one (switching to the
+     * custom layout), shift-click to flip its polarity.
      */
-    private initializeFrequencyBands() {
-        const minFreq = 20;  
-        const maxFreq = 2000;  
-        for (let i = 0; i < this.NUM_FREQUENCY_BANDS; i++) {
-            // Logarithmic spacing of frequencies to match human perception
-            const centerFreq = minFreq * Math.pow(maxFreq/minFreq, i/(this.NUM_FREQUENCY_BANDS-1));
-            this.frequencyBands.push({ centerFreq, intensity: 0 });
+    private setupFieldEditing() {
+        const toCanvas = (event: PointerEvent) => {
+            const rect = this.canvas.getBoundingClientRect();
+            return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+        };
+
+        this.canvas.addEventListener('pointerdown', (event: PointerEvent) => {
+            if (!this.showFields) return;
+            const { x, y } = toCanvas(event);
+            const index = this.forceField.findCenter(x, y, this.PICK_RADIUS);
+            if (index === -1) return;
+
+            if (event.shiftKey) {
+                this.forceField.toggleBandPolarity(index);
+                this.notifyParameter('fieldPolarity');
+                this.notifyParameter('bandPolarity');
+                return;
+            }
+            this.draggedCenter = index;
+            this.canvas.setPointerCapture(event.pointerId);
+        });
+
+        this.canvas.addEventListener('pointermove', (event: PointerEvent) => {
+            const { x, y } = toCanvas(event);
+            if (this.draggedCenter === -1) {
+                // Hint that centers can be grabbed
+                const hover = this.showFields && this.forceField.findCenter(x, y, this.PICK_RADIUS) !== -1;
+                this.canvas.style.cursor = hover ? 'grab' : '';
+                return;
+            }
+            this.forceField.moveCenter(this.draggedCenter, x / this.canvas.width, y / this.canvas.height);
+        });
+
+        const endDrag = (event: PointerEvent) => {
+            if (this.draggedCenter === -1) return;
+            this.draggedCenter = -1;
+            this.canvas.releasePointerCapture(event.pointerId);
+            this.notifyParameter('fieldLayout');
+            this.notifyParameter('fieldPositions');
+        };
+        this.canvas.addEventListener('pointerup', endDrag);
+        this.canvas.addEventListener('pointercancel', endDrag);
+    }
+
+    /**
+     * Choose the numerical method used to advance the particles.
+     */
+    public setIntegrator(type: IntegratorType) {
+        if (INTEGRATOR_TYPES.indexOf(type) === -1) return;
+        this.integratorType = type;
+        // Energy from a different method isn't comparable
+        this.energyHistory = [];
+    }
+
+    public getIntegrator(): IntegratorType {
+        return this.integratorType;
+    }
+
+    /**
+     * Pushes every particle away from the screen center when a beat is detected.
+     * Numerical method: Impulse (instantaneous change in momentum, dv = J/m)
+     */
+    private applyBeatKick(strength: number) {
+        const cx = this.canvas.width / 2;
+        const cy = this.canvas.height / 2;
+        const impulse = this.BEAT_KICK * (0.5 + strength);
+
+        for (const dot of this.dots) {
+            const dx = dot.x - cx;
+            const dy = dot.y - cy;
+            const dist = Math.sqrt(dx * dx + dy * dy);
+            if (dist < 1) continue;
+            dot.vx += (dx / dist) * impulse / dot.mass;
+            dot.vy += (dy / dist) * impulse / dot.mass;
         }
     }
 
+    private getBeatPulse(): number {
+        return this.frame ? this.frame.beat.pulse : 0;
+    }
+
+    /**
+     * Change the band layout / aggregation. The particle system always keeps its own
+     * band count and 20-2000 Hz range so the force ring stays readable.
+     */
+    public setBandOptions(options: Partial<FrequencyBandOptions>) {
+        this.bandAnalyzer.setOptions({ ...options, bandCount: this.NUM_FREQUENCY_BANDS, minFrequency: 20, maxFrequency: 2000 });
+        this.initializeFrequencyBands();
+    }
+
     /**
-     * Initializes particles with random positions and velocities.
+     * Creates one force center per band of the band analyzer's layout.
+     * The default logarithmic layout gives a perceptually balanced distribution.
+     */
+    private initializeFrequencyBands() {
+        const sampleRate = this.frame ? this.frame.sampleRate : 44100;
+        const binCount = this.frame ? this.frame.frequencyData.length : 512;
+        this.bandAnalyzer.configure(binCount, sampleRate);
+        this.frequencyBands = this.bandAnalyzer.getBands().map(band => ({ centerFreq: band.centerFrequency, intensity: 0 }));
+    }
+
+    /**
+     * Initializes the ambient population, fully visible from the start.
      */
     private initializeDots() {
         for (let i = 0; i < this.DOT_COUNT; i++) {
-            this.dots.push({
-                x: Math.random() * this.canvas.width,
-                y: Math.random() * this.canvas.height,
-                vx: (Math.random() - 0.5) * 5,  
-                vy: (Math.random() - 0.5) * 5,  
-                mass: 0.1 + Math.random() * 0.9  // Random mass affects how particles respond to forces
-            });
+            const dot = this.spawnAmbient();
+            if (dot) dot.age = this.FADE_TIME;
+        }
+        this.energyHistory = [];
+    }
+
+    /**
+     * Spawns a persistent particle with random position and velocity.
+     */
+    private spawnAmbient(): Particle | null {
+        const dot = this.pool.spawn(Math.random() * this.canvas.width, Math.random() * this.canvas.height);
+        if (!dot) return null;
+        dot.vx = (Math.random() - 0.5) * 5;
+        dot.vy = (Math.random() - 0.5) * 5;
+        dot.mass = 0.1 + Math.random() * 0.9;  // Random mass affects how particles respond to forces
+        return dot;
+    }
+
+    /**
+     * Moves the ambient population toward the particle count a little each frame:
+     * missing particles are spawned (fading in), surplus ones are retired (fading out).
+     */
+    private maintainPopulation() {
+        let ambient = 0;
+        for (const dot of this.dots) {
+            if (dot.source === -1 && !dot.retiring) ambient++;
+        }
+
+        if (ambient < this.DOT_COUNT) {
+            const missing = Math.min(this.DOT_COUNT - ambient, this.MAX_SPAWN_PER_FRAME);
+            for (let i = 0; i < missing; i++) {
+                if (!this.spawnAmbient()) break;
+            }
+        } else if (ambient > this.DOT_COUNT) {
+            let surplus = ambient - this.DOT_COUNT;
+            for (let i = 0; i < this.dots.length && surplus > 0; i++) {
+                const dot = this.dots[i];
+                if (dot.source !== -1 || dot.retiring) continue;
+                dot.retiring = true;
+                dot.lifespan = dot.age + this.FADE_TIME;
+                surplus--;
+            }
         }
     }
 
-    private resizeCanvas() {
-        this.canvas.width = window.innerWidth;
-        this.canvas.height = window.innerHeight;
+    /**
+     * Releases a burst of short-lived particles from (x, y) moving outward.
+     * @param source Band index (or the band count for beat bursts), used for the hue
+     */
+    private emitBurst(x: number, y: number, count: number, hue: number, source: number) {
+        for (let i = 0; i < count; i++) {
+            const particle = this.pool.spawn(x, y);
+            if (!particle) return;
+            const angle = Math.random() * Math.PI * 2;
+            const speed = 2 + Math.random() * 6;
+            particle.vx = Math.cos(angle) * speed;
+            particle.vy = Math.sin(angle) * speed;
+            particle.mass = 0.1 + Math.random() * 0.9;
+            // Jitter lifespan and size so a burst doesn't vanish in lockstep
+            particle.lifespan = this.lifespan * (0.7 + Math.random() * 0.6);
+            particle.size = this.emitSize * (0.6 + Math.random() * 0.8);
+            particle.hue = (hue + (Math.random() - 0.5) * 30 + 360) % 360;
+            particle.source = source;
+        }
+    }
+
+    /**
+     * Fires the emitters: a burst from the centre on each beat, and a burst from a band's
+     * force center when that band's intensity jumps (a band onset).
+     */
+    private emitParticles(frame: AudioFrame) {
+        const cx = this.canvas.width / 2;
+        const cy = this.canvas.height / 2;
+        const bandCount = this.frequencyBands.length;
+
+        if ((this.emitterMode === 'beat' || this.emitterMode === 'both') && frame.beat.isBeat) {
+            // Beat bursts take their color from the timbre, like the ambient tint
+            const hue = 30 + frame.features.centroid * 200;
+            this.emitBurst(cx, cy, Math.round(this.burstSize * (0.5 + frame.beat.strength)), hue, bandCount);
+        }
+
+        if (this.emitterMode === 'bands' || this.emitterMode === 'both') {
+            this.forceField.getCenters().forEach((center, i) => {
+                const previous = this.previousBandIntensity[i] || 0;
+                if (center.intensity - previous > this.BAND_ONSET_RISE) {
+                    const count = Math.round(this.burstSize * 0.25 * (1 + center.intensity));
+                    this.emitBurst(center.x, center.y, count, (i / bandCount) * 360, i);
+                }
+            });
+        }
+        this.previousBandIntensity = this.forceField.getCenters().map(center => center.intensity);
     }
 
     /**
-     * Calculates Euclidean distance between two dots.
-     * Numerical method: Vector distance calculation
+     * Opacity of a particle from its age: emitted particles follow the selected
+     * opacity-over-life curve, ambient ones fade in on spawn and out when retired.
      */
-    private distance(dot1: any, dot2: any) {
-        const dx = dot1.x - dot2.x;
-        const dy = dot1.y - dot2.y;
-        return Math.sqrt(dx * dx + dy * dy);
+    private getOpacity(dot: Particle): number {
+        if (dot.source !== -1) {
+            return evaluateLifeCurve(this.opacityCurve, dot.age / dot.lifespan);
+        }
+        const fadeIn = Math.min(1, dot.age / this.FADE_TIME);
+        const fadeOut = dot.retiring ? Math.max(0, (dot.lifespan - dot.age) / this.FADE_TIME) : 1;
+        return Math.min(fadeIn, fadeOut);
     }
 
     /**
@@ -97,173 +541,397 @@ export class CanvasParticleSystem {
      * Uses the cross product method for area calculation.
      * Numerical method: Geometric calculation using determinants
      */
-    private triangleArea(dot1: any, dot2: any, dot3: any) {
+    private triangleArea(dot1: { x: number, y: number }, dot2: { x: number, y: number }, dot3: { x: number, y: number }) {
         return Math.abs(dot1.x * (dot2.y - dot3.y) + dot2.x * (dot3.y - dot1.y) + dot3.x * (dot1.y - dot2.y)) / 2;
     }
 
+    /**
+     * Tint of the ambient population follows brightness: dull sounds are warm, bright sounds are cool.
+     */
+    private getAmbientHue(): number {
+        const centroid = this.frame ? this.frame.features.centroid : 0;
+        return Math.round(30 + centroid * 200);
+    }
+
+    private getAmbientLightness(): number {
+        const centroid = this.frame ? this.frame.features.centroid : 0;
+        return Math.round(100 - centroid * 20);
+    }
+
     private drawDots() {
         this.ctx.fillStyle = this.backgroundColor;
         this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
 
+        // Dots swell on the beat and relax back as the pulse decays
+        const radius = this.RADIUS * (1 + this.getBeatPulse());
+        const ambientHue = this.getAmbientHue();
+        const ambientLightness = this.getAmbientLightness();
+
+        // A fill per dot dominates the frame time at high counts, so dots are batched into
+        // one path per (hue, lightness, opacity) bucket
+        const batches: { [key: string]: { path: Path2D, color: string } } = {};
+        const levels = this.OPACITY_LEVELS;
+
+        // Numerical method: Linear interpolation between the last two physics states
+        const alpha = this.timestep.getAlpha();
+        for (const dot of this.dots) {
+            const opacity = this.getOpacity(dot);
+            const level = Math.round(opacity * (levels - 1));
+            if (level === 0) continue;
+
+            const hue = dot.hue < 0 ? ambientHue : Math.round(dot.hue / 10) * 10;
+            const lightness = dot.hue < 0 ? ambientLightness : 60;
+            const key = `${hue}|${lightness}|${level}`;
+            let batch = batches[key];
+            if (!batch) {
+                batch = { path: new Path2D(), color: `hsla(${hue}, 100%, ${lightness}%, ${level / (levels - 1)})` };
+                batches[key] = batch;
+            }
+
+            const x = dot.prevX + (dot.x - dot.prevX) * alpha;
+            const y = dot.prevY + (dot.y - dot.prevY) * alpha;
+            const r = radius * dot.size;
+            batch.path.moveTo(x + r, y);
+            batch.path.arc(x, y, r, 0, Math.PI * 2);
+        }
+
+        Object.keys(batches).forEach(key => {
+            this.ctx.fillStyle = batches[key].color;
+            this.ctx.fill(batches[key].path);
+        });
+    }
+
+    /**
+     * Draws each particle's recent positions as a line fading toward its tail.
+     */
+    private drawTrails() {
+        const capacity = this.pool.getTrailCapacity();
+        const ambientHue = this.getAmbientHue();
+        this.ctx.lineWidth = 1;
+
         for (const dot of this.dots) {
-            this.ctx.fillStyle = '#FFFFFF';
+            const points = Math.min(dot.trailCount, this.trailLength);
+            if (points < 2) continue;
+            const opacity = this.getOpacity(dot);
+            if (opacity <= 0) continue;
+
+            this.ctx.strokeStyle = `hsla(${dot.hue < 0 ? ambientHue : dot.hue}, 100%, 60%, ${opacity * 0.5})`;
             this.ctx.beginPath();
-            this.ctx.arc(dot.x, dot.y, this.RADIUS, 0, Math.PI * 2);
-            this.ctx.fill();
+            this.ctx.moveTo(dot.x, dot.y);
+            for (let k = 0; k < points; k++) {
+                const slot = (dot.trailHead - k + capacity) % capacity;
+                this.ctx.lineTo(dot.trail[slot * 2], dot.trail[slot * 2 + 1]);
+            }
+            this.ctx.stroke();
         }
     }
 
-    private drawConnections() {
-        for (let i = 0; i < this.dots.length; i++) {
-            for (let j = i + 1; j < this.dots.length; j++) {
-                const dist1 = this.distance(this.dots[i], this.dots[j]);
-                if (dist1 < this.DIST_THRESH_MAX) {
-                    for (let k = j + 1; k < this.dots.length; k++) {
-                        const dist2 = this.distance(this.dots[j], this.dots[k]);
-                        const dist3 = this.distance(this.dots[k], this.dots[i]);
-                        if (dist2 < this.DIST_THRESH_MAX && dist3 < this.DIST_THRESH_MAX) {
-                            const area = this.triangleArea(this.dots[i], this.dots[j], this.dots[k]);
-                            const maxArea = (this.DIST_THRESH_MAX * this.DIST_THRESH_MAX) / 4;
-                            // Numerical method: Linear interpolation for opacity
-                            const opacity = (1 - (area / maxArea)) * 0.02;
-
-                            this.ctx.fillStyle = `rgba(255, 255, 255, ${opacity})`;
-                            this.ctx.beginPath();
-                            this.ctx.moveTo(this.dots[i].x, this.dots[i].y);
-                            this.ctx.lineTo(this.dots[j].x, this.dots[j].y);
-                            this.ctx.lineTo(this.dots[k].x, this.dots[k].y);
-                            this.ctx.closePath();
-                            this.ctx.fill();
-                        }
-                    }
-
-                    // Numerical method: Linear interpolation for line opacity
-                    this.ctx.strokeStyle = `rgba(255, 255, 255, ${1 - dist1 / this.DIST_THRESH_MAX})`;
-                    this.ctx.beginPath();
-                    this.ctx.moveTo(this.dots[i].x, this.dots[i].y);
-                    this.ctx.lineTo(this.dots[j].x, this.dots[j].y);
-                    this.ctx.stroke();
-                }
+    /**
+     * Maximum length of a connection. Up to CONNECTION_REFERENCE_COUNT particles it is
+     * DIST_THRESH_MAX; beyond that it shrinks with 1/sqrt(count), which keeps the expected
+     * number of neighbors per particle (proportional to density * distance²) constant.
+     */
+    private getConnectionDistance(): number {
+        return this.DIST_THRESH_MAX * Math.min(1, Math.sqrt(this.CONNECTION_REFERENCE_COUNT / Math.max(1, this.dots.length)));
+    }
+
+    /**
+     * Finds lines between nearby particles and triangles between mutually close triples,
+     * with an opacity (0-1) for each. Neighbors come from the spatial hash, so the cost grows
+     * with the number of connections rather than with count³.
+     */
+    private forEachConnection(
+        onLine: (a: Particle, b: Particle, opacity: number) => void,
+        onTriangle: (a: Particle, b: Particle, c: Particle, opacity: number) => void
+    ) {
+        const threshold = this.getConnectionDistance();
+        const thresholdSquared = threshold * threshold;
+        const maxArea = (threshold * threshold) / 4;
+        const dots = this.dots;
+        this.connectionHash.setCellSize(threshold);
+        this.connectionHash.build(dots, this.canvas.width, this.canvas.height);
+        let triangles = 0;
+
+        this.connectionHash.forEachPair(threshold, (i, j, dx, dy, distanceSquared) => {
+            const a = dots[i];
+            const b = dots[j];
+
+            // Third vertices: neighbors of j (k > j) that are also close to i
+            if (triangles < this.MAX_TRIANGLES) {
+                this.connectionHash.forEachNeighbor(b.x, b.y, threshold, k => {
+                    if (k <= j || triangles >= this.MAX_TRIANGLES) return;
+                    const c = dots[k];
+                    const ex = c.x - a.x;
+                    const ey = c.y - a.y;
+                    if (ex * ex + ey * ey >= thresholdSquared) return;
+
+                    const area = this.triangleArea(a, b, c);
+                    // Numerical method: Linear interpolation for opacity
+                    onTriangle(a, b, c, Math.max(0, 1 - area / maxArea));
+                    triangles++;
+                });
             }
+
+            // Numerical method: Linear interpolation for line opacity
+            onLine(a, b, 1 - Math.sqrt(distanceSquared) / threshold);
+        });
+    }
+
+    /**
+     * Draws the connections batched into one path per opacity level.
+     */
+    private drawConnections() {
+        const levels = this.OPACITY_LEVELS;
+        const linePaths: Path2D[] = [];
+        const trianglePaths: Path2D[] = [];
+        for (let l = 0; l < levels; l++) {
+            linePaths.push(new Path2D());
+            trianglePaths.push(new Path2D());
+        }
+
+        this.forEachConnection((a, b, opacity) => {
+            const path = linePaths[Math.round(opacity * (levels - 1))];
+            path.moveTo(a.x, a.y);
+            path.lineTo(b.x, b.y);
+        }, (a, b, c, opacity) => {
+            const path = trianglePaths[Math.round(opacity * (levels - 1))];
+            path.moveTo(a.x, a.y);
+            path.lineTo(b.x, b.y);
+            path.lineTo(c.x, c.y);
+            path.closePath();
+        });
+
+        for (let l = 1; l < levels; l++) {
+            const opacity = l / (levels - 1);
+            this.ctx.fillStyle = `rgba(255, 255, 255, ${opacity * 0.02})`;
+            this.ctx.fill(trianglePaths[l]);
+            this.ctx.strokeStyle = `rgba(255, 255, 255, ${opacity})`;
+            this.ctx.stroke(linePaths[l]);
         }
     }
 
     /**
      * Updates frequency band intensities from audio analyzer data.
-     * Numerical method: Frequency domain sampling and normalization
+     * Numerical method: Bin aggregation over each band's frequency range, normalized to 0-1
      */
     private updateFFTForces() {
-        if (!this.audioAnalyser) return;
+        if (!this.frame) return;
 
-        const freqData = new Uint8Array(this.audioAnalyser.analyser.frequencyBinCount);
-        this.audioAnalyser.analyser.getByteFrequencyData(freqData);
+        const values = this.bandAnalyzer.update(this.frame.frequencyData, this.frame.sampleRate, 255, this.frame.dt);
+        // The layout may have changed with the spectrum size (e.g. zero-padding)
+        if (values.length !== this.frequencyBands.length) {
+            this.initializeFrequencyBands();
+        }
 
         this.frequencyBands.forEach((band, i) => {
-            // Map frequency to FFT bin index using linear interpolation
-            const binIndex = Math.floor((band.centerFreq / (this.audioAnalyser.analyser.context.sampleRate/2)) * freqData.length);
-            // Normalize intensity to 0-1 range
-            band.intensity = freqData[binIndex] / 255.0;  
+            band.intensity = values[i];
         });
     }
 
     /**
-     * Applies forces to a particle based on frequency band intensities.
+     * Acceleration of a particle at a trial position and velocity, evaluated by the integrators.
      * Implements several numerical methods:
-     * - Inverse square law for force calculation (similar to gravity/electrostatic forces)
-     * - Vector force accumulation
+     * - Band force field (layout, law and polarity are configurable)
      * - Acceleration calculation using F = ma
-     * - Explicit Euler method for velocity integration (first-order)
-     * - Velocity damping and limiting
+     * - Linear restoring acceleration when particles stray too far
+     * - Linear drag, the continuous form of per-frame exponential damping
      */
-    private applyFFTForces(dot: { x: number; y: number; vx: number; vy: number; mass: number }) {
-        let totalFx = 0;
-        let totalFy = 0;
-
+    private acceleration: AccelerationFunction = (dot: ParticleState, x: number, y: number, vx: number, vy: number, out: Acceleration) => {
         // Apply force field forces
-        for (let i = 0; i < this.frequencyBands.length; i++) {
-            const band = this.frequencyBands[i];
-            const angle = (2 * Math.PI * i) / this.NUM_FREQUENCY_BANDS;
-            const radius = Math.min(this.canvas.width, this.canvas.height) * 0.25;  // Using 25% of screen size
-            const centerX = this.canvas.width/2 + radius * Math.cos(angle);
-            const centerY = this.canvas.height/2 + radius * Math.sin(angle);
-
-            const dx = centerX - dot.x;
-            const dy = centerY - dot.y;
-            const distanceSquared = dx * dx + dy * dy;
-            const distance = Math.sqrt(distanceSquared);
+        this.forceField.computeForce(x, y, this.force);
+
+        // Numerical method: Acceleration calculation using Newton's Second Law (F = ma)
+        let ax = this.force.fx / dot.mass;
+        let ay = this.force.fy / dot.mass;
+
+        // Add gentle inward pull when particles stray too far
+        // Numerical method: Linear force scaling based on distance
+        const cx = this.canvas.width/2 - x;
+        const cy = this.canvas.height/2 - y;
+        const distFromCenter = Math.sqrt(cx * cx + cy * cy);
+        const maxDist = Math.min(this.canvas.width, this.canvas.height) * 0.4;  // Start pulling back at 40% of screen size
+        if (distFromCenter > maxDist) {
+            const pullFactor = (distFromCenter - maxDist) * this.INWARD_PULL / distFromCenter;
+            ax += cx * pullFactor;
+            ay += cy * pullFactor;
+        }
+
+        // Numerical method: Linear drag a = -gamma*v, with gamma chosen so that
+        // one frame of drag alone multiplies the velocity by (1 - damping)
+        const gamma = -Math.log(1 - this.damping);
+        out.ax = ax - gamma * vx;
+        out.ay = ay - gamma * vy;
+    };
+
+    /**
+     * Total mechanical energy of the particles in the current force field.
+     * Kinetic: sum of m*v²/2. Potential: the force field's potential (zero for the
+     * non-conservative vortex and flow laws) plus m*k*d²/2 for the inward pull beyond 40%
+     * of the screen. With damping at zero, a steady field and a conservative law this is
+     * conserved by the exact solution, so its drift measures the integrator's error.
+     */
+    private computeEnergy(): { kinetic: number, potential: number } {
+        let kinetic = 0;
+        let potential = 0;
+        const maxDist = Math.min(this.canvas.width, this.canvas.height) * 0.4;
 
-            // Skip if we're too close to avoid extreme forces
-            if (distance < 1) continue;
+        for (const dot of this.dots) {
+            kinetic += 0.5 * dot.mass * (dot.vx * dot.vx + dot.vy * dot.vy);
 
-            // Numerical method: Inverse square law for force calculation
-            // Similar to gravitational or electrostatic forces
-            const forceMag = this.FORCE_CONSTANT * band.intensity / (distanceSquared);
+            potential += this.forceField.computePotential(dot.x, dot.y);
 
-            // Normalize direction vectors
-            const dirX = dx / distance;
-            const dirY = dy / distance;
+            const cx = this.canvas.width/2 - dot.x;
+            const cy = this.canvas.height/2 - dot.y;
+            const beyond = Math.sqrt(cx * cx + cy * cy) - maxDist;
+            if (beyond > 0) {
+                potential += 0.5 * dot.mass * this.INWARD_PULL * beyond * beyond;
+            }
+        }
+        return { kinetic, potential };
+    }
 
-            // Numerical method: Vector force accumulation
-            totalFx += dirX * forceMag;
-            totalFy += dirY * forceMag;
+    /**
+     * Particle-particle accelerations from the interaction hash:
+     * - Separation: linear repulsion that falls to zero at the interaction radius
+     * - Cohesion: pull toward the average position of neighbors (boids-style)
+     * Results are left in neighborAx / neighborAy.
+     */
+    private computeNeighborForces() {
+        const n = this.dots.length;
+        if (this.neighborAx.length < n) {
+            this.neighborAx = new Float32Array(n);
+            this.neighborAy = new Float32Array(n);
+            this.neighborOffsetX = new Float32Array(n);
+            this.neighborOffsetY = new Float32Array(n);
+            this.neighborCount = new Uint16Array(n);
         }
+        this.neighborAx.fill(0, 0, n);
+        this.neighborAy.fill(0, 0, n);
+        this.neighborOffsetX.fill(0, 0, n);
+        this.neighborOffsetY.fill(0, 0, n);
+        this.neighborCount.fill(0, 0, n);
 
-        // Numerical method: Acceleration calculation using Newton's Second Law (F = ma)
-        const ax = totalFx / dot.mass;
-        const ay = totalFy / dot.mass;
-        
-        // Numerical method: Explicit Euler integration for velocity update (first-order)
-        // v(t+dt) = v(t) + a(t)*dt  (with dt = 1 frame)
-        dot.vx += ax;
-        dot.vy += ay;
+        const radius = this.interactionRadius;
+        this.interactionHash.build(this.dots, this.canvas.width, this.canvas.height);
+        this.interactionHash.forEachPair(radius, (i, j, dx, dy, distanceSquared) => {
+            const distance = Math.sqrt(distanceSquared);
+            if (distance < 1e-6) return;
+
+            if (this.separation > 0) {
+                // Equal and opposite forces; acceleration scales with 1/m
+                const force = this.separation * this.SEPARATION_ACCEL * (1 - distance / radius);
+                const fx = (dx / distance) * force;
+                const fy = (dy / distance) * force;
+                this.neighborAx[i] -= fx / this.dots[i].mass;
+                this.neighborAy[i] -= fy / this.dots[i].mass;
+                this.neighborAx[j] += fx / this.dots[j].mass;
+                this.neighborAy[j] += fy / this.dots[j].mass;
+            }
 
-        // Numerical method: Exponential damping to simulate energy loss
-        dot.vx *= this.DAMPING;
-        dot.vy *= this.DAMPING;
+            this.neighborOffsetX[i] += dx;
+            this.neighborOffsetY[i] += dy;
+            this.neighborOffsetX[j] -= dx;
+            this.neighborOffsetY[j] -= dy;
+            this.neighborCount[i]++;
+            this.neighborCount[j]++;
+        });
 
-        // Numerical method: Velocity limiting to prevent numerical instability
-        const speedSquared = dot.vx * dot.vx + dot.vy * dot.vy;
-        const maxSpeed = 10;
-        if (speedSquared > maxSpeed * maxSpeed) {
-            const scale = maxSpeed / Math.sqrt(speedSquared);
-            dot.vx *= scale;
-            dot.vy *= scale;
+        if (this.cohesion > 0) {
+            const rate = this.cohesion * this.COHESION_RATE;
+            for (let i = 0; i < n; i++) {
+                const count = this.neighborCount[i];
+                if (count === 0) continue;
+                // Numerical method: Mean neighbor offset = local centre of mass relative to the particle
+                this.neighborAx[i] += (this.neighborOffsetX[i] / count) * rate;
+                this.neighborAy[i] += (this.neighborOffsetY[i] / count) * rate;
+            }
         }
     }
 
     /**
-     * Updates particle positions and velocities based on forces.
-     * This is the main physics simulation loop implementing several numerical methods:
-     * - Force application
-     * - Explicit Euler integration for position updates (first-order)
-     * - Boundary collision detection and response
+     * Numerical method: Pairwise collision resolution
+     * Overlapping particles are pushed apart along the contact normal in inverse proportion
+     * to their mass (positional projection), and the approaching component of their relative
+     * velocity is reflected with the restitution coefficient, conserving momentum.
      */
-    private updateDots() {
-        this.updateFFTForces();
+    private resolveCollisions() {
+        const contact = this.RADIUS * 2;
+        this.collisionHash.setCellSize(contact);
+        this.collisionHash.build(this.dots, this.canvas.width, this.canvas.height);
+        this.collisionHash.forEachPair(contact, (i, j, dx, dy, distanceSquared) => {
+            const distance = Math.sqrt(distanceSquared);
+            if (distance < 1e-6) return;
+            const a = this.dots[i];
+            const b = this.dots[j];
+            const nx = dx / distance;
+            const ny = dy / distance;
+            const invA = 1 / a.mass;
+            const invB = 1 / b.mass;
+            const invSum = invA + invB;
 
-        for (const dot of this.dots) {
-            this.applyFFTForces(dot);
-
-            // Add gentle inward pull when particles stray too far
-            // Numerical method: Distance-based force calculation
-            const dx = this.canvas.width/2 - dot.x;
-            const dy = this.canvas.height/2 - dot.y;
-            const distFromCenter = Math.sqrt(dx * dx + dy * dy);
-            const maxDist = Math.min(this.canvas.width, this.canvas.height) * 0.4;  // Start pulling back at 40% of screen size
-            
-            if (distFromCenter > maxDist) {
-                // Numerical method: Linear force scaling based on distance
-                const pullFactor = (distFromCenter - maxDist) * this.INWARD_PULL / distFromCenter;
-                dot.vx += dx * pullFactor;
-                dot.vy += dy * pullFactor;
+            const overlap = contact - distance;
+            a.x -= nx * overlap * invA / invSum;
+            a.y -= ny * overlap * invA / invSum;
+            b.x += nx * overlap * invB / invSum;
+            b.y += ny * overlap * invB / invSum;
+
+            const approach = (b.vx - a.vx) * nx + (b.vy - a.vy) * ny;
+            if (approach >= 0) return;  // Already separating
+            const impulse = -(1 + this.EDGE_BOUNCE) * approach / invSum;
+            a.vx -= impulse * invA * nx;
+            a.vy -= impulse * invA * ny;
+            b.vx += impulse * invB * nx;
+            b.vy += impulse * invB * ny;
+        });
+    }
+
+    /**
+     * Advances every particle by one fixed physics step.
+     * - Neighbor forces, applied as a velocity kick before integration (operator splitting)
+     * - Integration with the selected method
+     * - Turbulence as a random velocity perturbation
+     * - Velocity limiting and boundary collision response
+     *
+     * @param stepSeconds Step length in seconds; converted to frames, the simulation's time unit
+     */
+    private stepDots(stepSeconds: number) {
+        const dt = stepSeconds / this.FRAME_TIME;
+        const integrator = getIntegrator(this.integratorType);
+        // Noisy, flat spectra stir the particles; tonal material leaves them calm
+        const turbulence = this.frame ? this.frame.features.flatness * this.TURBULENCE : 0;
+        // Numerical method: Euler-Maruyama; a random walk's spread grows with sqrt(dt)
+        const kick = turbulence * Math.sqrt(dt);
+        const interacting = this.separation > 0 || this.cohesion > 0;
+        if (interacting) {
+            this.computeNeighborForces();
+        }
+
+        for (let i = 0; i < this.dots.length; i++) {
+            const dot = this.dots[i];
+            dot.prevX = dot.x;
+            dot.prevY = dot.y;
+
+            // Numerical method: Operator splitting; neighbor forces are held constant over the step
+            // (one hash query per step) while the integrator handles the smooth field forces
+            if (interacting) {
+                dot.vx += this.neighborAx[i] * dt;
+                dot.vy += this.neighborAy[i] * dt;
             }
 
-            // Numerical method: Explicit Euler integration for position update (first-order)
-            // x(t+dt) = x(t) + v(t)*dt  (with dt = 1 frame)
-            // This is a first-order approximation of the solution to the differential equation of motion
-            // More accurate methods would include RK4 (4th-order Runge-Kutta) or Velocity Verlet
-            dot.x += dot.vx;
-            dot.y += dot.vy;
+            integrator.step(dot, dt, this.acceleration);
+
+            if (kick > 0) {
+                dot.vx += (Math.random() - 0.5) * kick;
+                dot.vy += (Math.random() - 0.5) * kick;
+            }
+
+            // Numerical method: Velocity limiting to prevent numerical instability
+            const speedSquared = dot.vx * dot.vx + dot.vy * dot.vy;
+            if (speedSquared > this.MAX_SPEED * this.MAX_SPEED) {
+                const scale = this.MAX_SPEED / Math.sqrt(speedSquared);
+                dot.vx *= scale;
+                dot.vy *= scale;
+            }
 
             // Numerical method: Boundary collision detection and response
             // Implements coefficient of restitution (EDGE_BOUNCE) for energy loss during collision
@@ -283,58 +951,154 @@ export class CanvasParticleSystem {
                 dot.vy = -Math.abs(dot.vy) * this.EDGE_BOUNCE;
             }
         }
+
+        if (this.collisions) {
+            this.resolveCollisions();
+        }
+    }
+
+    /**
+     * Updates band forces, then runs as many fixed physics steps as the frame time covers.
+     */
+    private updateDots(frameTime: number) {
+        this.updateFFTForces();
+        const intensities = this.frequencyBands.map(band => band.intensity);
+        this.forceField.update(intensities, this.canvas.width, this.canvas.height, frameTime);
+        this.timestep.advance(frameTime, step => this.stepDots(step));
+    }
+
+    private recordEnergy(time: number) {
+        const energy = this.computeEnergy();
+        this.energyHistory.push({ time, ...energy });
+        const cutoff = time - this.ENERGY_HISTORY_SECONDS;
+        while (this.energyHistory.length > 0 && this.energyHistory[0].time < cutoff) {
+            this.energyHistory.shift();
+        }
+    }
+
+    /**
+     * Readout of kinetic, potential and total energy with a graph of the total over the last few seconds.
+     */
+    private drawEnergy() {
+        const history = this.energyHistory;
+        if (history.length === 0) return;
+
+        const latest = history[history.length - 1];
+        const first = history[0];
+        const total = latest.kinetic + latest.potential;
+        const initial = first.kinetic + first.potential;
+        const span = latest.time - first.time;
+        // Numerical method: Average relative drift rate over the history window
+        const drift = span > 0 && Math.abs(initial) > 1e-9 ? ((total - initial) / Math.abs(initial)) * 100 / span : 0;
+
+        const x = 20;
+        const y = 20;
+        const width = 260;
+        const height = 60;
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        this.ctx.fillRect(x - 10, y - 10, width + 20, height + 70);
+
+        this.ctx.fillStyle = 'white';
+        this.ctx.font = '12px Arial';
+        this.ctx.fillText(`${INTEGRATOR_LABELS[this.integratorType]} @ ${Math.round(1 / this.timestep.getStep())} Hz`, x, y + 4);
+        this.ctx.fillText(`E ${total.toFixed(2)}  (K ${latest.kinetic.toFixed(2)}, U ${latest.potential.toFixed(2)})`, x, y + 20);
+        this.ctx.fillText(`Drift ${drift >= 0 ? '+' : ''}${drift.toFixed(2)}%/s`, x, y + 36);
+
+        // Sparkline of total energy, scaled to its own range
+        let min = Infinity;
+        let max = -Infinity;
+        history.forEach(h => {
+            const e = h.kinetic + h.potential;
+            if (e < min) min = e;
+            if (e > max) max = e;
+        });
+        const range = Math.max(max - min, 1e-9);
+        const top = y + 48;
+        this.ctx.strokeStyle = '#00aaff';
+        this.ctx.lineWidth = 1;
+        this.ctx.beginPath();
+        history.forEach((h, i) => {
+            const px = x + ((h.time - first.time) / this.ENERGY_HISTORY_SECONDS) * width;
+            const py = top + height - ((h.kinetic + h.potential - min) / range) * height;
+            if (i === 0) {
+                this.ctx.moveTo(px, py);
+            } else {
+                this.ctx.lineTo(px, py);
+            }
+        });
+        this.ctx.stroke();
     }
 
-    public setBackgroundColor(color: string) {
-        this.backgroundColor = color;
+    /**
+     * Background brightens from dark blue with overall audio intensity.
+     */
+    private updateBackgroundColor(intensity: number) {
+        // Base color: dark blue (rgb(0, 0, 50))
+        const baseR = 0; // Red component stays constant
+        const baseG = 0; // Green component stays constant
+        const baseB = 50; // Blue component starts at 50
+
+        const bgR = Math.min(50, baseR + intensity * 50); // Red increases slightly
+        const bgG = Math.min(50, baseG + intensity * 50); // Green increases slightly
+        const bgB = Math.min(255, baseB + intensity * 200); // Blue becomes brighter
+
+        this.backgroundRgb = [Math.floor(bgR), Math.floor(bgG), Math.floor(bgB)];
+        this.backgroundColor = `rgb(${this.backgroundRgb[0]}, ${this.backgroundRgb[1]}, ${this.backgroundRgb[2]})`;
     }
 
     /**
      * Visualizes the force fields created by frequency bands.
-     * Uses radial gradients to represent force intensity.
+     * Uses radial gradients to represent force intensity; repelling centers get a ring.
      */
     private drawForceFields() {
-        if (!this.audioAnalyser) return;
+        if (!this.frame) return;
 
-        this.frequencyBands.forEach((band, i) => {
-            const angle = (2 * Math.PI * i) / this.NUM_FREQUENCY_BANDS;
-            const radius = Math.min(this.canvas.width, this.canvas.height) * 0.25;  // Using 25% of screen size
-            const centerX = this.canvas.width/2 + radius * Math.cos(angle);
-            const centerY = this.canvas.height/2 + radius * Math.sin(angle);
+        const centers = this.forceField.getCenters();
+        const radius = Math.min(this.canvas.width, this.canvas.height) * 0.25;  // Using 25% of screen size
+        centers.forEach((center, i) => {
+            const centerX = center.x;
+            const centerY = center.y;
 
             // Create a radial gradient
             const gradient = this.ctx.createRadialGradient(
                 centerX, centerY, 0,
-                centerX, centerY, radius * band.intensity
+                centerX, centerY, Math.max(1e-3, radius * center.intensity)
             );
 
             // Color based on frequency (low=red, mid=green, high=blue)
             // Numerical method: Linear mapping from frequency index to color hue
-            const hue = (i / this.NUM_FREQUENCY_BANDS) * 360;
-            gradient.addColorStop(0, `hsla(${hue}, 100%, 50%, ${band.intensity * 0.5})`);
+            const hue = (i / centers.length) * 360;
+            gradient.addColorStop(0, `hsla(${hue}, 100%, 50%, ${center.intensity * 0.5})`);
             gradient.addColorStop(1, `hsla(${hue}, 100%, 50%, 0)`);
 
             // Draw the force field
             this.ctx.beginPath();
             this.ctx.fillStyle = gradient;
-            this.ctx.arc(centerX, centerY, radius * band.intensity, 0, Math.PI * 2);
+            this.ctx.arc(centerX, centerY, radius * center.intensity, 0, Math.PI * 2);
             this.ctx.fill();
 
-            // Draw center point
+            // Draw center point, bright enough to grab even when the band is silent
             this.ctx.beginPath();
-            this.ctx.fillStyle = `hsla(${hue}, 100%, 50%, ${band.intensity})`;
+            this.ctx.fillStyle = `hsla(${hue}, 100%, 50%, ${0.3 + center.intensity * 0.7})`;
             this.ctx.arc(centerX, centerY, 4, 0, Math.PI * 2);
             this.ctx.fill();
+
+            if (center.polarity < 0) {
+                this.ctx.beginPath();
+                this.ctx.strokeStyle = `hsla(${hue}, 100%, 70%, 0.8)`;
+                this.ctx.lineWidth = 1.5;
+                this.ctx.arc(centerX, centerY, 9, 0, Math.PI * 2);
+                this.ctx.stroke();
+            }
         });
     }
 
     /**
-     * Set the number of particles and reinitialize the dots array.
+     * Set the size of the ambient population. Existing particles are kept; the
+     * difference fades in or out over the next frames.
      */
     public setDotCount(count: number) {
-        this.DOT_COUNT = count;
-        this.dots = [];
-        this.initializeDots();
+        this.DOT_COUNT = Math.max(0, Math.min(this.MAX_PARTICLES, Math.round(count)));
     }
 
     /**
@@ -359,15 +1123,130 @@ export class CanvasParticleSystem {
     }
 
     /**
-     * Main animation loop that updates and renders the particle system.
-     * This method should be called repeatedly, typically via requestAnimationFrame.
+     * Advances the simulation by one frame of audio.
+     */
+    public update(frame: AudioFrame) {
+        this.frame = frame;
+        if (frame.beat.isBeat) {
+            this.applyBeatKick(frame.beat.strength);
+        }
+        this.updateBackgroundColor(frame.intensity);
+        this.maintainPopulation();
+        this.updateDots(frame.dt);
+        this.emitParticles(frame);
+        this.pool.age(frame.dt);
+        if (this.trailLength > 0) {
+            this.dots.forEach(dot => this.pool.recordTrail(dot));
+        }
+        if (this.showEnergy) {
+            this.recordEnergy(frame.time);
+        }
+    }
+
+    /**
+     * Draws the current state of the particle system.
      */
-    public animate() {
-        this.updateDots();
+    public render() {
+        if (this.glRenderer) {
+            this.renderWebGL(this.glRenderer);
+            return;
+        }
         this.drawDots();
-        this.drawForceFields(); // Draw force fields before connections for better layering
+        if (this.trailLength > 0) {
+            this.drawTrails();
+        }
+        if (this.showFields) {
+            this.drawForceFields(); // Draw force fields before connections for better layering
+        }
         if (this.showConnections) {
             this.drawConnections();
         }
+        if (this.showEnergy) {
+            this.drawEnergy();
+        }
+    }
+
+    /**
+     * WebGL backend: dots, trails and connections on the GPU canvas, in the same order as the
+     * Canvas2D path; force fields and the energy readout on the transparent overlay above it.
+     */
+    private renderWebGL(renderer: WebGLParticleRenderer) {
+        const bg = this.backgroundRgb;
+        renderer.clear(bg[0], bg[1], bg[2]);
+
+        const radius = this.RADIUS * (1 + this.getBeatPulse());
+        const ambientHue = this.getAmbientHue();
+        const ambientLightness = this.getAmbientLightness() / 100;
+        const alpha = this.timestep.getAlpha();
+        const data = this.circleData;
+        let count = 0;
+        for (const dot of this.dots) {
+            const opacity = this.getOpacity(dot);
+            if (opacity <= 0) continue;
+
+            // Numerical method: Linear interpolation between the last two physics states
+            const o = count * CIRCLE_STRIDE;
+            data[o] = dot.prevX + (dot.x - dot.prevX) * alpha;
+            data[o + 1] = dot.prevY + (dot.y - dot.prevY) * alpha;
+            data[o + 2] = radius * dot.size;
+            data[o + 3] = dot.hue < 0 ? ambientHue : dot.hue;
+            data[o + 4] = 1;
+            data[o + 5] = dot.hue < 0 ? ambientLightness : 0.6;
+            data[o + 6] = opacity;
+            count++;
+        }
+        renderer.drawCircles(data, count);
+
+        if (this.trailLength > 0) {
+            this.lineVertices.reset();
+            const capacity = this.pool.getTrailCapacity();
+            const ambientHue = this.getAmbientHue();
+            for (const dot of this.dots) {
+                const points = Math.min(dot.trailCount, this.trailLength);
+                if (points < 2) continue;
+                const opacity = this.getOpacity(dot) * 0.5;
+                if (opacity <= 0) continue;
+
+                const hue = dot.hue < 0 ? ambientHue : dot.hue;
+                let x = dot.x;
+                let y = dot.y;
+                for (let k = 0; k < points; k++) {
+                    const slot = (dot.trailHead - k + capacity) % capacity;
+                    const nx = dot.trail[slot * 2];
+                    const ny = dot.trail[slot * 2 + 1];
+                    this.lineVertices.push(x, y, hue, 1, 0.6, opacity);
+                    this.lineVertices.push(nx, ny, hue, 1, 0.6, opacity);
+                    x = nx;
+                    y = ny;
+                }
+            }
+            renderer.drawLines(this.lineVertices.data, this.lineVertices.getVertexCount());
+        }
+
+        if (this.showConnections) {
+            this.lineVertices.reset();
+            this.triangleVertices.reset();
+            const lines = this.lineVertices;
+            const triangles = this.triangleVertices;
+            this.forEachConnection((a, b, opacity) => {
+                lines.push(a.x, a.y, 0, 0, 1, opacity);
+                lines.push(b.x, b.y, 0, 0, 1, opacity);
+            }, (a, b, c, opacity) => {
+                const fill = opacity * 0.02;
+                triangles.push(a.x, a.y, 0, 0, 1, fill);
+                triangles.push(b.x, b.y, 0, 0, 1, fill);
+                triangles.push(c.x, c.y, 0, 0, 1, fill);
+            });
+            renderer.drawTriangles(triangles.data, triangles.getVertexCount());
+            renderer.drawLines(lines.data, lines.getVertexCount());
+        }
+
+        this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+        if (this.showFields) {
+            this.drawForceFields();
+        }
+        if (this.showEnergy) {
+            this.drawEnergy();
+        }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,378 @@
+import { AudioFrame } from './audio/audioFrame';
+import { ColormapName, COLORMAPS, getColormap } from './colormaps';
+import { ParameterDefinition, ParameterValue, Visualizer, createVisualizerCanvas } from './visualizer';
+
+export type FrequencyScale = 'linear' | 'log';
+
+/**
+ * Scrolling spectrogram (waterfall): time runs right to left, frequency bottom to top,
+ * level is color.
+ *
+ * History lives in an offscreen canvas used as a ring buffer of columns: each frame
+ * writes only the new columns at the write position, and rendering draws the buffer in
+ * two slices so the newest column lands at the right edge. Nothing is ever shifted.
+ *
+ * Numerical methods:
+ * - Byte spectrum converted back to dB with the analyser's range, then mapped onto the
+ *   display range [floor, ceiling] so contrast can be tuned independently of the analyser
+ * - Row-to-bin table: rows narrower than a bin interpolate linearly between bins, rows
+ *   spanning several bins take their maximum so narrow peaks don't vanish
+ */
+export class CanvasSpectrogramVisualizer implements Visualizer {
+    static readonly PARAMETERS: ParameterDefinition[] = [
+        {
+            key: 'frequencyScale', label: 'Frequency Axis', type: 'select', default: 'log', group: 'Spectrogram',
+            options: [
+                { value: 'log', label: 'Logarithmic' },
+                { value: 'linear', label: 'Linear' }
+            ]
+        },
+        { key: 'minFrequency', label: 'Min Frequency', type: 'number', min: 10, max: 2000, scale: 'log', unit: ' Hz', default: 20, group: 'Spectrogram' },
+        { key: 'maxFrequency', label: 'Max Frequency', type: 'number', min: 500, max: 24000, scale: 'log', unit: ' Hz', default: 20000, group: 'Spectrogram' },
+        { key: 'floorDb', label: 'Floor', type: 'number', min: -140, max: -40, step: 1, unit: ' dB', default: -100, group: 'Spectrogram' },
+        { key: 'ceilingDb', label: 'Ceiling', type: 'number', min: -80, max: 0, step: 1, unit: ' dB', default: -30, group: 'Spectrogram' },
+        {
+            key: 'colormap', label: 'Colormap', type: 'select', default: 'viridis', group: 'Spectrogram',
+            options: COLORMAPS.map(name => ({ value: name, label: name.charAt(0).toUpperCase() + name.slice(1) }))
+        },
+        { key: 'scrollSpeed', label: 'Scroll Speed', type: 'number', min: 10, max: 600, step: 10, unit: ' px/s', default: 120, group: 'Spectrogram' },
+        { key: 'showAxes', label: 'Show Axes', type: 'boolean', default: true, group: 'Spectrogram' }
+    ];
+
+    private canvas!: HTMLCanvasElement;
+    private ctx!: CanvasRenderingContext2D;
+    // Ring buffer of spectrum columns, one pixel wide each
+    private historyCanvas: HTMLCanvasElement;
+    private historyCtx: CanvasRenderingContext2D;
+    private column: ImageData;
+    private writeX: number = 0;
+    private pendingColumns: number = 0;
+    // For each row (top to bottom) the fractional bin range it covers
+    private rowBinStart: Float32Array = new Float32Array(0);
+    private rowBinEnd: Float32Array = new Float32Array(0);
+    private tableKey: string = '';
+    private sampleRate: number = 44100;
+
+    private frequencyScale: FrequencyScale = 'log';
+    private minFrequency: number = 20;
+    private maxFrequency: number = 20000;
+    private floorDb: number = -100;
+    private ceilingDb: number = -30;
+    private colormap: ColormapName = 'viridis';
+    private scrollSpeed: number = 120;
+    private showAxes: boolean = true;
+    private readonly AXIS_LEFT = 56;    // Pixels reserved for frequency labels
+    private readonly AXIS_BOTTOM = 24;  // Pixels reserved for time labels
+
+    constructor() {
+        this.historyCanvas = document.createElement('canvas');
+        this.historyCtx = this.historyCanvas.getContext('2d')!;
+        // Placeholder; resize() sizes everything to the container
+        this.column = this.historyCtx.createImageData(1, 1);
+    }
+
+    public init(container: HTMLElement) {
+        this.canvas = createVisualizerCanvas(container);
+        this.ctx = this.canvas.getContext('2d')!;
+        this.createHistory();
+    }
+
+    public resize(width: number, height: number) {
+        this.canvas.width = width;
+        this.canvas.height = height;
+        this.createHistory();
+    }
+
+    public dispose() {
+        this.canvas.remove();
+        this.historyCanvas.width = 1;
+        this.historyCanvas.height = 1;
+        this.column = this.historyCtx.createImageData(1, 1);
+    }
+
+    public getParameterSchema(): ParameterDefinition[] {
+        return CanvasSpectrogramVisualizer.PARAMETERS;
+    }
+
+    public getParameter(key: string): ParameterValue | undefined {
+        switch (key) {
+            case 'frequencyScale': return this.frequencyScale;
+            case 'minFrequency': return this.minFrequency;
+            case 'maxFrequency': return this.maxFrequency;
+            case 'floorDb': return this.floorDb;
+            case 'ceilingDb': return this.ceilingDb;
+            case 'colormap': return this.colormap;
+            case 'scrollSpeed': return this.scrollSpeed;
+            case 'showAxes': return this.showAxes;
+        }
+        return undefined;
+    }
+
+    public setParameter(key: string, value: ParameterValue) {
+        switch (key) {
+            case 'frequencyScale': this.frequencyScale = value as FrequencyScale; break;
+            case 'minFrequency': this.minFrequency = Math.max(1, Number(value)); break;
+            case 'maxFrequency': this.maxFrequency = Math.max(1, Number(value)); break;
+            case 'floorDb': this.floorDb = Number(value); break;
+            case 'ceilingDb': this.ceilingDb = Number(value); break;
+            case 'colormap': this.colormap = value as ColormapName; break;
+            case 'scrollSpeed': this.scrollSpeed = Math.max(1, Number(value)); break;
+            case 'showAxes':
+                this.showAxes = Boolean(value);
+                if (this.canvas) this.createHistory();
+                break;
+        }
+    }
+
+    /**
+     * Plot area inside the canvas, leaving room for the axes when they are shown.
+     */
+    private getPlotRect(): { x: number, y: number, width: number, height: number } {
+        const left = this.showAxes ? this.AXIS_LEFT : 0;
+        const bottom = this.showAxes ? this.AXIS_BOTTOM : 0;
+        return {
+            x: left,
+            y: 0,
+            width: Math.max(1, this.canvas.width - left),
+            height: Math.max(1, this.canvas.height - bottom)
+        };
+    }
+
+    /**
+     * (Re)allocate the history for the current plot size. Old history is dropped.
+     */
+    private createHistory() {
+        const plot = this.getPlotRect();
+        this.historyCanvas.width = plot.width;
+        this.historyCanvas.height = plot.height;
+        this.historyCtx.fillStyle = 'black';
+        this.historyCtx.fillRect(0, 0, plot.width, plot.height);
+        this.column = this.historyCtx.createImageData(1, plot.height);
+        this.writeX = 0;
+        this.pendingColumns = 0;
+        this.tableKey = '';
+    }
+
+    /**
+     * Effective frequency range: the requested one clamped to what the spectrum contains.
+     */
+    private getFrequencyRange(): { low: number, high: number } {
+        const nyquist = this.sampleRate / 2;
+        const high = Math.min(this.maxFrequency, nyquist);
+        const low = Math.max(1, Math.min(this.minFrequency, high * 0.5));
+        return { low, high };
+    }
+
+    /**
+     * Frequency at a fraction of the axis height (0 = bottom, 1 = top).
+     */
+    private frequencyAt(fraction: number): number {
+        const { low, high } = this.getFrequencyRange();
+        if (this.frequencyScale === 'log') {
+            // Numerical method: Geometric interpolation for a log axis
+            return low * Math.pow(high / low, fraction);
+        }
+        return low + (high - low) * fraction;
+    }
+
+    /**
+     * Inverse of frequencyAt.
+     */
+    private fractionOf(frequency: number): number {
+        const { low, high } = this.getFrequencyRange();
+        if (this.frequencyScale === 'log') {
+            return Math.log(frequency / low) / Math.log(high / low);
+        }
+        return (frequency - low) / (high - low);
+    }
+
+    /**
+     * Precompute which bins every row covers. Rebuilt only when the axis, the plot height
+     * or the spectrum layout changes.
+     */
+    private updateRowTable(binCount: number) {
+        const rows = this.historyCanvas.height;
+        const key = `${rows}|${binCount}|${this.sampleRate}|${this.frequencyScale}|${this.minFrequency}|${this.maxFrequency}`;
+        if (key === this.tableKey) return;
+        this.tableKey = key;
+
+        if (this.rowBinStart.length !== rows) {
+            this.rowBinStart = new Float32Array(rows);
+            this.rowBinEnd = new Float32Array(rows);
+        }
+        const binWidth = this.sampleRate / 2 / binCount;
+        for (let row = 0; row < rows; row++) {
+            // Row 0 is the top of the plot, i.e. the highest frequency
+            const top = this.frequencyAt(1 - row / rows);
+            const bottom = this.frequencyAt(1 - (row + 1) / rows);
+            this.rowBinStart[row] = bottom / binWidth;
+            this.rowBinEnd[row] = top / binWidth;
+        }
+    }
+
+    /**
+     * Level of one row (0-1 in the display range).
+     */
+    private sampleRow(row: number, data: Uint8Array, frame: AudioFrame): number {
+        const start = this.rowBinStart[row];
+        const end = this.rowBinEnd[row];
+        const last = data.length - 1;
+
+        let value: number;
+        if (end - start <= 1) {
+            // Numerical method: Linear interpolation between neighboring bins
+            const center = Math.min(last, (start + end) / 2);
+            const i = Math.floor(center);
+            const t = center - i;
+            value = data[i] + (data[Math.min(last, i + 1)] - data[i]) * t;
+        } else {
+            value = 0;
+            const to = Math.min(last, Math.ceil(end));
+            for (let i = Math.floor(start); i <= to; i++) {
+                if (data[i] > value) value = data[i];
+            }
+        }
+
+        // Numerical method: Undo the analyser's byte mapping, then rescale to the display range
+        const db = frame.minDecibels + (value / 255) * (frame.maxDecibels - frame.minDecibels);
+        const range = Math.max(1, this.ceilingDb - this.floorDb);
+        return Math.max(0, Math.min(1, (db - this.floorDb) / range));
+    }
+
+    /**
+     * Render the current spectrum into the reusable one-pixel-wide column image.
+     */
+    private fillColumn(frame: AudioFrame) {
+        const data = frame.frequencyData;
+        this.updateRowTable(data.length);
+
+        const lut = getColormap(this.colormap);
+        const pixels = this.column.data;
+        const rows = this.column.height;
+        for (let row = 0; row < rows; row++) {
+            const index = Math.round(this.sampleRow(row, data, frame) * 255) * 3;
+            const p = row * 4;
+            pixels[p] = lut[index];
+            pixels[p + 1] = lut[index + 1];
+            pixels[p + 2] = lut[index + 2];
+            pixels[p + 3] = 255;
+        }
+    }
+
+    public update(frame: AudioFrame) {
+        if (frame.frequencyData.length === 0) return;
+        this.sampleRate = frame.sampleRate;
+
+        // Fractional columns carry over so slow scroll speeds still advance smoothly
+        this.pendingColumns += this.scrollSpeed * frame.dt;
+        const columns = Math.min(this.historyCanvas.width, Math.floor(this.pendingColumns));
+        if (columns === 0) return;
+        this.pendingColumns -= Math.floor(this.pendingColumns);
+
+        this.fillColumn(frame);
+        for (let c = 0; c < columns; c++) {
+            this.historyCtx.putImageData(this.column, this.writeX, 0);
+            this.writeX = (this.writeX + 1) % this.historyCanvas.width;
+        }
+    }
+
+    public render() {
+        const plot = this.getPlotRect();
+        this.ctx.fillStyle = 'black';
+        this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+
+        // Oldest column is at writeX: draw [writeX, end) first, then [0, writeX)
+        const width = this.historyCanvas.width;
+        const older = width - this.writeX;
+        this.ctx.imageSmoothingEnabled = false;
+        this.ctx.drawImage(this.historyCanvas, this.writeX, 0, older, plot.height, plot.x, plot.y, older, plot.height);
+        if (this.writeX > 0) {
+            this.ctx.drawImage(this.historyCanvas, 0, 0, this.writeX, plot.height, plot.x + older, plot.y, this.writeX, plot.height);
+        }
+
+        if (this.showAxes) {
+            this.drawAxes(plot);
+        }
+    }
+
+    /**
+     * Frequency labels along the left edge and seconds-ago labels along the bottom.
+     */
+    private drawAxes(plot: { x: number, y: number, width: number, height: number }) {
+        this.ctx.font = '11px Arial';
+        this.ctx.fillStyle = 'rgba(255, 255, 255, 0.8)';
+        this.ctx.strokeStyle = 'rgba(255, 255, 255, 0.25)';
+        this.ctx.lineWidth = 1;
+
+        // Frequency axis
+        this.ctx.textAlign = 'right';
+        this.ctx.textBaseline = 'middle';
+        this.getFrequencyTicks().forEach(frequency => {
+            const y = plot.y + (1 - this.fractionOf(frequency)) * plot.height;
+            if (y < plot.y + 6 || y > plot.y + plot.height - 6) return;
+            this.ctx.fillText(this.formatFrequency(frequency), plot.x - 6, y);
+            this.ctx.beginPath();
+            this.ctx.moveTo(plot.x, Math.round(y) + 0.5);
+            this.ctx.lineTo(plot.x + plot.width, Math.round(y) + 0.5);
+            this.ctx.stroke();
+        });
+
+        // Time axis: the right edge is now, each pixel is 1/scrollSpeed seconds older
+        const seconds = plot.width / this.scrollSpeed;
+        const step = this.niceStep(seconds / 8);
+        this.ctx.textAlign = 'center';
+        this.ctx.textBaseline = 'top';
+        for (let k = 0; k * step <= seconds; k++) {
+            const t = k * step;
+            const x = plot.x + plot.width - t * this.scrollSpeed;
+            if (x < plot.x + 12) break;
+            this.ctx.fillText(t === 0 ? 'now' : `-${this.formatSeconds(t, step)}s`, x, plot.y + plot.height + 6);
+            this.ctx.beginPath();
+            this.ctx.moveTo(Math.round(x) + 0.5, plot.y + plot.height);
+            this.ctx.lineTo(Math.round(x) + 0.5, plot.y + plot.height + 4);
+            this.ctx.stroke();
+        }
+    }
+
+    /**
+     * Tick frequencies: 1-2-5 decades on a log axis, evenly spaced round values on a linear one.
+     */
+    private getFrequencyTicks(): number[] {
+        const { low, high } = this.getFrequencyRange();
+        const ticks: number[] = [];
+        if (this.frequencyScale === 'log') {
+            for (let decade = Math.pow(10, Math.floor(Math.log10(low))); decade <= high; decade *= 10) {
+                [1, 2, 5].forEach(m => {
+                    const f = decade * m;
+                    if (f >= low && f <= high) ticks.push(f);
+                });
+            }
+        } else {
+            const step = this.niceStep((high - low) / 8);
+            for (let f = Math.ceil(low / step) * step; f <= high; f += step) {
+                ticks.push(f);
+            }
+        }
+        return ticks;
+    }
+
+    /**
+     * Smallest 1, 2 or 5 times a power of ten that is at least `rough`.
+     */
+    private niceStep(rough: number): number {
+        const magnitude = Math.pow(10, Math.floor(Math.log10(Math.max(rough, 1e-6))));
+        const normalized = rough / magnitude;
+        if (normalized <= 1) return magnitude;
+        if (normalized <= 2) return 2 * magnitude;
+        if (normalized <= 5) return 5 * magnitude;
+        return 10 * magnitude;
+    }
+
+    private formatFrequency(frequency: number): string {
+        return frequency >= 1000 ? `${+(frequency / 1000).toFixed(1)}k` : `${Math.round(frequency)}`;
+    }
+
+    private formatSeconds(seconds: number, step: number): string {
+        return step < 1 ? seconds.toFixed(1) : `${Math.round(seconds)}`;
+    }
+}
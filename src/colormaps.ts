@@ -0,0 +1,53 @@
+/**
+ * Perceptual colormaps as 256-entry lookup tables.
+ *
+ * Viridis and magma are sampled at nine evenly spaced stops from matplotlib's tables;
+ * the lookup interpolates linearly between them, which is visually indistinguishable
+ * from the full 256-step originals at spectrogram scale.
+ */
+
+export type ColormapName = 'viridis' | 'magma' | 'grayscale';
+
+export const COLORMAPS: ColormapName[] = ['viridis', 'magma', 'grayscale'];
+
+const STOPS: { [name in ColormapName]: number[] } = {
+    viridis: [
+        0x440154, 0x482878, 0x3e4989, 0x31688e, 0x26828e,
+        0x1f9e89, 0x35b779, 0x6ece58, 0xfde725
+    ],
+    magma: [
+        0x000004, 0x1c1044, 0x4f127b, 0x812581, 0xb5367a,
+        0xe55064, 0xfb8761, 0xfec287, 0xfcfdbf
+    ],
+    grayscale: [0x000000, 0xffffff]
+};
+
+const tables: { [name: string]: Uint8Array } = {};
+
+/**
+ * RGB lookup table for a colormap: entry i (0-255) is at [3i, 3i + 1, 3i + 2].
+ * Tables are built on first use and shared.
+ */
+export function getColormap(name: ColormapName): Uint8Array {
+    let table = tables[name];
+    if (table) return table;
+
+    const stops = STOPS[name];
+    table = new Uint8Array(256 * 3);
+    for (let i = 0; i < 256; i++) {
+        // Numerical method: Piecewise-linear interpolation between evenly spaced stops
+        const position = (i / 255) * (stops.length - 1);
+        const k = Math.min(stops.length - 2, Math.floor(position));
+        const t = position - k;
+        const a = stops[k];
+        const b = stops[k + 1];
+        for (let c = 0; c < 3; c++) {
+            const shift = 16 - c * 8;
+            const from = (a >> shift) & 0xff;
+            const to = (b >> shift) & 0xff;
+            table[i * 3 + c] = Math.round(from + (to - from) * t);
+        }
+    }
+    tables[name] = table;
+    return table;
+}
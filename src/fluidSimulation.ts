@@ -0,0 +1,331 @@
+/**
+ * Grid-based 2D incompressible fluid solver in the style of Jos Stam's "Stable Fluids".
+ *
+ * Solves the incompressible Navier–Stokes equations on a collocated grid of square cells:
+ *   du/dt = -(u·∇)u + ν∇²u + f,   ∇·u = 0
+ * and transports RGB dye through the resulting velocity field.
+ *
+ * Numerical methods:
+ * - Semi-Lagrangian advection (backtrace along velocity + bilinear interpolation), unconditionally stable
+ * - Implicit diffusion / viscosity solved with Gauss-Seidel relaxation
+ * - Helmholtz-Hodge pressure projection (Poisson equation via Gauss-Seidel) to enforce ∇·u = 0
+ * - Vorticity confinement to re-inject small-scale swirl lost to numerical dissipation
+ * - Central finite differences for divergence, gradient and curl
+ */
+export class FluidSimulation {
+    private nx: number;
+    private ny: number;
+    private size: number;
+    // Cells per unit length; cells are square so the longer side spans one unit
+    private scale: number;
+
+    // Velocity field and scratch copy
+    private u: Float32Array;
+    private v: Float32Array;
+    private u0: Float32Array;
+    private v0: Float32Array;
+
+    // Dye channels (0-1 each) and scratch copy
+    private dye: Float32Array[];
+    private dye0: Float32Array[];
+
+    private curl: Float32Array;
+    private pressure: Float32Array;
+    private divergence: Float32Array;
+
+    private viscosity: number = 0.0001;
+    private diffusion: number = 0.00001;
+    private vorticity: number = 10;
+    private dyeDissipation: number = 0.995;
+    private velocityDissipation: number = 0.999;
+    private iterations: number = 16;
+
+    /**
+     * @param nx Interior cells horizontally
+     * @param ny Interior cells vertically
+     */
+    constructor(nx: number, ny: number) {
+        this.nx = nx;
+        this.ny = ny;
+        // One ring of boundary cells around the interior
+        this.size = (nx + 2) * (ny + 2);
+        this.scale = Math.max(nx, ny);
+
+        this.u = new Float32Array(this.size);
+        this.v = new Float32Array(this.size);
+        this.u0 = new Float32Array(this.size);
+        this.v0 = new Float32Array(this.size);
+        this.dye = [new Float32Array(this.size), new Float32Array(this.size), new Float32Array(this.size)];
+        this.dye0 = [new Float32Array(this.size), new Float32Array(this.size), new Float32Array(this.size)];
+        this.curl = new Float32Array(this.size);
+        this.pressure = new Float32Array(this.size);
+        this.divergence = new Float32Array(this.size);
+    }
+
+    private IX(i: number, j: number): number {
+        return i + (this.nx + 2) * j;
+    }
+
+    getWidth(): number {
+        return this.nx;
+    }
+
+    getHeight(): number {
+        return this.ny;
+    }
+
+    setViscosity(viscosity: number) {
+        this.viscosity = Math.max(0, viscosity);
+    }
+
+    getViscosity(): number {
+        return this.viscosity;
+    }
+
+    setDiffusion(diffusion: number) {
+        this.diffusion = Math.max(0, diffusion);
+    }
+
+    setVorticity(strength: number) {
+        this.vorticity = Math.max(0, strength);
+    }
+
+    getVorticity(): number {
+        return this.vorticity;
+    }
+
+    setDyeDissipation(factor: number) {
+        this.dyeDissipation = Math.max(0, Math.min(1, factor));
+    }
+
+    /**
+     * Dye intensity of one channel at interior cell (i, j), 1-based.
+     */
+    getDye(channel: number, i: number, j: number): number {
+        return this.dye[channel][this.IX(i, j)];
+    }
+
+    /**
+     * Add a Gaussian splat of momentum centred on (x, y), in cell coordinates.
+     */
+    addVelocity(x: number, y: number, vx: number, vy: number, radius: number) {
+        this.splat(x, y, radius, (index, weight) => {
+            this.u[index] += vx * weight;
+            this.v[index] += vy * weight;
+        });
+    }
+
+    /**
+     * Add a Gaussian splat of colored dye centred on (x, y), in cell coordinates.
+     */
+    addDye(x: number, y: number, r: number, g: number, b: number, radius: number) {
+        this.splat(x, y, radius, (index, weight) => {
+            this.dye[0][index] = Math.min(1, this.dye[0][index] + r * weight);
+            this.dye[1][index] = Math.min(1, this.dye[1][index] + g * weight);
+            this.dye[2][index] = Math.min(1, this.dye[2][index] + b * weight);
+        });
+    }
+
+    private splat(x: number, y: number, radius: number, apply: (index: number, weight: number) => void) {
+        const r = Math.max(1, radius);
+        const i0 = Math.max(1, Math.floor(x - 2 * r));
+        const i1 = Math.min(this.nx, Math.ceil(x + 2 * r));
+        const j0 = Math.max(1, Math.floor(y - 2 * r));
+        const j1 = Math.min(this.ny, Math.ceil(y + 2 * r));
+        for (let j = j0; j <= j1; j++) {
+            for (let i = i0; i <= i1; i++) {
+                const dx = i - x;
+                const dy = j - y;
+                // Numerical method: Gaussian kernel exp(-d²/r²)
+                const weight = Math.exp(-(dx * dx + dy * dy) / (r * r));
+                if (weight > 0.01) apply(this.IX(i, j), weight);
+            }
+        }
+    }
+
+    /**
+     * Advance the simulation by dt seconds.
+     */
+    step(dt: number) {
+        // Velocity step
+        this.applyVorticityConfinement(dt);
+        this.u0.set(this.u);
+        this.v0.set(this.v);
+        this.diffuse(1, this.u, this.u0, this.viscosity, dt);
+        this.diffuse(2, this.v, this.v0, this.viscosity, dt);
+        this.project(this.u, this.v);
+
+        this.u0.set(this.u);
+        this.v0.set(this.v);
+        this.advect(1, this.u, this.u0, this.u0, this.v0, dt);
+        this.advect(2, this.v, this.v0, this.u0, this.v0, dt);
+        this.project(this.u, this.v);
+
+        // Density step, one pass per dye channel
+        for (let c = 0; c < 3; c++) {
+            this.dye0[c].set(this.dye[c]);
+            this.diffuse(0, this.dye[c], this.dye0[c], this.diffusion, dt);
+            this.dye0[c].set(this.dye[c]);
+            this.advect(0, this.dye[c], this.dye0[c], this.u, this.v, dt);
+        }
+
+        // Numerical method: Exponential dissipation so the field fades without new input
+        for (let k = 0; k < this.size; k++) {
+            this.u[k] *= this.velocityDissipation;
+            this.v[k] *= this.velocityDissipation;
+            this.dye[0][k] *= this.dyeDissipation;
+            this.dye[1][k] *= this.dyeDissipation;
+            this.dye[2][k] *= this.dyeDissipation;
+        }
+    }
+
+    /**
+     * Numerical method: Implicit diffusion (backward Euler), (I - a∇²)x = x0,
+     * which stays stable for any viscosity and time step.
+     */
+    private diffuse(b: number, x: Float32Array, x0: Float32Array, rate: number, dt: number) {
+        const a = dt * rate * this.scale * this.scale;
+        if (a === 0) return;
+        this.linearSolve(b, x, x0, a, 1 + 4 * a);
+    }
+
+    /**
+     * Numerical method: Gauss-Seidel relaxation for the 5-point Laplacian system
+     */
+    private linearSolve(b: number, x: Float32Array, x0: Float32Array, a: number, c: number) {
+        const stride = this.nx + 2;
+        for (let iter = 0; iter < this.iterations; iter++) {
+            for (let j = 1; j <= this.ny; j++) {
+                let index = 1 + stride * j;
+                for (let i = 1; i <= this.nx; i++, index++) {
+                    x[index] = (x0[index] + a * (x[index - 1] + x[index + 1] + x[index - stride] + x[index + stride])) / c;
+                }
+            }
+            this.setBoundary(b, x);
+        }
+    }
+
+    /**
+     * Numerical method: Semi-Lagrangian advection
+     * Trace each cell centre backwards through the velocity field and bilinearly
+     * interpolate the old field at the departure point.
+     */
+    private advect(b: number, d: Float32Array, d0: Float32Array, u: Float32Array, v: Float32Array, dt: number) {
+        const dt0 = dt * this.scale;
+        for (let j = 1; j <= this.ny; j++) {
+            for (let i = 1; i <= this.nx; i++) {
+                const index = this.IX(i, j);
+                let x = i - dt0 * u[index];
+                let y = j - dt0 * v[index];
+
+                x = Math.max(0.5, Math.min(this.nx + 0.5, x));
+                y = Math.max(0.5, Math.min(this.ny + 0.5, y));
+                const i0 = Math.floor(x);
+                const j0 = Math.floor(y);
+                const s1 = x - i0;
+                const s0 = 1 - s1;
+                const t1 = y - j0;
+                const t0 = 1 - t1;
+
+                d[index] =
+                    s0 * (t0 * d0[this.IX(i0, j0)] + t1 * d0[this.IX(i0, j0 + 1)]) +
+                    s1 * (t0 * d0[this.IX(i0 + 1, j0)] + t1 * d0[this.IX(i0 + 1, j0 + 1)]);
+            }
+        }
+        this.setBoundary(b, d);
+    }
+
+    /**
+     * Numerical method: Helmholtz-Hodge projection
+     * Solve ∇²p = ∇·u for pressure, then subtract ∇p to leave a divergence-free field.
+     */
+    private project(u: Float32Array, v: Float32Array) {
+        const h = 1 / this.scale;
+        const p = this.pressure;
+        const div = this.divergence;
+
+        for (let j = 1; j <= this.ny; j++) {
+            for (let i = 1; i <= this.nx; i++) {
+                const index = this.IX(i, j);
+                div[index] = -0.5 * h * (
+                    u[this.IX(i + 1, j)] - u[this.IX(i - 1, j)] +
+                    v[this.IX(i, j + 1)] - v[this.IX(i, j - 1)]
+                );
+                p[index] = 0;
+            }
+        }
+        this.setBoundary(0, div);
+        this.setBoundary(0, p);
+        this.linearSolve(0, p, div, 1, 4);
+
+        for (let j = 1; j <= this.ny; j++) {
+            for (let i = 1; i <= this.nx; i++) {
+                const index = this.IX(i, j);
+                u[index] -= 0.5 * (p[this.IX(i + 1, j)] - p[this.IX(i - 1, j)]) / h;
+                v[index] -= 0.5 * (p[this.IX(i, j + 1)] - p[this.IX(i, j - 1)]) / h;
+            }
+        }
+        this.setBoundary(1, u);
+        this.setBoundary(2, v);
+    }
+
+    /**
+     * Numerical method: Vorticity confinement
+     * ω = ∇×u; push fluid along N×ω where N = ∇|ω|/|∇|ω||, amplifying existing vortices.
+     */
+    private applyVorticityConfinement(dt: number) {
+        if (this.vorticity <= 0) return;
+        const u = this.u;
+        const v = this.v;
+        const curl = this.curl;
+
+        for (let j = 1; j <= this.ny; j++) {
+            for (let i = 1; i <= this.nx; i++) {
+                curl[this.IX(i, j)] = 0.5 * (
+                    (v[this.IX(i + 1, j)] - v[this.IX(i - 1, j)]) -
+                    (u[this.IX(i, j + 1)] - u[this.IX(i, j - 1)])
+                );
+            }
+        }
+
+        for (let j = 2; j < this.ny; j++) {
+            for (let i = 2; i < this.nx; i++) {
+                const gx = 0.5 * (Math.abs(curl[this.IX(i + 1, j)]) - Math.abs(curl[this.IX(i - 1, j)]));
+                const gy = 0.5 * (Math.abs(curl[this.IX(i, j + 1)]) - Math.abs(curl[this.IX(i, j - 1)]));
+                const length = Math.sqrt(gx * gx + gy * gy) + 1e-5;
+                const w = curl[this.IX(i, j)];
+                const index = this.IX(i, j);
+                u[index] += dt * this.vorticity * (gy / length) * w;
+                v[index] -= dt * this.vorticity * (gx / length) * w;
+            }
+        }
+    }
+
+    /**
+     * Boundary conditions: free-slip walls for velocity, where only the normal component is
+     * negated (b = 1 for u at the left/right walls, b = 2 for v at the top/bottom) and the
+     * tangential one is copied, so flow slides along walls; continuity for scalar fields (b = 0).
+     */
+    private setBoundary(b: number, x: Float32Array) {
+        const nx = this.nx;
+        const ny = this.ny;
+        for (let i = 1; i <= nx; i++) {
+            x[this.IX(i, 0)] = b === 2 ? -x[this.IX(i, 1)] : x[this.IX(i, 1)];
+            x[this.IX(i, ny + 1)] = b === 2 ? -x[this.IX(i, ny)] : x[this.IX(i, ny)];
+        }
+        for (let j = 1; j <= ny; j++) {
+            x[this.IX(0, j)] = b === 1 ? -x[this.IX(1, j)] : x[this.IX(1, j)];
+            x[this.IX(nx + 1, j)] = b === 1 ? -x[this.IX(nx, j)] : x[this.IX(nx, j)];
+        }
+        x[this.IX(0, 0)] = 0.5 * (x[this.IX(1, 0)] + x[this.IX(0, 1)]);
+        x[this.IX(0, ny + 1)] = 0.5 * (x[this.IX(1, ny + 1)] + x[this.IX(0, ny)]);
+        x[this.IX(nx + 1, 0)] = 0.5 * (x[this.IX(nx, 0)] + x[this.IX(nx + 1, 1)]);
+        x[this.IX(nx + 1, ny + 1)] = 0.5 * (x[this.IX(nx, ny + 1)] + x[this.IX(nx + 1, ny)]);
+    }
+
+    reset() {
+        this.u.fill(0);
+        this.v.fill(0);
+        this.dye.forEach(channel => channel.fill(0));
+    }
+}
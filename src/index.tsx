@@ -5,30 +5,97 @@ import { AudioAnalyser } from './audio/analyser';
 import { CanvasParticleSystem } from './canvasParticleSystem';
 import { CanvasLineVisualizer } from './canvasLineVisualizer';
 import { Three3DVisualizer } from './three3DVisualizer';
+import { CanvasFluidVisualizer } from './canvasFluidVisualizer';
+import { CanvasSpectrogramVisualizer } from './canvasSpectrogramVisualizer';
+import { CanvasGoniometerVisualizer } from './canvasGoniometerVisualizer';
+import { MidiController } from './midi';
+import { ModulationMatrix } from './modulation';
+import { ParameterDefinition } from './visualizer';
+import { VisualizerRegistry } from './visualizerRegistry';
+import { AudioSourceType, ControlSurface, Controls } from './ui/controls';
+import { PresetStore, applyPreset } from './ui/presets';
 
 class App {
     private audioManager: AudioManager;
     private analyser: AudioAnalyser;
-    private particleSystem: CanvasParticleSystem;
-    private lineVisualizer: CanvasLineVisualizer;
-    private threeVisualizer: Three3DVisualizer;
-    private currentMode: 'particles' | 'waveform' | '3d' = 'particles';
+    private registry: VisualizerRegistry;
+    private container: HTMLElement;
+    private audioSourceType: AudioSourceType = 'microphone';
+    private microphoneSource: AudioNode | null = null;
     private animationFrameId: number | null = null;
     private isRunning: boolean = false;
+    private lastFrameTime: number = 0;
+    private presets: PresetStore;
+    private modulation: ModulationMatrix;
+    private midi: MidiController;
+    // Tell the control panel about changes it didn't make (source switches, applied presets)
+    private stateListeners: (() => void)[] = [];
 
     constructor() {
         this.audioManager = new AudioManager();
         this.analyser = new AudioAnalyser(this.audioManager.getContext());
-        this.particleSystem = new CanvasParticleSystem('particleCanvas');
-        this.lineVisualizer = new CanvasLineVisualizer('lineCanvas', this.analyser.getAnalyserNode());
-        this.threeVisualizer = new Three3DVisualizer('threeCanvas', this.analyser.getAnalyserNode());
-        
-        // Initialize particle system
+        this.container = document.getElementById('app')!;
+        this.registry = new VisualizerRegistry();
+        this.registerVisualizers();
+        this.modulation = new ModulationMatrix(this.registry);
+        // The analyser runs the shared band model that audio-driven sources read
+        this.registry.onBandOptionsChange(options => this.analyser.setBandOptions(options));
+        this.presets = new PresetStore({
+            modes: this.registry.getRegistrations().reduce((modes, registration) => {
+                modes[registration.id] = registration.parameters;
+                return modes;
+            }, {} as { [id: string]: ParameterDefinition[] })
+        });
+        this.midi = new MidiController(this.registry, {
+            activateMode: id => this.registry.activate(id, this.container),
+            applyPreset: name => this.applyPreset(name)
+        });
 
         this.setupEventListeners();
         this.initialize();
     }
 
+    /**
+     * Register every visualization mode. Modes are only created when activated.
+     */
+    private registerVisualizers() {
+        this.registry.register({
+            id: 'particles', label: 'Particles',
+            parameters: CanvasParticleSystem.PARAMETERS,
+            create: () => new CanvasParticleSystem()
+        });
+        this.registry.register({
+            id: 'particles-webgl', label: 'Particles (WebGL)',
+            parameters: CanvasParticleSystem.PARAMETERS,
+            create: () => new CanvasParticleSystem('webgl')
+        });
+        this.registry.register({
+            id: 'waveform', label: 'Waveform',
+            parameters: CanvasLineVisualizer.PARAMETERS,
+            create: () => new CanvasLineVisualizer()
+        });
+        this.registry.register({
+            id: '3d', label: '3D',
+            parameters: Three3DVisualizer.PARAMETERS,
+            create: () => new Three3DVisualizer()
+        });
+        this.registry.register({
+            id: 'fluid', label: 'Fluid',
+            parameters: CanvasFluidVisualizer.PARAMETERS,
+            create: () => new CanvasFluidVisualizer()
+        });
+        this.registry.register({
+            id: 'spectrogram', label: 'Spectrogram',
+            parameters: CanvasSpectrogramVisualizer.PARAMETERS,
+            create: () => new CanvasSpectrogramVisualizer()
+        });
+        this.registry.register({
+            id: 'goniometer', label: 'Goniometer',
+            parameters: CanvasGoniometerVisualizer.PARAMETERS,
+            create: () => new CanvasGoniometerVisualizer()
+        });
+    }
+
     private setupEventListeners() {
         document.addEventListener('click', () => {
             if (this.audioManager.getContext().state === 'suspended') {
@@ -37,172 +104,136 @@ class App {
                 });
             }
         });
-    }
 
-    private setupTestModeButton() {
-        const controlsDiv = document.getElementById('controls');
-        if (!controlsDiv) return;
-        
-        const testModeButton = document.createElement('button');
-        testModeButton.textContent = 'Toggle Test Mode';
-        testModeButton.style.padding = '10px';
-        testModeButton.style.margin = '10px';
-        testModeButton.style.backgroundColor = '#00aaff';
-        testModeButton.style.color = 'white';
-        testModeButton.style.border = 'none';
-        testModeButton.style.borderRadius = '5px';
-        testModeButton.style.cursor = 'pointer';
-        
-        let testModeEnabled = false;
-        
-        testModeButton.addEventListener('click', () => {
-            testModeEnabled = !testModeEnabled;
-            if (testModeEnabled) {
-                this.analyser.enableTestMode(this.audioManager.getContext());
-                testModeButton.textContent = 'Disable Test Mode';
-            } else {
-                this.analyser.disableTestMode();
-                testModeButton.textContent = 'Enable Test Mode';
+        // The manager recreates the microphone source once the context is allowed to run
+        document.addEventListener('audioSourceCreated', (event: Event) => {
+            const { source } = (event as CustomEvent<{ source: AudioNode }>).detail;
+            this.microphoneSource = source;
+            if (this.audioSourceType === 'microphone') {
+                this.analyser.connect(source, this.audioManager.getMicrophoneChannelCount());
             }
         });
-        
-        controlsDiv.appendChild(testModeButton);
-    }
 
-    /**
-     * Setup slider control for adjusting particle count.
-     */
-    private setupParticleCountControl() {
-        const controlsDiv = document.getElementById('controls');
-        if (!controlsDiv) return;
-
-        const group = document.createElement('div');
-        group.className = 'control-group';
-
-        const label = document.createElement('label');
-        label.textContent = 'Particle Count:';
-        group.appendChild(label);
-
-        const slider = document.createElement('input');
-        slider.type = 'range';
-        slider.min = '10';
-        slider.max = '200';
-        slider.step = '1';
-        slider.value = this.particleSystem.getDotCount().toString();
-        group.appendChild(slider);
-
-        const valueDisplay = document.createElement('span');
-        valueDisplay.textContent = slider.value;
-        valueDisplay.style.marginLeft = '8px';
-        group.appendChild(valueDisplay);
-
-        slider.addEventListener('input', () => {
-            const count = parseInt(slider.value, 10);
-            valueDisplay.textContent = slider.value;
-            this.particleSystem.setDotCount(count);
+        window.addEventListener('resize', () => {
+            this.registry.resize(this.container.clientWidth, this.container.clientHeight);
         });
-
-        controlsDiv.appendChild(group);
     }
 
     /**
-     * Setup toggle control for drawing connections between particles.
+     * Route either the microphone or the file player into the analyser.
+     * Switching away from the file pauses it so it doesn't keep playing unheard by the visuals.
      */
-    private setupShowConnectionsControl() {
-        const controlsDiv = document.getElementById('controls');
-        if (!controlsDiv) return;
+    private setAudioSource(type: AudioSourceType) {
+        const player = this.audioManager.getFilePlayer();
+        this.audioSourceType = type;
 
-        const group = document.createElement('div');
-        group.className = 'control-group';
-
-        const label = document.createElement('label');
-        label.textContent = 'Show Connections';
-        group.appendChild(label);
-
-        const checkbox = document.createElement('input');
-        checkbox.type = 'checkbox';
-        checkbox.checked = this.particleSystem.getShowConnections();
-        group.appendChild(checkbox);
+        if (type === 'file') {
+            this.analyser.connect(player.getOutputNode(), player.getChannelCount());
+        } else {
+            player.pause();
+            if (this.microphoneSource) {
+                this.analyser.connect(this.microphoneSource, this.audioManager.getMicrophoneChannelCount());
+            } else {
+                this.analyser.disconnect();
+                console.warn('No microphone source available');
+            }
+        }
 
-        checkbox.addEventListener('change', () => {
-            this.particleSystem.setShowConnections(checkbox.checked);
-        });
+        this.notifyStateChange();
+    }
 
-        controlsDiv.appendChild(group);
+    private async loadAudioFile(file: File) {
+        try {
+            console.log('Loading audio file:', file.name);
+            const player = await this.audioManager.loadIntoPlayer(file);
+            this.setAudioSource('file');
+            player.play();
+        } catch (error) {
+            console.error('Failed to decode audio file:', error);
+            alert(`Could not load "${file.name}". Supported formats are MP3, WAV and OGG.`);
+        }
     }
 
     /**
-     * Setup a gear icon button to toggle the visibility of the controls panel.
+     * Allow audio files to be dropped anywhere on the page.
      */
-    private setupControlsToggle() {
+    private setupFileDropZone() {
         const appDiv = document.getElementById('app');
-        const controlsDiv = document.getElementById('controls');
-        if (!appDiv || !controlsDiv) return;
-
-        // Hide controls initially
-        controlsDiv.style.display = 'none';
-
-        // Create toggle button
-        const toggleBtn = document.createElement('button');
-        toggleBtn.id = 'controls-toggle';
-        toggleBtn.textContent = '⚙️';
-        Object.assign(toggleBtn.style, {
-            position: 'absolute', top: '20px', right: '20px', zIndex: '11',
-            background: 'rgba(0,0,0,0.7)', color: 'white', border: 'none',
-            borderRadius: '5px', padding: '8px', cursor: 'pointer', fontSize: '16px'
+        if (!appDiv) return;
+
+        appDiv.addEventListener('dragover', (event: DragEvent) => {
+            event.preventDefault();
+            if (event.dataTransfer) {
+                event.dataTransfer.dropEffect = 'copy';
+            }
         });
-        toggleBtn.addEventListener('click', () => {
-            controlsDiv.style.display = controlsDiv.style.display === 'none' ? 'block' : 'none';
+        appDiv.addEventListener('drop', (event: DragEvent) => {
+            event.preventDefault();
+            const file = event.dataTransfer && event.dataTransfer.files[0];
+            if (file) {
+                this.loadAudioFile(file);
+            }
         });
+    }
+
+    private applyPreset(name: string) {
+        const preset = this.presets.get(name);
+        if (!preset) return;
+        applyPreset(preset, this.registry, this.analyser, this.modulation, this.container);
+        this.notifyStateChange();
+        console.log(`Preset "${name}" applied`);
+    }
 
-        appDiv.appendChild(toggleBtn);
+    private notifyStateChange() {
+        this.stateListeners.forEach(listener => listener());
     }
 
     /**
-     * Setup select control to choose visualization mode.
+     * Mount the React control panel. It works on the app's own objects through a
+     * ControlSurface, so the app stays the single owner of all state.
      */
-    private setupVisualizationModeControl() {
+    private mountControls() {
         const controlsDiv = document.getElementById('controls');
         if (!controlsDiv) return;
-        const group = document.createElement('div');
-        group.className = 'control-group';
-        const label = document.createElement('label');
-        label.textContent = 'Visualization Mode:';
-        group.appendChild(label);
-        const select = document.createElement('select');
-        ['particles','waveform','3d'].forEach(mode => {
-            const opt = document.createElement('option');
-            opt.value = mode;
-            opt.text = mode === '3d' ? '3D' : mode.charAt(0).toUpperCase()+mode.slice(1);
-            select.appendChild(opt);
-        });
-        select.value = this.currentMode;
-        select.addEventListener('change', () => {
-            this.currentMode = select.value as any;
-            document.getElementById('particleCanvas')!.style.display = this.currentMode==='particles'?'':'none';
-            document.getElementById('lineCanvas')!.style.display = this.currentMode==='waveform'?'':'none';
-            document.getElementById('threeCanvas')!.style.display = this.currentMode==='3d'?'':'none';
-        });
-        group.appendChild(select);
-        controlsDiv.appendChild(group);
+
+        const surface: ControlSurface = {
+            registry: this.registry,
+            presets: this.presets,
+            modulation: this.modulation,
+            midi: this.midi,
+            analyser: this.analyser,
+            audioManager: this.audioManager,
+            getAudioSource: () => this.audioSourceType,
+            setAudioSource: type => this.setAudioSource(type),
+            loadAudioFile: file => this.loadAudioFile(file),
+            activateMode: id => this.registry.activate(id, this.container),
+            applyPreset: name => this.applyPreset(name),
+            onStateChange: listener => {
+                this.stateListeners.push(listener);
+                return () => {
+                    this.stateListeners = this.stateListeners.filter(l => l !== listener);
+                };
+            }
+        };
+        createRoot(controlsDiv).render(<Controls surface={surface} />);
     }
 
     private async initialize() {
-        // Init controls toggle before adding control elements
-        this.setupControlsToggle();
+        // Mount the panel first so the controls are there while the microphone is requested
+        this.mountControls();
+        this.setupFileDropZone();
         try {
             console.log('Starting initialization...');
-            const source = await this.audioManager.initialize();
-            this.analyser.connect(source);
-            // Connect the analyser to the particle system
-            this.particleSystem.connectAudioAnalyser(this.analyser);
-            
-            // Add UI controls
-            this.setupTestModeButton();
-            this.setupParticleCountControl();
-            this.setupShowConnectionsControl();
-            this.setupVisualizationModeControl();
-            
+            // A missing or denied microphone shouldn't block file playback
+            try {
+                this.microphoneSource = await this.audioManager.initialize();
+                this.setAudioSource('microphone');
+            } catch (error) {
+                console.warn('Microphone unavailable, waiting for an audio file:', error);
+                this.setAudioSource('file');
+            }
+            this.registry.activate('particles', this.container);
+
             console.log('Audio setup complete, starting animation...');
             this.isRunning = true;
             this.animate();
@@ -214,27 +245,20 @@ class App {
     private animate = () => {
         if (!this.isRunning) return;
 
-        const audioIntensity = this.analyser.getAudioIntensity();
-        // Base color: dark blue (rgb(0, 0, 50))
-        const baseR = 0; // Red component stays constant
-        const baseG = 0; // Green component stays constant
-        const baseB = 50; // Blue component starts at 50
-
-        // Adjust the blue component based on audio intensity
-        const intensityFactor = audioIntensity / 255; // Normalize intensity to [0, 1]
-        const bgR = Math.min(50, baseR + intensityFactor * 50); // Red increases slightly
-        const bgG = Math.min(50, baseG + intensityFactor * 50); // Green increases slightly
-        const bgB = Math.min(255, baseB + intensityFactor * 200); // Blue becomes brighter
-
-        const backgroundColor = `rgb(${Math.floor(bgR)}, ${Math.floor(bgG)}, ${Math.floor(bgB)})`;
-
-        if (this.currentMode === 'particles') {
-            this.particleSystem.setBackgroundColor(backgroundColor);
-            this.particleSystem.animate();
-        } else if (this.currentMode === 'waveform') {
-            this.lineVisualizer.animate();
-        } else if (this.currentMode === '3d') {
-            this.threeVisualizer.animate();
+        const now = performance.now() / 1000;
+        // Clamp dt so a backgrounded tab doesn't produce one huge step
+        const dt = this.lastFrameTime ? Math.min(now - this.lastFrameTime, 0.1) : 1 / 60;
+        this.lastFrameTime = now;
+
+        // Analyse once per frame; every visualizer reads the same frame
+        this.analyser.update(now);
+        const frame = this.analyser.getFrame(now, dt);
+        this.modulation.update(frame);
+
+        const visualizer = this.registry.getActive();
+        if (visualizer) {
+            visualizer.update(frame);
+            visualizer.render();
         }
 
         // Continue animation
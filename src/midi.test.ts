@@ -0,0 +1,343 @@
+import { MidiAccessLike, MidiController, MidiInputLike } from './midi';
+import { ParameterDefinition, ParameterValue, Visualizer } from './visualizer';
+import { VisualizerRegistry } from './visualizerRegistry';
+
+const PARAMETERS: ParameterDefinition[] = [
+    { key: 'count', label: 'Count', type: 'number', default: 50, min: 0, max: 100, step: 1 },
+    { key: 'drag', label: 'Drag', type: 'number', default: 0.01, min: 0.001, max: 1, scale: 'log' },
+    { key: 'shape', label: 'Shape', type: 'select', default: 'a', options: [
+        { value: 'a', label: 'A' }, { value: 'b', label: 'B' }, { value: 'c', label: 'C' }, { value: 'd', label: 'D' }
+    ] },
+    { key: 'lines', label: 'Lines', type: 'boolean', default: true }
+];
+
+const CC = 0xb0;
+const NOTE_ON = 0x90;
+const NOTE_OFF = 0x80;
+
+/**
+ * In-memory localStorage shared by the controllers of one test.
+ */
+function installStorage(): { [key: string]: string } {
+    const store: { [key: string]: string } = {};
+    (global as unknown as { localStorage: Partial<Storage> }).localStorage = {
+        getItem: (key: string) => (key in store ? store[key] : null),
+        setItem: (key: string, value: string) => { store[key] = value; },
+        removeItem: (key: string) => { delete store[key]; }
+    };
+    return store;
+}
+
+function createRegistry(): VisualizerRegistry {
+    const registry = new VisualizerRegistry();
+    ['main', 'other'].forEach(id => registry.register({
+        id, label: id, parameters: PARAMETERS,
+        create: () => {
+            const values: { [key: string]: ParameterValue } = {};
+            return {
+                init: () => undefined, resize: () => undefined, update: () => undefined,
+                render: () => undefined, dispose: () => undefined,
+                getParameterSchema: () => PARAMETERS,
+                getParameter: (key: string) => values[key],
+                setParameter: (key: string, value: ParameterValue) => { values[key] = value; }
+            } as Visualizer;
+        }
+    }));
+    return registry;
+}
+
+interface Harness {
+    registry: VisualizerRegistry;
+    midi: MidiController;
+    calls: string[];
+    /** Send a raw message through the simulated input */
+    send: (status: number, number: number, value: number) => void;
+}
+
+/**
+ * Controller wired to a simulated MIDI access with one input, already enabled.
+ */
+async function createHarness(): Promise<Harness> {
+    const registry = createRegistry();
+    const calls: string[] = [];
+    const input: MidiInputLike = { id: 'sim', name: 'Simulated', onmidimessage: null };
+    const access: MidiAccessLike = { inputs: [input], onstatechange: null };
+    const midi = new MidiController(registry, {
+        activateMode: id => calls.push(`mode:${id}`),
+        applyPreset: name => calls.push(`preset:${name}`)
+    }, () => Promise.resolve(access));
+    await midi.enable();
+    const send = (status: number, number: number, value: number) => {
+        input.onmidimessage!({ data: new Uint8Array([status, number, value]) });
+    };
+    return { registry, midi, calls, send };
+}
+
+describe('MidiController', () => {
+    let store: { [key: string]: string };
+    beforeEach(() => {
+        store = installStorage();
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+    afterEach(() => jest.restoreAllMocks());
+
+    it('connects to the simulated inputs', async () => {
+        const { midi } = await createHarness();
+        expect(midi.getStatus()).toBe('connected');
+        expect(midi.getInputNames()).toEqual(['Simulated']);
+    });
+
+    it('reports denied access', async () => {
+        const midi = new MidiController(createRegistry(), { activateMode: () => undefined, applyPreset: () => undefined },
+            () => Promise.reject(new Error('SecurityError')));
+        await midi.enable();
+        expect(midi.getStatus()).toBe('denied');
+    });
+
+    describe('MIDI-learn', () => {
+        it('binds the next control moved to the armed action', async () => {
+            const { midi, send } = await createHarness();
+            midi.learn({ type: 'parameter', mode: 'main', key: 'count' });
+            expect(midi.getLearning()).not.toBeNull();
+            send(CC | 2, 21, 64);
+            expect(midi.getLearning()).toBeNull();
+            expect(midi.getMappings()).toEqual([
+                { channel: 3, control: 'cc', number: 21, action: { type: 'parameter', mode: 'main', key: 'count' } }
+            ]);
+        });
+
+        it('rebinding a control replaces its mapping', async () => {
+            const { midi, send } = await createHarness();
+            midi.learn({ type: 'parameter', mode: 'main', key: 'count' });
+            send(CC, 21, 0);
+            midi.learn({ type: 'mode', mode: 'other' });
+            send(CC, 21, 0);
+            expect(midi.getMappings()).toHaveLength(1);
+            expect(midi.getMappings()[0].action).toEqual({ type: 'mode', mode: 'other' });
+        });
+
+        it('ignores note-off and other messages while learning', async () => {
+            const { midi, send } = await createHarness();
+            midi.learn({ type: 'preset', name: 'Default' });
+            send(NOTE_OFF, 36, 0);
+            send(NOTE_ON, 36, 0);
+            send(0xe0, 0, 64);
+            expect(midi.getMappings()).toHaveLength(0);
+            send(NOTE_ON, 36, 100);
+            expect(midi.getMappings()[0]).toMatchObject({ control: 'note', number: 36 });
+        });
+    });
+
+    describe('control change', () => {
+        // Soft takeover is covered separately; here every move applies
+        async function bound(key: string) {
+            const harness = await createHarness();
+            harness.midi.setSoftTakeover(false);
+            harness.midi.learn({ type: 'parameter', mode: 'main', key });
+            harness.send(CC, 1, 0);
+            return harness;
+        }
+
+        it('sets a number across its range, stepped', async () => {
+            const { registry, send } = await bound('count');
+            send(CC, 1, 127);
+            expect(registry.getParameter('main', 'count')).toBe(100);
+            send(CC, 1, 64);
+            expect(registry.getParameter('main', 'count')).toBe(50);
+        });
+
+        it('sets a log-scale number in log space', async () => {
+            const { registry, send } = await bound('drag');
+            send(CC, 1, 0);
+            expect(registry.getParameter('main', 'drag')).toBeCloseTo(0.001, 9);
+            send(CC, 1, 127);
+            expect(registry.getParameter('main', 'drag')).toBeCloseTo(1, 9);
+            send(CC, 1, 127 * 2 / 3);
+            expect(registry.getParameter('main', 'drag') as number).toBeCloseTo(0.1, 1);
+        });
+
+        it('picks select options by position', async () => {
+            const { registry, send } = await bound('shape');
+            send(CC, 1, 0);
+            expect(registry.getParameter('main', 'shape')).toBe('a');
+            send(CC, 1, 70);
+            expect(registry.getParameter('main', 'shape')).toBe('c');
+            send(CC, 1, 127);
+            expect(registry.getParameter('main', 'shape')).toBe('d');
+        });
+
+        it('switches a boolean at the midpoint', async () => {
+            const { registry, send } = await bound('lines');
+            send(CC, 1, 63);
+            expect(registry.getParameter('main', 'lines')).toBe(false);
+            send(CC, 1, 64);
+            expect(registry.getParameter('main', 'lines')).toBe(true);
+        });
+
+        it('drives parameters of inactive modes', async () => {
+            const { registry, send } = await bound('count');
+            send(CC, 1, 127);
+            expect(registry.getActiveId()).toBeNull();
+            expect(registry.getParameter('main', 'count')).toBe(100);
+        });
+    });
+
+    describe('notes', () => {
+        async function bound(key: string) {
+            const harness = await createHarness();
+            harness.midi.learn({ type: 'parameter', mode: 'main', key });
+            harness.send(NOTE_ON, 36, 100);
+            return harness;
+        }
+
+        it('toggle a boolean on each press', async () => {
+            const { registry, send } = await bound('lines');
+            send(NOTE_ON, 36, 100);
+            expect(registry.getParameter('main', 'lines')).toBe(false);
+            send(NOTE_OFF, 36, 0);
+            expect(registry.getParameter('main', 'lines')).toBe(false);
+            send(NOTE_ON, 36, 100);
+            expect(registry.getParameter('main', 'lines')).toBe(true);
+        });
+
+        it('step through select options, wrapping around', async () => {
+            const { registry, send } = await bound('shape');
+            const seen: ParameterValue[] = [];
+            for (let i = 0; i < 5; i++) {
+                send(NOTE_ON, 36, 100);
+                seen.push(registry.getParameter('main', 'shape')!);
+            }
+            expect(seen).toEqual(['b', 'c', 'd', 'a', 'b']);
+        });
+
+        it('set a number from velocity without soft takeover', async () => {
+            const { registry, send } = await bound('count');
+            send(NOTE_ON, 36, 127);
+            expect(registry.getParameter('main', 'count')).toBe(100);
+        });
+    });
+
+    describe('soft takeover', () => {
+        // count starts at 50, i.e. position ~0.5
+        async function bound() {
+            const harness = await createHarness();
+            harness.midi.learn({ type: 'parameter', mode: 'main', key: 'count' });
+            harness.send(CC, 1, 10);
+            return harness;
+        }
+
+        it('ignores a control until it crosses the current value', async () => {
+            const { registry, send } = await bound();
+            send(CC, 1, 20);
+            send(CC, 1, 40);
+            expect(registry.getParameter('main', 'count')).toBe(50);
+            send(CC, 1, 90);
+            expect(registry.getParameter('main', 'count')).toBe(71);
+            send(CC, 1, 0);
+            expect(registry.getParameter('main', 'count')).toBe(0);
+        });
+
+        it('picks up a control that lands within tolerance', async () => {
+            const { registry, send } = await bound();
+            send(CC, 1, 66);
+            expect(registry.getParameter('main', 'count')).toBe(52);
+        });
+
+        it('lets go after the value changes elsewhere', async () => {
+            const { registry, send } = await bound();
+            send(CC, 1, 100);
+            send(CC, 1, 64);
+            expect(registry.getParameter('main', 'count')).toBe(50);
+
+            registry.setParameter('main', 'count', 90);
+            send(CC, 1, 70);
+            expect(registry.getParameter('main', 'count')).toBe(90);
+            send(CC, 1, 120);
+            expect(registry.getParameter('main', 'count')).toBe(94);
+        });
+
+        it('applies every move when turned off', async () => {
+            const { midi, registry, send } = await bound();
+            midi.setSoftTakeover(false);
+            send(CC, 1, 0);
+            expect(registry.getParameter('main', 'count')).toBe(0);
+        });
+    });
+
+    describe('triggers', () => {
+        it('switch mode on a rising CC edge only', async () => {
+            const { midi, calls, send } = await createHarness();
+            midi.learn({ type: 'mode', mode: 'other' });
+            send(CC, 5, 0);
+            send(CC, 5, 127);
+            send(CC, 5, 100);
+            send(CC, 5, 10);
+            send(CC, 5, 127);
+            expect(calls).toEqual(['mode:other', 'mode:other']);
+        });
+
+        it('recall a preset on note-on, not note-off', async () => {
+            const { midi, calls, send } = await createHarness();
+            midi.learn({ type: 'preset', name: 'Default' });
+            send(NOTE_ON, 40, 90);
+            send(NOTE_ON, 40, 90);
+            send(NOTE_OFF, 40, 0);
+            send(NOTE_ON, 40, 0);
+            send(NOTE_ON, 40, 90);
+            expect(calls).toEqual(['preset:Default', 'preset:Default']);
+        });
+
+        it('skip modes that are not registered', async () => {
+            const { midi, calls, send } = await createHarness();
+            midi.learn({ type: 'mode', mode: 'gone' });
+            send(NOTE_ON, 40, 90);
+            send(NOTE_ON, 40, 90);
+            expect(calls).toEqual([]);
+        });
+    });
+
+    describe('storage', () => {
+        it('restores mappings and soft takeover', async () => {
+            const { midi, send } = await createHarness();
+            midi.setSoftTakeover(false);
+            midi.learn({ type: 'parameter', mode: 'main', key: 'count' });
+            send(CC | 15, 7, 0);
+            midi.learn({ type: 'preset', name: 'Default' });
+            send(NOTE_ON, 60, 1);
+
+            const restored = new MidiController(createRegistry(), { activateMode: () => undefined, applyPreset: () => undefined },
+                () => Promise.reject(new Error('unused')));
+            expect(restored.getSoftTakeover()).toBe(false);
+            expect(restored.getMappings()).toEqual(midi.getMappings());
+            expect(restored.getMappings()[0].channel).toBe(16);
+        });
+
+        it('skips malformed mappings and keeps the valid ones', () => {
+            const valid = { channel: 1, control: 'cc', number: 1, action: { type: 'mode', mode: 'main' } };
+            store['visualizer-midi'] = JSON.stringify({
+                softTakeover: 'yes',
+                mappings: [
+                    valid,
+                    { ...valid, channel: 17 },
+                    { ...valid, control: 'pitchbend' },
+                    { ...valid, number: 128 },
+                    { ...valid, action: { type: 'parameter', mode: 'main' } },
+                    { ...valid, action: { type: 'launch' } },
+                    null,
+                    'CC 1'
+                ]
+            });
+            const midi = new MidiController(createRegistry(), { activateMode: () => undefined, applyPreset: () => undefined });
+            expect(midi.getMappings()).toEqual([valid]);
+            expect(midi.getSoftTakeover()).toBe(true);
+        });
+
+        it('ignores storage that is not JSON', () => {
+            store['visualizer-midi'] = '{not json';
+            jest.spyOn(console, 'error').mockImplementation(() => undefined);
+            const midi = new MidiController(createRegistry(), { activateMode: () => undefined, applyPreset: () => undefined });
+            expect(midi.getMappings()).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,431 @@
+import { ParameterDefinition, ParameterValue } from './visualizer';
+import { VisualizerRegistry } from './visualizerRegistry';
+
+/**
+ * The parts of the Web MIDI API the controller uses. Anything shaped like this works,
+ * so a simulated access (e.g. in tests) can stand in for navigator.requestMIDIAccess().
+ */
+export interface MidiInputLike {
+    id: string;
+    name?: string | null;
+    onmidimessage: ((event: { data: Uint8Array | null }) => void) | null;
+}
+
+export interface MidiAccessLike {
+    inputs: { forEach(callback: (input: MidiInputLike) => void): void };
+    onstatechange: ((event: Event) => void) | null;
+}
+
+export type MidiAccessRequest = () => Promise<MidiAccessLike>;
+
+export type MidiControlType = 'cc' | 'note';
+
+/**
+ * What a learned control does: drive a parameter, switch mode or recall a preset.
+ */
+export type MidiAction =
+    | { type: 'parameter', mode: string, key: string }
+    | { type: 'mode', mode: string }
+    | { type: 'preset', name: string };
+
+export interface MidiMapping {
+    /** MIDI channel, 1-16 */
+    channel: number;
+    control: MidiControlType;
+    /** Controller or note number, 0-127 */
+    number: number;
+    action: MidiAction;
+}
+
+export type MidiStatus = 'unavailable' | 'idle' | 'requesting' | 'connected' | 'denied';
+
+export interface MidiHandlers {
+    activateMode(id: string): void;
+    applyPreset(name: string): void;
+}
+
+/**
+ * Web MIDI input with MIDI-learn.
+ *
+ * learn(action) arms the controller; the next control change or note-on received is bound
+ * to that action, replacing any mapping that control had. Controls map as follows:
+ *   - CC on a number or select parameter sets it across its range (log sliders in log space);
+ *     on a boolean, values of 64 and up mean on
+ *   - a note toggles a boolean parameter and steps a select; velocity sets a number
+ *   - mode switches and preset recalls fire on note-on, or when a CC rises through 64
+ *
+ * With soft takeover, an absolute control (CC on a number or select) only takes over once it
+ * reaches the parameter's current value, so a knob left elsewhere doesn't make the value jump
+ * after a preset, a mode switch or an edit in the panel.
+ *
+ * Mappings and the soft-takeover setting are kept in localStorage.
+ */
+export class MidiController {
+    private registry: VisualizerRegistry;
+    private handlers: MidiHandlers;
+    private requestAccess: MidiAccessRequest | null;
+    private access: MidiAccessLike | null = null;
+    private status: MidiStatus;
+    private mappings: MidiMapping[] = [];
+    private softTakeover: boolean = true;
+    private learning: MidiAction | null = null;
+    private listeners: (() => void)[] = [];
+    // Soft takeover state per control: last position received and whether it has caught the value
+    private positions: { [controlKey: string]: number } = {};
+    private pickedUp: { [controlKey: string]: boolean } = {};
+    // Value last sent per control, to tell our own parameter changes from anyone else's
+    private sent: { [controlKey: string]: ParameterValue } = {};
+    private readonly STORAGE_KEY = 'visualizer-midi';
+    private readonly TAKEOVER_TOLERANCE = 3 / 127; // Close enough to count as caught, in 0-1 units
+
+    /**
+     * @param requestAccess Defaults to navigator.requestMIDIAccess() where the browser has it
+     */
+    constructor(registry: VisualizerRegistry, handlers: MidiHandlers, requestAccess?: MidiAccessRequest) {
+        this.registry = registry;
+        this.handlers = handlers;
+        if (requestAccess) {
+            this.requestAccess = requestAccess;
+        } else if (typeof navigator !== 'undefined' && typeof navigator.requestMIDIAccess === 'function') {
+            this.requestAccess = () => navigator.requestMIDIAccess() as unknown as Promise<MidiAccessLike>;
+        } else {
+            this.requestAccess = null;
+        }
+        this.status = this.requestAccess ? 'idle' : 'unavailable';
+        this.readStorage();
+
+        // Controls must catch up again whenever a value changes under them
+        registry.onParameterChange((id, key, value) => {
+            this.mappings.forEach(mapping => {
+                const action = mapping.action;
+                if (action.type !== 'parameter' || action.mode !== id || action.key !== key) return;
+                const controlKey = getControlKey(mapping);
+                if (this.sent[controlKey] !== value) this.pickedUp[controlKey] = false;
+            });
+        });
+    }
+
+    getStatus(): MidiStatus {
+        return this.status;
+    }
+
+    /**
+     * Ask for MIDI access and listen to every input, including ones plugged in later.
+     * Browsers only grant access after a user gesture, so call this from one.
+     */
+    async enable(): Promise<void> {
+        if (!this.requestAccess || this.access) return;
+        this.setStatus('requesting');
+        try {
+            const access = await this.requestAccess();
+            this.access = access;
+            access.onstatechange = () => this.attachInputs();
+            this.attachInputs();
+            this.setStatus('connected');
+            console.log('MIDI access granted');
+        } catch (error) {
+            console.warn('MIDI access denied:', error);
+            this.setStatus('denied');
+        }
+    }
+
+    /**
+     * Stop listening to every input. Mappings are kept.
+     */
+    disable() {
+        if (!this.access) return;
+        this.access.inputs.forEach(input => { input.onmidimessage = null; });
+        this.access.onstatechange = null;
+        this.access = null;
+        this.learning = null;
+        this.setStatus('idle');
+    }
+
+    getInputNames(): string[] {
+        const names: string[] = [];
+        if (this.access) {
+            this.access.inputs.forEach(input => names.push(input.name || input.id));
+        }
+        return names;
+    }
+
+    getMappings(): MidiMapping[] {
+        return this.mappings.map(mapping => ({ ...mapping, action: { ...mapping.action } }));
+    }
+
+    /**
+     * Mappings bound to an action, e.g. to show which control drives a parameter.
+     */
+    getMappingsFor(action: MidiAction): MidiMapping[] {
+        return this.getMappings().filter(mapping => sameAction(mapping.action, action));
+    }
+
+    removeMapping(mapping: MidiMapping) {
+        const key = getControlKey(mapping);
+        this.mappings = this.mappings.filter(m => getControlKey(m) !== key);
+        this.commit();
+    }
+
+    clearMappings() {
+        this.mappings = [];
+        this.commit();
+    }
+
+    /**
+     * Bind the next control moved to this action.
+     */
+    learn(action: MidiAction) {
+        this.learning = { ...action };
+        this.notify();
+    }
+
+    cancelLearn() {
+        if (!this.learning) return;
+        this.learning = null;
+        this.notify();
+    }
+
+    getLearning(): MidiAction | null {
+        return this.learning ? { ...this.learning } : null;
+    }
+
+    getSoftTakeover(): boolean {
+        return this.softTakeover;
+    }
+
+    setSoftTakeover(enabled: boolean) {
+        this.softTakeover = enabled;
+        this.pickedUp = {};
+        this.commit();
+    }
+
+    /**
+     * Subscribe to changes in status, mappings or learn state. Returns a function that
+     * removes the listener.
+     */
+    onChange(listener: () => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    /**
+     * Handle one raw MIDI message. Inputs feed this; it can also be called directly.
+     * Only control change, note-on and note-off matter; everything else is ignored.
+     */
+    handleMessage(data: ArrayLike<number>) {
+        if (data.length < 3) return;
+        const command = data[0] & 0xf0;
+        const channel = (data[0] & 0x0f) + 1;
+        const number = data[1] & 0x7f;
+        const value = data[2] & 0x7f;
+
+        let control: MidiControlType;
+        if (command === 0xb0) {
+            control = 'cc';
+        } else if (command === 0x90 && value > 0) {
+            control = 'note';
+        } else if (command === 0x80 || command === 0x90) {
+            // Note-off (or note-on at velocity 0) ends a press; nothing is mapped to releases
+            return;
+        } else {
+            return;
+        }
+
+        if (this.learning) {
+            this.bind({ channel, control, number, action: this.learning });
+            return;
+        }
+
+        const controlKey = `${channel}:${control}:${number}`;
+        const mapping = this.mappings.find(m => getControlKey(m) === controlKey);
+        const previous = this.positions[controlKey];
+        this.positions[controlKey] = value / 127;
+        if (!mapping) return;
+
+        const action = mapping.action;
+        if (action.type === 'parameter') {
+            this.driveParameter(mapping, value / 127, previous);
+            return;
+        }
+        // Triggers fire on a press, or on a fader or button crossing the middle upwards
+        const pressed = control === 'note' || (value >= 64 && (previous === undefined || previous < 64 / 127));
+        if (!pressed) return;
+        if (action.type === 'mode') {
+            if (this.registry.has(action.mode)) this.handlers.activateMode(action.mode);
+        } else {
+            this.handlers.applyPreset(action.name);
+        }
+    }
+
+    private driveParameter(mapping: MidiMapping, position: number, previous: number | undefined) {
+        const action = mapping.action as { mode: string, key: string };
+        const definition = this.registry.getParameterSchema(action.mode).find(d => d.key === action.key);
+        if (!definition || definition.type === 'string') return;
+        const current = this.registry.getParameter(action.mode, action.key);
+        const controlKey = getControlKey(mapping);
+
+        let value: ParameterValue;
+        if (mapping.control === 'note' && definition.type === 'boolean') {
+            value = !current;
+        } else if (mapping.control === 'note' && definition.type === 'select') {
+            const options = definition.options || [];
+            if (options.length === 0) return;
+            const index = options.findIndex(option => option.value === current);
+            value = options[(index + 1) % options.length].value;
+        } else if (definition.type === 'boolean') {
+            value = position >= 0.5;
+        } else {
+            if (this.softTakeover && mapping.control === 'cc' && !this.pickedUp[controlKey]) {
+                const target = toPosition(definition, current);
+                const crossed = previous !== undefined && (previous - target) * (position - target) <= 0;
+                if (!crossed && Math.abs(position - target) > this.TAKEOVER_TOLERANCE) return;
+                this.pickedUp[controlKey] = true;
+            }
+            value = fromPosition(definition, position);
+        }
+
+        if (value === current) return;
+        this.sent[controlKey] = value;
+        this.registry.setParameter(action.mode, action.key, value);
+    }
+
+    /**
+     * Store a learned mapping. A control drives one action, so an earlier mapping of the
+     * same control is replaced.
+     */
+    private bind(mapping: MidiMapping) {
+        const key = getControlKey(mapping);
+        this.mappings = this.mappings.filter(m => getControlKey(m) !== key).concat([mapping]);
+        this.learning = null;
+        // The control is where the user left it; let soft takeover decide from here
+        this.pickedUp[key] = false;
+        console.log(`MIDI ${describeControl(mapping)} mapped to ${describeAction(mapping.action)}`);
+        this.commit();
+    }
+
+    private attachInputs() {
+        if (!this.access) return;
+        this.access.inputs.forEach(input => {
+            input.onmidimessage = event => {
+                if (event.data) this.handleMessage(event.data);
+            };
+        });
+        this.notify();
+    }
+
+    private setStatus(status: MidiStatus) {
+        this.status = status;
+        this.notify();
+    }
+
+    /**
+     * Load stored mappings. Malformed entries are logged and skipped.
+     */
+    private readStorage() {
+        const saved = localStorage.getItem(this.STORAGE_KEY);
+        if (!saved) return;
+        try {
+            const stored = JSON.parse(saved) as { softTakeover?: unknown, mappings?: unknown };
+            if (typeof stored.softTakeover === 'boolean') this.softTakeover = stored.softTakeover;
+            if (Array.isArray(stored.mappings)) {
+                stored.mappings.forEach(entry => {
+                    if (isMapping(entry)) {
+                        this.mappings.push(entry);
+                    } else {
+                        console.warn('Skipping stored MIDI mapping:', entry);
+                    }
+                });
+            }
+        } catch (error) {
+            console.error('Stored MIDI mappings are not valid JSON and were ignored:', error);
+        }
+    }
+
+    private commit() {
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify({ softTakeover: this.softTakeover, mappings: this.mappings }));
+        this.notify();
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+function getControlKey(mapping: MidiMapping): string {
+    return `${mapping.channel}:${mapping.control}:${mapping.number}`;
+}
+
+function sameAction(a: MidiAction, b: MidiAction): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function describeControl(mapping: MidiMapping): string {
+    return `${mapping.control === 'cc' ? 'CC' : 'Note'} ${mapping.number} (ch ${mapping.channel})`;
+}
+
+export function describeAction(action: MidiAction): string {
+    switch (action.type) {
+        case 'parameter': return `${action.mode} / ${action.key}`;
+        case 'mode': return `mode ${action.mode}`;
+        case 'preset': return `preset "${action.name}"`;
+    }
+}
+
+function isMapping(raw: unknown): raw is MidiMapping {
+    if (typeof raw !== 'object' || raw === null) return false;
+    const mapping = raw as { [key: string]: unknown };
+    const action = mapping.action as { [key: string]: unknown } | null;
+    if (typeof mapping.channel !== 'number' || mapping.channel < 1 || mapping.channel > 16) return false;
+    if (mapping.control !== 'cc' && mapping.control !== 'note') return false;
+    if (typeof mapping.number !== 'number' || mapping.number < 0 || mapping.number > 127) return false;
+    if (typeof action !== 'object' || action === null) return false;
+    switch (action.type) {
+        case 'parameter': return typeof action.mode === 'string' && typeof action.key === 'string';
+        case 'mode': return typeof action.mode === 'string';
+        case 'preset': return typeof action.name === 'string';
+    }
+    return false;
+}
+
+/**
+ * Where a parameter value sits on a control's 0-1 travel; the inverse of fromPosition().
+ */
+function toPosition(definition: ParameterDefinition, value: ParameterValue | undefined): number {
+    if (definition.type === 'select') {
+        const options = definition.options || [];
+        const index = options.findIndex(option => option.value === value);
+        return options.length > 0 ? (Math.max(0, index) + 0.5) / options.length : 0;
+    }
+    const min = definition.min !== undefined ? definition.min : 0;
+    const max = definition.max !== undefined ? definition.max : 1;
+    const number = Number(value);
+    if (max === min || !isFinite(number)) return 0;
+    if (definition.scale === 'log' && min > 0) {
+        return Math.log(Math.max(min, number) / min) / Math.log(max / min);
+    }
+    return Math.max(0, Math.min(1, (number - min) / (max - min)));
+}
+
+/**
+ * Parameter value at a 0-1 control position: the select option at that fraction of the
+ * list, or a number across the slider range, stepped and in log space for log sliders.
+ */
+function fromPosition(definition: ParameterDefinition, position: number): ParameterValue {
+    if (definition.type === 'select') {
+        const options = definition.options || [];
+        const index = Math.min(options.length - 1, Math.floor(position * options.length));
+        return options.length > 0 ? options[index].value : definition.default;
+    }
+    const min = definition.min !== undefined ? definition.min : 0;
+    const max = definition.max !== undefined ? definition.max : 1;
+    if (definition.scale === 'log' && min > 0) {
+        return min * Math.pow(max / min, position);
+    }
+    let value = min + (max - min) * position;
+    if (definition.step) {
+        value = Math.min(max, min + Math.round((value - min) / definition.step) * definition.step);
+    }
+    return value;
+}
@@ -0,0 +1,311 @@
+import { AudioFrame } from './audio/audioFrame';
+import { AUDIO_SOURCES, AUDIO_SOURCE_LABELS, AudioSource, readAudioSource } from './audio/audioSources';
+import { ParameterDefinition, ParameterValue } from './visualizer';
+import { VisualizerRegistry } from './visualizerRegistry';
+
+/**
+ * Signals a parameter can follow: every audio source plus a free-running LFO.
+ */
+export type ModulationSource = Exclude<AudioSource, 'none'> | 'lfo';
+
+export const MODULATION_SOURCES: ModulationSource[] = (AUDIO_SOURCES.filter(source => source !== 'none') as ModulationSource[]).concat(['lfo']);
+
+export const MODULATION_SOURCE_LABELS: { [source in ModulationSource]: string } = {
+    ...AUDIO_SOURCE_LABELS,
+    lfo: 'LFO'
+};
+
+export type ModulationCurve = 'linear' | 'exponential' | 'logarithmic' | 's-curve';
+
+export const MODULATION_CURVES: ModulationCurve[] = ['linear', 'exponential', 'logarithmic', 's-curve'];
+
+export type LfoShape = 'sine' | 'triangle' | 'saw' | 'square';
+
+export const LFO_SHAPES: LfoShape[] = ['sine', 'triangle', 'saw', 'square'];
+
+/**
+ * One binding of a source to a parameter of a mode. A parameter has at most one route.
+ */
+export interface ModulationRoute {
+    /** Parameter key in the mode's schema */
+    target: string;
+    source: ModulationSource;
+    /** Parameter value at source level 0 and 1; max may be below min */
+    min: number;
+    max: number;
+    curve: ModulationCurve;
+    /** Time constant of the smoothing applied to the source, in seconds */
+    smoothing: number;
+    invert: boolean;
+    enabled: boolean;
+    /** LFO rate in Hz and waveform, used when the source is 'lfo' */
+    lfoRate: number;
+    lfoShape: LfoShape;
+}
+
+/**
+ * Parameter types a route can drive: numbers directly, booleans above half level, and
+ * selects by stepping through their options.
+ */
+export function isModulatable(definition: ParameterDefinition): boolean {
+    return definition.type === 'number' || definition.type === 'boolean' || definition.type === 'select';
+}
+
+/**
+ * Range a route's min and max live in: the slider range for numbers, 0-1 otherwise.
+ */
+export function getModulationRange(definition: ParameterDefinition): [number, number] {
+    if (definition.type === 'number') {
+        return [definition.min !== undefined ? definition.min : 0, definition.max !== undefined ? definition.max : 1];
+    }
+    return [0, 1];
+}
+
+/**
+ * Route over a parameter's full range, following the bass.
+ */
+export function createRoute(definition: ParameterDefinition): ModulationRoute {
+    const [min, max] = getModulationRange(definition);
+    return {
+        target: definition.key, source: 'bass', min, max, curve: 'linear',
+        smoothing: 0.1, invert: false, enabled: true, lfoRate: 0.25, lfoShape: 'sine'
+    };
+}
+
+/**
+ * Check a route read from a preset against the target mode's schema. Returns null (and
+ * records why) when the route can't be used.
+ */
+export function validateRoute(raw: unknown, definitions: ParameterDefinition[], path: string,
+                              errors: string[], warnings: string[]): ModulationRoute | null {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        errors.push(`${path} must be an object`);
+        return null;
+    }
+    const route = raw as { [key: string]: unknown };
+    const definition = definitions.find(d => d.key === route.target);
+    if (!definition || !isModulatable(definition)) {
+        warnings.push(`${path}: no modulatable parameter "${String(route.target)}", ignored`);
+        return null;
+    }
+
+    const fallback = createRoute(definition);
+    const count = errors.length;
+    const number = (key: 'min' | 'max' | 'smoothing' | 'lfoRate'): number => {
+        const value = route[key];
+        if (value === undefined) return fallback[key];
+        if (typeof value !== 'number' || !isFinite(value)) {
+            errors.push(`${path}.${key} must be a number, got ${JSON.stringify(value)}`);
+            return fallback[key];
+        }
+        return value;
+    };
+    const flag = (key: 'invert' | 'enabled'): boolean => {
+        const value = route[key];
+        if (value === undefined) return fallback[key];
+        if (typeof value !== 'boolean') {
+            errors.push(`${path}.${key} must be true or false, got ${JSON.stringify(value)}`);
+            return fallback[key];
+        }
+        return value;
+    };
+    const oneOf = <T extends string>(key: string, allowed: T[], defaultValue: T): T => {
+        const value = route[key];
+        if (value === undefined) return defaultValue;
+        if (typeof value !== 'string' || allowed.indexOf(value as T) === -1) {
+            errors.push(`${path}.${key} must be one of ${allowed.join(', ')}, got ${JSON.stringify(value)}`);
+            return defaultValue;
+        }
+        return value as T;
+    };
+
+    const result: ModulationRoute = {
+        target: definition.key,
+        source: oneOf('source', MODULATION_SOURCES, fallback.source),
+        min: number('min'),
+        max: number('max'),
+        curve: oneOf('curve', MODULATION_CURVES, fallback.curve),
+        smoothing: Math.max(0, number('smoothing')),
+        invert: flag('invert'),
+        enabled: flag('enabled'),
+        lfoRate: Math.max(0, number('lfoRate')),
+        lfoShape: oneOf('lfoShape', LFO_SHAPES, fallback.lfoShape)
+    };
+    return errors.length === count ? result : null;
+}
+
+/**
+ * Modulation matrix: routes from audio sources and LFOs to visualizer parameters, kept
+ * per mode and evaluated every frame for the active one.
+ *
+ * Per route, the source level (0-1) is smoothed, optionally inverted, shaped by the curve
+ * and mapped onto [min, max]. The result goes to the visualizer through
+ * VisualizerRegistry.modulate(), so the user's own value stays the one that is saved,
+ * shown in the panel and restored when the route is removed.
+ *
+ * Numerical method: One-pole low-pass per route, coefficient 1 - exp(-dt / smoothing)
+ */
+export class ModulationMatrix {
+    private registry: VisualizerRegistry;
+    private routes: { [visualizerId: string]: ModulationRoute[] } = {};
+    private smoothed: { [routeKey: string]: number } = {};
+    private outputs: { [routeKey: string]: number } = {};
+    private time: number = 0;
+    private listeners: (() => void)[] = [];
+
+    constructor(registry: VisualizerRegistry) {
+        this.registry = registry;
+        // Routes of the previous mode died with its instance; start the new one from rest
+        registry.onChange(() => {
+            this.smoothed = {};
+            this.outputs = {};
+        });
+    }
+
+    getRoutes(visualizerId: string): ModulationRoute[] {
+        return (this.routes[visualizerId] || []).slice();
+    }
+
+    getAllRoutes(): { [visualizerId: string]: ModulationRoute[] } {
+        const copy: { [visualizerId: string]: ModulationRoute[] } = {};
+        Object.keys(this.routes).forEach(id => {
+            if (this.routes[id].length > 0) copy[id] = this.routes[id].map(route => ({ ...route }));
+        });
+        return copy;
+    }
+
+    /**
+     * Add a route, or replace the one already driving the same parameter.
+     */
+    setRoute(visualizerId: string, route: ModulationRoute) {
+        const routes = this.routes[visualizerId] || (this.routes[visualizerId] = []);
+        const index = routes.findIndex(r => r.target === route.target);
+        if (index !== -1) {
+            routes[index] = { ...route };
+        } else {
+            routes.push({ ...route });
+        }
+        if (!route.enabled) {
+            this.registry.releaseModulation(visualizerId, route.target);
+        }
+        this.notify();
+    }
+
+    removeRoute(visualizerId: string, target: string) {
+        const routes = this.routes[visualizerId];
+        if (!routes) return;
+        this.routes[visualizerId] = routes.filter(route => route.target !== target);
+        this.registry.releaseModulation(visualizerId, target);
+        delete this.smoothed[`${visualizerId}:${target}`];
+        delete this.outputs[`${visualizerId}:${target}`];
+        this.notify();
+    }
+
+    /**
+     * Replace every route, e.g. when applying a preset.
+     */
+    setAllRoutes(routes: { [visualizerId: string]: ModulationRoute[] }) {
+        Object.keys(this.routes).forEach(id => {
+            this.routes[id].forEach(route => this.registry.releaseModulation(id, route.target));
+        });
+        this.routes = {};
+        Object.keys(routes).forEach(id => {
+            this.routes[id] = routes[id].map(route => ({ ...route }));
+        });
+        this.smoothed = {};
+        this.outputs = {};
+        this.notify();
+    }
+
+    /**
+     * Last shaped level (0-1) of a route, for meters in the UI.
+     */
+    getOutput(visualizerId: string, target: string): number {
+        return this.outputs[`${visualizerId}:${target}`] || 0;
+    }
+
+    /**
+     * Subscribe to route changes. Returns a function that removes the listener.
+     */
+    onChange(listener: () => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    /**
+     * Evaluate the active mode's routes for this frame and push the results to it.
+     */
+    update(frame: AudioFrame) {
+        const dt = Math.min(frame.dt, 0.1);
+        this.time += dt;
+        const id = this.registry.getActiveId();
+        if (!id || !this.routes[id]) return;
+        const schema = this.registry.getParameterSchema(id);
+
+        this.routes[id].forEach(route => {
+            if (!route.enabled) return;
+            const definition = schema.find(d => d.key === route.target);
+            if (!definition) return;
+
+            const key = `${id}:${route.target}`;
+            const raw = route.source === 'lfo' ? this.readLfo(route) : readAudioSource(frame, route.source);
+            const previous = this.smoothed[key] !== undefined ? this.smoothed[key] : raw;
+            const alpha = route.smoothing > 0 ? 1 - Math.exp(-dt / route.smoothing) : 1;
+            const level = previous + (raw - previous) * alpha;
+            this.smoothed[key] = level;
+
+            const shaped = applyCurve(route.invert ? 1 - level : level, route.curve);
+            this.outputs[key] = shaped;
+            this.registry.modulate(id, route.target, toParameterValue(definition, route.min + (route.max - route.min) * shaped));
+        });
+    }
+
+    private readLfo(route: ModulationRoute): number {
+        const phase = (this.time * route.lfoRate) % 1;
+        switch (route.lfoShape) {
+            case 'sine': return 0.5 - 0.5 * Math.cos(phase * Math.PI * 2);
+            case 'triangle': return phase < 0.5 ? phase * 2 : 2 - phase * 2;
+            case 'saw': return phase;
+            case 'square': return phase < 0.5 ? 1 : 0;
+        }
+        return 0;
+    }
+
+    private notify() {
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+function applyCurve(x: number, curve: ModulationCurve): number {
+    const t = Math.max(0, Math.min(1, x));
+    switch (curve) {
+        case 'linear': return t;
+        case 'exponential': return t * t;
+        case 'logarithmic': return Math.sqrt(t);
+        case 's-curve': return t * t * (3 - 2 * t);
+    }
+    return t;
+}
+
+/**
+ * Convert a mapped value to the parameter's type: stepped and clamped numbers, booleans
+ * above one half, or the select option at that fraction of the list.
+ */
+function toParameterValue(definition: ParameterDefinition, value: number): ParameterValue {
+    if (definition.type === 'boolean') {
+        return value >= 0.5;
+    }
+    if (definition.type === 'select') {
+        const options = definition.options || [];
+        const index = Math.min(options.length - 1, Math.max(0, Math.floor(value * options.length)));
+        return options.length > 0 ? options[index].value : definition.default;
+    }
+    const [min, max] = getModulationRange(definition);
+    let result = Math.max(min, Math.min(max, value));
+    if (definition.step) {
+        result = min + Math.round((result - min) / definition.step) * definition.step;
+    }
+    return result;
+}
@@ -0,0 +1,391 @@
+import { PerlinNoise } from './perlinNoise';
+
+/**
+ * Audio-driven force fields: one force center per frequency band, arranged by a layout,
+ * pushing particles according to a force law, each with its own polarity.
+ *
+ * Numerical methods:
+ * - Inverse-square attraction (gravity-like), potential -K*I/r
+ * - Hooke's-law springs, potential K*I*s*r²/2
+ * - Point vortices: tangential velocity field falling off as 1/r (non-conservative)
+ * - Logarithmic repulsion (2D point charge), potential -K*I*s*ln(r)
+ * - Flow field: acceleration along the angle of 3D Perlin noise (x, y, time), scaled by
+ *   the distance-weighted intensity of nearby centers (non-conservative)
+ *
+ * Nothing here touches the DOM, so it runs unchanged under Node for testing.
+ */
+
+export type ForceLayout = 'ring' | 'line' | 'grid' | 'custom';
+
+export const FORCE_LAYOUTS: ForceLayout[] = ['ring', 'line', 'grid', 'custom'];
+
+export type ForceLaw = 'inverse-square' | 'spring' | 'vortex' | 'repulsion' | 'flow';
+
+export const FORCE_LAWS: ForceLaw[] = ['inverse-square', 'spring', 'vortex', 'repulsion', 'flow'];
+
+/** How band polarities are chosen; 'custom' uses the per-band values */
+export type PolarityPattern = 'attract' | 'repel' | 'alternate' | 'custom';
+
+export const POLARITY_PATTERNS: PolarityPattern[] = ['attract', 'repel', 'alternate', 'custom'];
+
+export interface ForceCenter {
+    x: number;
+    y: number;
+    intensity: number;
+    /** +1 pulls particles in (or spins counter-clockwise), -1 pushes them out */
+    polarity: number;
+}
+
+export interface Force {
+    fx: number;
+    fy: number;
+}
+
+export class ForceField {
+    private layout: ForceLayout = 'ring';
+    private law: ForceLaw = 'inverse-square';
+    private strength: number = 10.0;
+    private scale: number = 0.25;  // Layout size as a fraction of the screen
+    private polarityPattern: PolarityPattern = 'attract';
+    /** Per-band polarity used by the 'custom' pattern */
+    private bandPolarity: number[] = [];
+    /** Normalized (0-1) positions used by the 'custom' layout */
+    private customPositions: { x: number, y: number }[] = [];
+    private centers: ForceCenter[] = [];
+    private width: number = 1;
+    private height: number = 1;
+    private time: number = 0;
+    private noise: PerlinNoise = new PerlinNoise(7);
+
+    private readonly MIN_DISTANCE = 1;  // Skip centers closer than this to avoid extreme forces
+    private readonly SPRING_SCALE = 1e-4;
+    private readonly VORTEX_SCALE = 1.0;
+    private readonly REPULSION_SCALE = 1.0;
+    private readonly FLOW_SCALE = 0.02;
+    private readonly FLOW_FREQUENCY = 0.004;  // Noise lattice cells per pixel
+    private readonly FLOW_SPEED = 0.2;  // Noise drift through time, lattice cells per second
+
+    setLayout(layout: ForceLayout) {
+        if (FORCE_LAYOUTS.indexOf(layout) === -1) return;
+        if (layout === 'custom' && this.customPositions.length === 0) {
+            this.copyPositions();
+        }
+        this.layout = layout;
+        this.arrange();
+    }
+
+    getLayout(): ForceLayout {
+        return this.layout;
+    }
+
+    setLaw(law: ForceLaw) {
+        if (FORCE_LAWS.indexOf(law) !== -1) this.law = law;
+    }
+
+    getLaw(): ForceLaw {
+        return this.law;
+    }
+
+    setStrength(strength: number) {
+        this.strength = strength;
+    }
+
+    getStrength(): number {
+        return this.strength;
+    }
+
+    setScale(scale: number) {
+        this.scale = Math.max(0.01, scale);
+        this.arrange();
+    }
+
+    getScale(): number {
+        return this.scale;
+    }
+
+    setPolarityPattern(pattern: PolarityPattern) {
+        if (POLARITY_PATTERNS.indexOf(pattern) === -1) return;
+        this.polarityPattern = pattern;
+        this.applyPolarity();
+    }
+
+    getPolarityPattern(): PolarityPattern {
+        return this.polarityPattern;
+    }
+
+    /**
+     * Flip one band between attracting and repelling. Switches to the 'custom' pattern,
+     * starting from the polarities currently in effect.
+     */
+    toggleBandPolarity(index: number) {
+        if (index < 0 || index >= this.centers.length) return;
+        this.bandPolarity = this.centers.map(c => c.polarity);
+        this.bandPolarity[index] = -this.bandPolarity[index];
+        this.polarityPattern = 'custom';
+        this.applyPolarity();
+    }
+
+    /**
+     * Move one center to a normalized (0-1) screen position. Switches to the 'custom' layout.
+     */
+    moveCenter(index: number, x: number, y: number) {
+        if (index < 0 || index >= this.centers.length) return;
+        if (this.layout !== 'custom') {
+            // Start editing from wherever the centers are now
+            this.copyPositions();
+            this.layout = 'custom';
+        }
+        this.customPositions[index] = { x: Math.max(0, Math.min(1, x)), y: Math.max(0, Math.min(1, y)) };
+        this.arrange();
+    }
+
+    /**
+     * Per-band polarities as a compact string, e.g. "+-+-+-+-", for saving in presets.
+     */
+    serializePolarity(): string {
+        return this.bandPolarity.map(p => (p < 0 ? '-' : '+')).join('');
+    }
+
+    parsePolarity(value: string) {
+        this.bandPolarity = value.split('').map(c => (c === '-' ? -1 : 1));
+        this.applyPolarity();
+    }
+
+    /**
+     * Custom positions as "x,y;x,y;..." in normalized screen coordinates, for saving in presets.
+     */
+    serializePositions(): string {
+        return this.customPositions.map(p => `${p.x.toFixed(4)},${p.y.toFixed(4)}`).join(';');
+    }
+
+    parsePositions(value: string) {
+        this.customPositions = value.split(';').filter(s => s.length > 0).map(pair => {
+            const [x, y] = pair.split(',').map(parseFloat);
+            return { x: isFinite(x) ? x : 0.5, y: isFinite(y) ? y : 0.5 };
+        });
+        this.arrange();
+    }
+
+    getCenters(): ForceCenter[] {
+        return this.centers;
+    }
+
+    /**
+     * Index of the center within `radius` pixels of (x, y), or -1.
+     */
+    findCenter(x: number, y: number, radius: number): number {
+        let best = -1;
+        let bestDistance = radius * radius;
+        this.centers.forEach((c, i) => {
+            const d = (c.x - x) * (c.x - x) + (c.y - y) * (c.y - y);
+            if (d <= bestDistance) {
+                best = i;
+                bestDistance = d;
+            }
+        });
+        return best;
+    }
+
+    /**
+     * Set the band intensities (one center per band) and the screen size, and advance the flow field.
+     */
+    update(intensities: ArrayLike<number>, width: number, height: number, dt: number) {
+        this.time += dt;
+        const resized = width !== this.width || height !== this.height;
+        this.width = width;
+        this.height = height;
+
+        if (intensities.length !== this.centers.length) {
+            this.centers = [];
+            for (let i = 0; i < intensities.length; i++) {
+                this.centers.push({ x: 0, y: 0, intensity: 0, polarity: 1 });
+            }
+            this.arrange();
+            this.applyPolarity();
+        } else if (resized) {
+            this.arrange();
+        }
+
+        for (let i = 0; i < intensities.length; i++) {
+            this.centers[i].intensity = intensities[i];
+        }
+    }
+
+    /**
+     * Total force of all centers on a unit particle at (x, y), written into `out`.
+     */
+    computeForce(x: number, y: number, out: Force) {
+        out.fx = 0;
+        out.fy = 0;
+
+        if (this.law === 'flow') {
+            this.computeFlowForce(x, y, out);
+            return;
+        }
+
+        for (let i = 0; i < this.centers.length; i++) {
+            const center = this.centers[i];
+            const dx = center.x - x;
+            const dy = center.y - y;
+            const distanceSquared = dx * dx + dy * dy;
+            const distance = Math.sqrt(distanceSquared);
+            if (distance < this.MIN_DISTANCE) continue;
+
+            const k = this.strength * center.intensity * center.polarity;
+            const dirX = dx / distance;
+            const dirY = dy / distance;
+
+            switch (this.law) {
+                case 'inverse-square': {
+                    // Numerical method: Inverse square law, F = K*I/r² toward the center
+                    const magnitude = k / distanceSquared;
+                    out.fx += dirX * magnitude;
+                    out.fy += dirY * magnitude;
+                    break;
+                }
+                case 'spring': {
+                    // Numerical method: Hooke's law, F = K*I*s*r toward the center
+                    const magnitude = k * this.SPRING_SCALE * distance;
+                    out.fx += dirX * magnitude;
+                    out.fy += dirY * magnitude;
+                    break;
+                }
+                case 'vortex': {
+                    // Numerical method: Point vortex, tangential force falling off as 1/r
+                    // (softened near the core so particles aren't flung out)
+                    const magnitude = k * this.VORTEX_SCALE / Math.max(distance, 20);
+                    out.fx += -dirY * magnitude;
+                    out.fy += dirX * magnitude;
+                    break;
+                }
+                case 'repulsion': {
+                    // Numerical method: 2D point charge, F = K*I*s/r away from the center
+                    const magnitude = k * this.REPULSION_SCALE / Math.max(distance, 10);
+                    out.fx -= dirX * magnitude;
+                    out.fy -= dirY * magnitude;
+                    break;
+                }
+            }
+        }
+    }
+
+    /**
+     * Potential energy of a unit particle at (x, y). Vortex and flow fields are not
+     * conservative and contribute nothing.
+     */
+    computePotential(x: number, y: number): number {
+        let potential = 0;
+        for (let i = 0; i < this.centers.length; i++) {
+            const center = this.centers[i];
+            const dx = center.x - x;
+            const dy = center.y - y;
+            const distance = Math.max(this.MIN_DISTANCE, Math.sqrt(dx * dx + dy * dy));
+            const k = this.strength * center.intensity * center.polarity;
+
+            switch (this.law) {
+                case 'inverse-square':
+                    potential -= k / distance;
+                    break;
+                case 'spring':
+                    potential += 0.5 * k * this.SPRING_SCALE * distance * distance;
+                    break;
+                case 'repulsion':
+                    potential -= k * this.REPULSION_SCALE * Math.log(Math.max(distance, 10));
+                    break;
+            }
+        }
+        return potential;
+    }
+
+    /**
+     * Numerical method: Perlin flow field
+     * Direction comes from noise; magnitude from center intensities weighted by a
+     * Cauchy falloff 1/(1 + (r/sigma)²), so the flow is strongest near loud bands.
+     */
+    private computeFlowForce(x: number, y: number, out: Force) {
+        const sigma = Math.max(1, this.scale * Math.min(this.width, this.height));
+        let weighted = 0;
+        let weights = 0;
+        for (let i = 0; i < this.centers.length; i++) {
+            const center = this.centers[i];
+            const dx = (center.x - x) / sigma;
+            const dy = (center.y - y) / sigma;
+            const w = 1 / (1 + dx * dx + dy * dy);
+            weighted += w * center.intensity * center.polarity;
+            weights += w;
+        }
+        if (weights === 0) return;
+
+        const angle = this.noise.noise3(x * this.FLOW_FREQUENCY, y * this.FLOW_FREQUENCY, this.time * this.FLOW_SPEED) * Math.PI * 2;
+        const magnitude = this.strength * this.FLOW_SCALE * (weighted / weights);
+        out.fx = Math.cos(angle) * magnitude;
+        out.fy = Math.sin(angle) * magnitude;
+    }
+
+    /**
+     * Place the centers according to the layout, low bands first.
+     */
+    private arrange() {
+        const n = this.centers.length;
+        const w = this.width;
+        const h = this.height;
+        const size = this.scale * Math.min(w, h);
+        const cols = Math.ceil(Math.sqrt(n));
+        const rows = Math.ceil(n / Math.max(1, cols));
+
+        this.centers.forEach((center, i) => {
+            switch (this.layout) {
+                case 'ring': {
+                    const angle = (2 * Math.PI * i) / n;
+                    center.x = w / 2 + size * Math.cos(angle);
+                    center.y = h / 2 + size * Math.sin(angle);
+                    break;
+                }
+                case 'line': {
+                    // Spectrum axis: low frequencies on the left
+                    const halfLength = Math.min(w / 2 - 10, size * 3);
+                    center.x = w / 2 + halfLength * (n > 1 ? (2 * i) / (n - 1) - 1 : 0);
+                    center.y = h / 2;
+                    break;
+                }
+                case 'grid': {
+                    const half = size * 1.2;
+                    const col = i % cols;
+                    const row = Math.floor(i / cols);
+                    center.x = w / 2 + half * (cols > 1 ? (2 * col) / (cols - 1) - 1 : 0);
+                    center.y = h / 2 + half * (rows > 1 ? (2 * row) / (rows - 1) - 1 : 0);
+                    break;
+                }
+                case 'custom': {
+                    const position = this.customPositions[i];
+                    if (position) {
+                        center.x = position.x * w;
+                        center.y = position.y * h;
+                    } else {
+                        // Bands without a saved position start on the ring
+                        const angle = (2 * Math.PI * i) / n;
+                        center.x = w / 2 + size * Math.cos(angle);
+                        center.y = h / 2 + size * Math.sin(angle);
+                        this.customPositions[i] = { x: center.x / w, y: center.y / h };
+                    }
+                    break;
+                }
+            }
+        });
+    }
+
+    private copyPositions() {
+        this.customPositions = this.centers.map(c => ({ x: c.x / this.width, y: c.y / this.height }));
+    }
+
+    private applyPolarity() {
+        this.centers.forEach((center, i) => {
+            switch (this.polarityPattern) {
+                case 'attract': center.polarity = 1; break;
+                case 'repel': center.polarity = -1; break;
+                case 'alternate': center.polarity = i % 2 === 0 ? 1 : -1; break;
+                case 'custom': center.polarity = this.bandPolarity[i] !== undefined ? this.bandPolarity[i] : 1; break;
+            }
+        });
+    }
+}
@@ -0,0 +1,32 @@
+import { FixedTimestep } from './integrators';
+
+/**
+ * Simulated time after running `seconds` of frames at `fps`.
+ */
+function simulate(timestep: FixedTimestep, fps: number, seconds: number): number {
+    let simulated = 0;
+    for (let frame = 0; frame < Math.round(seconds * fps); frame++) {
+        timestep.advance(1 / fps, dt => { simulated += dt; });
+    }
+    return simulated;
+}
+
+describe('FixedTimestep', () => {
+    it('keeps up with real time at high physics rates and low frame rates', () => {
+        expect(simulate(new FixedTimestep(1 / 480), 30, 10)).toBeCloseTo(10, 1);
+        expect(simulate(new FixedTimestep(1 / 120), 10, 10)).toBeCloseTo(10, 1);
+    });
+
+    it('keeps up after the step changes', () => {
+        const timestep = new FixedTimestep(1 / 60);
+        timestep.setStep(1 / 480);
+        expect(simulate(timestep, 10, 10)).toBeCloseTo(10, 1);
+    });
+
+    it('drops time beyond the longest expected frame', () => {
+        const timestep = new FixedTimestep(1 / 100, 0.1);
+        const steps = timestep.advance(1, () => undefined);
+        expect(steps).toBe(10);
+        expect(timestep.getAlpha()).toBe(0);
+    });
+});
@@ -0,0 +1,173 @@
+import { ParticleState } from './integrators';
+
+/**
+ * A pooled particle with lifecycle and render attributes on top of its physical state.
+ */
+export interface Particle extends ParticleState {
+    /** Position before the last physics step, for interpolating between steps when drawing */
+    prevX: number;
+    prevY: number;
+    /** Seconds since spawn */
+    age: number;
+    /** Seconds the particle lives; Infinity for persistent particles */
+    lifespan: number;
+    /** Radius multiplier */
+    size: number;
+    /** Hue in degrees, or -1 to follow the system's global tint */
+    hue: number;
+    /** Who spawned it: -1 for the ambient population, otherwise the emitting band (or NUM_BANDS for beats) */
+    source: number;
+    /** Set when a persistent particle was asked to leave; it fades out over the rest of its lifespan */
+    retiring: boolean;
+    /** Ring buffer of recent positions (x0, y0, x1, y1, ...), newest at trailHead */
+    trail: Float32Array;
+    trailHead: number;
+    trailCount: number;
+}
+
+export type LifeCurve = 'constant' | 'linear' | 'smooth' | 'flash';
+
+export const LIFE_CURVES: LifeCurve[] = ['constant', 'linear', 'smooth', 'flash'];
+
+/**
+ * Evaluate a 0-1 envelope at normalized age t (0 at spawn, 1 at death).
+ * Numerical method: Closed-form easing polynomials
+ */
+export function evaluateLifeCurve(curve: LifeCurve, t: number): number {
+    const x = Math.max(0, Math.min(1, t));
+    switch (curve) {
+        case 'constant':
+            // Hold, then a short fade so particles don't pop out of existence
+            return x < 0.9 ? 1 : (1 - x) / 0.1;
+        case 'linear':
+            return 1 - x;
+        case 'smooth': {
+            // Quick fade in over the first 10%, smoothstep fade out after
+            if (x < 0.1) return x / 0.1;
+            const u = (x - 0.1) / 0.9;
+            return 1 - u * u * (3 - 2 * u);
+        }
+        case 'flash':
+            return (1 - x) * (1 - x) * (1 - x);
+    }
+    return 1;
+}
+
+/**
+ * Fixed-capacity particle pool.
+ *
+ * Live particles are kept densely packed in one array (the same array instance for the
+ * pool's lifetime, so callers may hold on to it). Releasing swaps the particle with the last
+ * live one, so removal is O(1) and iteration never skips holes; released objects, including
+ * their trail buffers, are recycled by later spawns instead of being garbage collected.
+ */
+export class ParticlePool {
+    private active: Particle[] = [];
+    private free: Particle[] = [];
+    private capacity: number;
+    private trailCapacity: number;
+
+    /**
+     * @param capacity Maximum number of live particles
+     * @param trailCapacity Maximum trail length in positions
+     */
+    constructor(capacity: number, trailCapacity: number = 32) {
+        this.capacity = capacity;
+        this.trailCapacity = trailCapacity;
+    }
+
+    /**
+     * The live particles. Index order changes when particles are released.
+     */
+    getActive(): Particle[] {
+        return this.active;
+    }
+
+    getCount(): number {
+        return this.active.length;
+    }
+
+    getCapacity(): number {
+        return this.capacity;
+    }
+
+    getTrailCapacity(): number {
+        return this.trailCapacity;
+    }
+
+    /**
+     * Take a particle from the pool, reset to defaults at (x, y). Returns null when full.
+     */
+    spawn(x: number, y: number): Particle | null {
+        if (this.active.length >= this.capacity) return null;
+
+        const particle = this.free.pop() || this.create();
+        particle.x = x;
+        particle.y = y;
+        particle.prevX = x;
+        particle.prevY = y;
+        particle.vx = 0;
+        particle.vy = 0;
+        particle.mass = 1;
+        particle.age = 0;
+        particle.lifespan = Infinity;
+        particle.size = 1;
+        particle.hue = -1;
+        particle.source = -1;
+        particle.retiring = false;
+        particle.trailHead = 0;
+        particle.trailCount = 0;
+        this.active.push(particle);
+        return particle;
+    }
+
+    /**
+     * Return the particle at `index` to the pool. The last live particle takes its place.
+     */
+    release(index: number) {
+        const last = this.active.length - 1;
+        if (index < 0 || index > last) return;
+        const particle = this.active[index];
+        this.active[index] = this.active[last];
+        this.active.pop();
+        this.free.push(particle);
+    }
+
+    /**
+     * Advance every particle's age and release those that outlived their lifespan.
+     */
+    age(dt: number) {
+        // Iterate backwards so swap-removal never skips an unvisited particle
+        for (let i = this.active.length - 1; i >= 0; i--) {
+            const particle = this.active[i];
+            particle.age += dt;
+            if (particle.age >= particle.lifespan) {
+                this.release(i);
+            }
+        }
+    }
+
+    /**
+     * Append the particle's current position to its trail.
+     */
+    recordTrail(particle: Particle) {
+        particle.trailHead = (particle.trailHead + 1) % this.trailCapacity;
+        particle.trail[particle.trailHead * 2] = particle.x;
+        particle.trail[particle.trailHead * 2 + 1] = particle.y;
+        particle.trailCount = Math.min(particle.trailCount + 1, this.trailCapacity);
+    }
+
+    clear() {
+        while (this.active.length > 0) {
+            this.free.push(this.active.pop()!);
+        }
+    }
+
+    private create(): Particle {
+        return {
+            x: 0, y: 0, prevX: 0, prevY: 0, vx: 0, vy: 0, mass: 1,
+            age: 0, lifespan: Infinity, size: 1, hue: -1, source: -1, retiring: false,
+            trail: new Float32Array(this.trailCapacity * 2), trailHead: 0, trailCount: 0
+        };
+    }
+}
@@ -0,0 +1,89 @@
+/**
+ * Improved Perlin noise (Perlin 2002) in three dimensions.
+ *
+ * Numerical methods:
+ * - Gradient noise on the integer lattice with 12 edge-midpoint gradients
+ * - Quintic fade curve 6t^5 - 15t^4 + 10t^3 for C2-continuous interpolation
+ * - Trilinear blending of the eight corner contributions
+ *
+ * Nothing here touches the DOM, so it runs unchanged under Node for testing.
+ */
+export class PerlinNoise {
+    private perm: Uint8Array = new Uint8Array(512);
+
+    constructor(seed: number = 1) {
+        this.setSeed(seed);
+    }
+
+    /**
+     * Shuffle the permutation table deterministically from a seed.
+     * Numerical method: Fisher-Yates shuffle driven by a 32-bit LCG
+     */
+    setSeed(seed: number) {
+        const p = new Uint8Array(256);
+        for (let i = 0; i < 256; i++) p[i] = i;
+
+        let state = (seed >>> 0) || 1;
+        for (let i = 255; i > 0; i--) {
+            state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+            const j = state % (i + 1);
+            const tmp = p[i];
+            p[i] = p[j];
+            p[j] = tmp;
+        }
+        for (let i = 0; i < 512; i++) this.perm[i] = p[i & 255];
+    }
+
+    /**
+     * Noise value in roughly [-1, 1]; 0 at every lattice point.
+     */
+    noise3(x: number, y: number, z: number): number {
+        const xi = Math.floor(x);
+        const yi = Math.floor(y);
+        const zi = Math.floor(z);
+        const X = xi & 255;
+        const Y = yi & 255;
+        const Z = zi & 255;
+        x -= xi;
+        y -= yi;
+        z -= zi;
+
+        const u = fade(x);
+        const v = fade(y);
+        const w = fade(z);
+
+        const p = this.perm;
+        const A = p[X] + Y;
+        const AA = p[A] + Z;
+        const AB = p[A + 1] + Z;
+        const B = p[X + 1] + Y;
+        const BA = p[B] + Z;
+        const BB = p[B + 1] + Z;
+
+        return lerp(w,
+            lerp(v,
+                lerp(u, grad(p[AA], x, y, z), grad(p[BA], x - 1, y, z)),
+                lerp(u, grad(p[AB], x, y - 1, z), grad(p[BB], x - 1, y - 1, z))),
+            lerp(v,
+                lerp(u, grad(p[AA + 1], x, y, z - 1), grad(p[BA + 1], x - 1, y, z - 1)),
+                lerp(u, grad(p[AB + 1], x, y - 1, z - 1), grad(p[BB + 1], x - 1, y - 1, z - 1))));
+    }
+}
+
+function fade(t: number): number {
+    return t * t * t * (t * (t * 6 - 15) + 10);
+}
+
+function lerp(t: number, a: number, b: number): number {
+    return a + t * (b - a);
+}
+
+/**
+ * Dot product of (x, y, z) with one of 12 gradient directions picked by the hash.
+ */
+function grad(hash: number, x: number, y: number, z: number): number {
+    const h = hash & 15;
+    const u = h < 8 ? x : y;
+    const v = h < 4 ? y : (h === 12 || h === 14 ? x : z);
+    return ((h & 1) === 0 ? u : -u) + ((h & 2) === 0 ? v : -v);
+}
@@ -0,0 +1,146 @@
+/**
+ * Uniform-grid spatial hash for fixed-radius neighbor queries in 2D.
+ *
+ * Points are bucketed into square cells over a bounded area; a query only visits the
+ * cells overlapping the search circle, so finding all pairs closer than r costs
+ * O(n * k) for k neighbors per point instead of O(n²).
+ *
+ * Numerical methods:
+ * - Counting sort of points by cell index (two passes, no per-cell allocations)
+ * - Prefix sums to turn per-cell counts into start offsets
+ *
+ * Nothing here touches the DOM, so it runs unchanged under Node for testing.
+ */
+
+export type NeighborCallback = (index: number, dx: number, dy: number, distanceSquared: number) => void;
+export type PairCallback = (i: number, j: number, dx: number, dy: number, distanceSquared: number) => void;
+
+export class SpatialHash {
+    private cellSize: number;
+    private cols: number = 0;
+    private rows: number = 0;
+    private count: number = 0;
+    private xs: Float64Array = new Float64Array(0);
+    private ys: Float64Array = new Float64Array(0);
+    /** Cell of each point */
+    private cellOf: Int32Array = new Int32Array(0);
+    /** Points of cell c are entries[cellStart[c]] .. entries[cellStart[c + 1] - 1] */
+    private cellStart: Int32Array = new Int32Array(1);
+    private entries: Int32Array = new Int32Array(0);
+    private cursor: Int32Array = new Int32Array(0);
+
+    /**
+     * @param cellSize Edge length of a cell. Queries are cheapest when it matches the search radius.
+     */
+    constructor(cellSize: number) {
+        this.cellSize = Math.max(1e-6, cellSize);
+    }
+
+    setCellSize(cellSize: number) {
+        this.cellSize = Math.max(1e-6, cellSize);
+    }
+
+    getCellSize(): number {
+        return this.cellSize;
+    }
+
+    getCount(): number {
+        return this.count;
+    }
+
+    /**
+     * Rebuild the grid over [0, width] x [0, height]. Points outside are clamped into the border cells.
+     */
+    build(points: ArrayLike<{ x: number, y: number }>, width: number, height: number) {
+        const n = points.length;
+        this.count = n;
+        this.cols = Math.max(1, Math.ceil(width / this.cellSize));
+        this.rows = Math.max(1, Math.ceil(height / this.cellSize));
+        const cellCount = this.cols * this.rows;
+
+        if (this.xs.length < n) {
+            this.xs = new Float64Array(n);
+            this.ys = new Float64Array(n);
+            this.cellOf = new Int32Array(n);
+            this.entries = new Int32Array(n);
+        }
+        if (this.cellStart.length < cellCount + 1) {
+            this.cellStart = new Int32Array(cellCount + 1);
+            this.cursor = new Int32Array(cellCount);
+        } else {
+            this.cellStart.fill(0, 0, cellCount + 1);
+        }
+
+        // Pass 1: count points per cell
+        for (let i = 0; i < n; i++) {
+            const x = points[i].x;
+            const y = points[i].y;
+            this.xs[i] = x;
+            this.ys[i] = y;
+            const cell = this.cellIndex(this.column(x), this.row(y));
+            this.cellOf[i] = cell;
+            this.cellStart[cell + 1]++;
+        }
+
+        // Numerical method: Prefix sum of counts gives each cell's start offset
+        for (let c = 0; c < cellCount; c++) {
+            this.cellStart[c + 1] += this.cellStart[c];
+            this.cursor[c] = this.cellStart[c];
+        }
+
+        // Pass 2: scatter point indices into their cells
+        for (let i = 0; i < n; i++) {
+            this.entries[this.cursor[this.cellOf[i]]++] = i;
+        }
+    }
+
+    /**
+     * Visit every point within `radius` of (x, y). dx/dy point from (x, y) to the neighbor.
+     */
+    forEachNeighbor(x: number, y: number, radius: number, callback: NeighborCallback) {
+        const radiusSquared = radius * radius;
+        const minCol = this.column(x - radius);
+        const maxCol = this.column(x + radius);
+        const minRow = this.row(y - radius);
+        const maxRow = this.row(y + radius);
+
+        for (let row = minRow; row <= maxRow; row++) {
+            for (let col = minCol; col <= maxCol; col++) {
+                const cell = this.cellIndex(col, row);
+                for (let e = this.cellStart[cell]; e < this.cellStart[cell + 1]; e++) {
+                    const index = this.entries[e];
+                    const dx = this.xs[index] - x;
+                    const dy = this.ys[index] - y;
+                    const distanceSquared = dx * dx + dy * dy;
+                    if (distanceSquared <= radiusSquared) {
+                        callback(index, dx, dy, distanceSquared);
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Visit every unordered pair of points closer than `radius` exactly once, with i < j.
+     * dx/dy point from point i to point j.
+     */
+    forEachPair(radius: number, callback: PairCallback) {
+        for (let i = 0; i < this.count; i++) {
+            this.forEachNeighbor(this.xs[i], this.ys[i], radius, (j, dx, dy, distanceSquared) => {
+                if (j > i) callback(i, j, dx, dy, distanceSquared);
+            });
+        }
+    }
+
+    private column(x: number): number {
+        return Math.max(0, Math.min(this.cols - 1, Math.floor(x / this.cellSize)));
+    }
+
+    private row(y: number): number {
+        return Math.max(0, Math.min(this.rows - 1, Math.floor(y / this.cellSize)));
+    }
+
+    private cellIndex(col: number, row: number): number {
+        return row * this.cols + col;
+    }
+}
@@ -0,0 +1,194 @@
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import { AfterimagePass } from 'three/examples/jsm/postprocessing/AfterimagePass.js';
+import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
+import { FilmPass } from 'three/examples/jsm/postprocessing/FilmPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { RGBShiftShader } from 'three/examples/jsm/shaders/RGBShiftShader.js';
+import { KaleidoShader } from 'three/examples/jsm/shaders/KaleidoShader.js';
+import { AudioFrame } from './audio/audioFrame';
+import { AUDIO_SOURCES, AUDIO_SOURCE_LABELS, AudioSource, readAudioSource } from './audio/audioSources';
+import { ParameterDefinition, ParameterValue } from './visualizer';
+
+export type EffectName = 'bloom' | 'trails' | 'aberration' | 'grain' | 'kaleidoscope';
+
+export const EFFECT_NAMES: EffectName[] = ['bloom', 'trails', 'aberration', 'grain', 'kaleidoscope'];
+
+const EFFECT_LABELS: { [name in EffectName]: string } = {
+    bloom: 'Bloom',
+    trails: 'Feedback Trails',
+    aberration: 'Chromatic Aberration',
+    grain: 'Film Grain',
+    kaleidoscope: 'Kaleidoscope'
+};
+
+/** Upper end of each effect's amount slider */
+const EFFECT_MAX: { [name in EffectName]: number } = {
+    bloom: 3,
+    trails: 0.97,
+    aberration: 0.02,
+    grain: 1,
+    kaleidoscope: 1
+};
+
+const EFFECT_DEFAULTS: { [name in EffectName]: { amount: number, source: AudioSource } } = {
+    bloom: { amount: 1.2, source: 'bass' },
+    trails: { amount: 0, source: 'none' },
+    aberration: { amount: 0.006, source: 'beat' },
+    grain: { amount: 0, source: 'none' },
+    kaleidoscope: { amount: 0, source: 'none' }
+};
+
+/**
+ * EffectComposer chain for the 3D renderer:
+ * scene → bloom → feedback trails → chromatic aberration → kaleidoscope → film grain → output.
+ *
+ * Every effect has an amount (its maximum strength) and an audio source; the source's
+ * current level (0-1) scales the amount each frame, so e.g. bloom can breathe with the bass.
+ * Effects at zero are switched off entirely rather than rendered as no-ops.
+ *
+ * For the kaleidoscope the amount sets the number of mirror segments and the source drives
+ * the rotation speed, since a segment count that jumps with the music is just flicker.
+ */
+export class PostProcessingChain {
+    static readonly PARAMETERS: ParameterDefinition[] = createParameters();
+
+    private composer: EffectComposer;
+    private bloomPass: UnrealBloomPass;
+    private afterimagePass: AfterimagePass;
+    private aberrationPass: ShaderPass;
+    private kaleidoPass: ShaderPass;
+    private filmPass: FilmPass;
+    private amounts: { [name in EffectName]: number };
+    private sources: { [name in EffectName]: AudioSource };
+    private kaleidoAngle: number = 0;
+    private time: number = 0;
+
+    private readonly MAX_KALEIDO_SIDES = 16;
+    private readonly KALEIDO_SPIN = 1.5;  // Radians per second at full source level
+
+    constructor(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera) {
+        this.amounts = { bloom: 0, trails: 0, aberration: 0, grain: 0, kaleidoscope: 0 };
+        this.sources = { bloom: 'none', trails: 'none', aberration: 'none', grain: 'none', kaleidoscope: 'none' };
+        EFFECT_NAMES.forEach(name => {
+            this.amounts[name] = EFFECT_DEFAULTS[name].amount;
+            this.sources[name] = EFFECT_DEFAULTS[name].source;
+        });
+
+        const size = renderer.getSize(new THREE.Vector2());
+        this.composer = new EffectComposer(renderer);
+        this.composer.addPass(new RenderPass(scene, camera));
+
+        this.bloomPass = new UnrealBloomPass(size, 0, 0.4, 0.2);
+        this.composer.addPass(this.bloomPass);
+
+        this.afterimagePass = new AfterimagePass(0);
+        this.composer.addPass(this.afterimagePass);
+
+        this.aberrationPass = new ShaderPass(RGBShiftShader);
+        this.composer.addPass(this.aberrationPass);
+
+        this.kaleidoPass = new ShaderPass(KaleidoShader);
+        this.composer.addPass(this.kaleidoPass);
+
+        this.filmPass = new FilmPass(0, false);
+        this.composer.addPass(this.filmPass);
+
+        this.composer.addPass(new OutputPass());
+    }
+
+    public setSize(width: number, height: number) {
+        this.composer.setSize(width, height);
+    }
+
+    public setPixelRatio(ratio: number) {
+        this.composer.setPixelRatio(ratio);
+    }
+
+    public getParameter(key: string): ParameterValue | undefined {
+        const parsed = parseKey(key);
+        if (!parsed) return undefined;
+        return parsed.field === 'Amount' ? this.amounts[parsed.effect] : this.sources[parsed.effect];
+    }
+
+    public setParameter(key: string, value: ParameterValue) {
+        const parsed = parseKey(key);
+        if (!parsed) return;
+        if (parsed.field === 'Amount') {
+            this.amounts[parsed.effect] = Math.max(0, Math.min(EFFECT_MAX[parsed.effect], Number(value)));
+        } else {
+            this.sources[parsed.effect] = value as AudioSource;
+        }
+    }
+
+    /**
+     * Read this frame's audio levels into the pass uniforms.
+     */
+    public update(frame: AudioFrame) {
+        const dt = Math.min(frame.dt, 0.1);
+        this.time += dt;
+        const level = (name: EffectName) => this.amounts[name] * readAudioSource(frame, this.sources[name]);
+
+        const bloom = level('bloom');
+        this.bloomPass.enabled = bloom > 0;
+        this.bloomPass.strength = bloom;
+
+        const trails = level('trails');
+        this.afterimagePass.enabled = trails > 0;
+        this.afterimagePass.uniforms['damp'].value = trails;
+
+        const aberration = level('aberration');
+        this.aberrationPass.enabled = aberration > 0;
+        this.aberrationPass.uniforms['amount'].value = aberration;
+        this.aberrationPass.uniforms['angle'].value = this.time * 0.5;
+
+        const kaleidoscope = this.amounts.kaleidoscope;
+        this.kaleidoPass.enabled = kaleidoscope > 0;
+        if (kaleidoscope > 0) {
+            this.kaleidoAngle += readAudioSource(frame, this.sources.kaleidoscope) * this.KALEIDO_SPIN * dt;
+            this.kaleidoPass.uniforms['sides'].value = 2 + Math.round(kaleidoscope * (this.MAX_KALEIDO_SIDES - 2));
+            this.kaleidoPass.uniforms['angle'].value = this.kaleidoAngle;
+        }
+
+        const grain = level('grain');
+        this.filmPass.enabled = grain > 0;
+        (this.filmPass.uniforms as { [name: string]: THREE.IUniform }).intensity.value = grain;
+    }
+
+    public render(dt: number) {
+        this.composer.render(dt);
+    }
+
+    public dispose() {
+        this.composer.passes.forEach(pass => pass.dispose());
+        this.composer.dispose();
+    }
+}
+
+/**
+ * `<effect>Amount` / `<effect>Source` parameter keys, e.g. bloomAmount.
+ */
+function parseKey(key: string): { effect: EffectName, field: 'Amount' | 'Source' } | null {
+    const match = /^(\w+?)(Amount|Source)$/.exec(key);
+    if (!match || EFFECT_NAMES.indexOf(match[1] as EffectName) === -1) return null;
+    return { effect: match[1] as EffectName, field: match[2] as 'Amount' | 'Source' };
+}
+
+function createParameters(): ParameterDefinition[] {
+    const parameters: ParameterDefinition[] = [];
+    EFFECT_NAMES.forEach(name => {
+        const max = EFFECT_MAX[name];
+        parameters.push({
+            key: `${name}Amount`, label: EFFECT_LABELS[name], type: 'number',
+            min: 0, max, step: max / 100, default: EFFECT_DEFAULTS[name].amount, group: 'Post-processing'
+        });
+        parameters.push({
+            key: `${name}Source`, label: name === 'kaleidoscope' ? 'Kaleidoscope Spin' : `${EFFECT_LABELS[name]} Driver`,
+            type: 'select', default: EFFECT_DEFAULTS[name].source, group: 'Post-processing',
+            options: AUDIO_SOURCES.map(source => ({ value: source, label: AUDIO_SOURCE_LABELS[source] }))
+        });
+    });
+    return parameters;
+}
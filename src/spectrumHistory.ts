@@ -0,0 +1,114 @@
+import * as THREE from 'three';
+import { AudioFrame } from './audio/audioFrame';
+
+/**
+ * Rolling spectrum history stored in a single-channel GPU texture, one row per frame.
+ *
+ * Rows form a ring buffer: each push overwrites the oldest row and advances the head, and
+ * only that row is sent to the GPU (copyTextureToTexture from a one-row source), so the
+ * upload per frame does not grow with history length. Shaders locate the
+ * row of a given age from the head (see HISTORY_GLSL); the texture repeats vertically,
+ * so linear filtering also works across the wrap-around.
+ *
+ * Columns are spaced logarithmically in frequency, which gives bass and treble comparable
+ * width instead of squeezing everything musical into the first few percent.
+ */
+export class SpectrumHistory {
+    private texture: THREE.DataTexture;
+    private data: Uint8Array;
+    private rowTexture: THREE.DataTexture;
+    private rowData: Uint8Array;
+    private rowPosition = new THREE.Vector2();
+    private columns: number;
+    private rows: number;
+    private head: number = 0;
+    private minFrequency: number;
+    private maxFrequency: number;
+
+    constructor(columns: number = 256, rows: number = 256, minFrequency: number = 30, maxFrequency: number = 16000) {
+        this.columns = columns;
+        this.rows = rows;
+        this.minFrequency = minFrequency;
+        this.maxFrequency = maxFrequency;
+        this.data = new Uint8Array(columns * rows);
+        this.texture = new THREE.DataTexture(this.data, columns, rows, THREE.RedFormat, THREE.UnsignedByteType);
+        this.texture.wrapS = THREE.ClampToEdgeWrapping;
+        this.texture.wrapT = THREE.RepeatWrapping;
+        this.texture.magFilter = THREE.LinearFilter;
+        this.texture.minFilter = THREE.LinearFilter;
+        this.texture.needsUpdate = true;
+        // Never bound for sampling, so the renderer copies it straight from rowData
+        this.rowData = new Uint8Array(columns);
+        this.rowTexture = new THREE.DataTexture(this.rowData, columns, 1, THREE.RedFormat, THREE.UnsignedByteType);
+    }
+
+    getTexture(): THREE.DataTexture {
+        return this.texture;
+    }
+
+    getColumns(): number {
+        return this.columns;
+    }
+
+    getRows(): number {
+        return this.rows;
+    }
+
+    /**
+     * Row index of the newest spectrum.
+     */
+    getHead(): number {
+        return this.head;
+    }
+
+    /**
+     * Append this frame's spectrum as the newest row.
+     * Numerical method: Log-spaced column edges; each column takes the loudest bin it covers
+     */
+    push(frame: AudioFrame, renderer: THREE.WebGLRenderer) {
+        const spectrum = frame.frequencyData;
+        if (spectrum.length === 0) return;
+
+        this.head = (this.head + 1) % this.rows;
+        const offset = this.head * this.columns;
+        const binWidth = frame.sampleRate / 2 / spectrum.length;
+        const ratio = this.maxFrequency / this.minFrequency;
+        const last = spectrum.length - 1;
+
+        for (let c = 0; c < this.columns; c++) {
+            const low = this.minFrequency * Math.pow(ratio, c / this.columns);
+            const high = this.minFrequency * Math.pow(ratio, (c + 1) / this.columns);
+            const from = Math.min(last, Math.floor(low / binWidth));
+            const to = Math.min(last, Math.max(from, Math.floor(high / binWidth)));
+            let value = 0;
+            for (let i = from; i <= to; i++) {
+                if (spectrum[i] > value) value = spectrum[i];
+            }
+            this.rowData[c] = value;
+        }
+        // The full texture is still uploaded from data the first time it is used
+        this.data.set(this.rowData, offset);
+        this.rowPosition.set(0, this.head);
+        renderer.copyTextureToTexture(this.rowTexture, this.texture, null, this.rowPosition);
+    }
+
+    dispose() {
+        this.texture.dispose();
+        this.rowTexture.dispose();
+    }
+}
+
+/**
+ * GLSL helper: `historyLevel(u, age)` is the level (0-1) at spectrum position u (0 = low,
+ * 1 = high) `age` of the way back through the history (0 = newest, 1 = oldest).
+ * Expects the uniforms uHistory, uHead and uRows.
+ */
+export const HISTORY_GLSL = `
+uniform sampler2D uHistory;
+uniform float uHead;
+uniform float uRows;
+
+float historyLevel(float u, float age) {
+    float row = uHead - clamp(age, 0.0, 1.0) * (uRows - 1.0);
+    return texture2D(uHistory, vec2(u, (row + 0.5) / uRows)).r;
+}`;
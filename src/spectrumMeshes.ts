@@ -0,0 +1,185 @@
+import * as THREE from 'three';
+import { ColormapName, getColormap } from './colormaps';
+import { HISTORY_GLSL, SpectrumHistory } from './spectrumHistory';
+
+/**
+ * Audio-displaced surfaces for the 3D renderer. All three read the same SpectrumHistory
+ * texture in their vertex shaders, so displacement costs nothing on the CPU however fine
+ * the mesh, and color comes from a colormap texture indexed by height.
+ *
+ * - Terrain: a plane whose rows are successive spectra, scrolling towards the viewer
+ * - Tunnel: the same history wrapped around the inside of a cylinder
+ * - Sphere: radius deformed by spectrum (latitude) and recent history (longitude)
+ */
+
+/** Uniforms shared by every spectrum surface; one object so all meshes update together */
+export interface SpectrumUniforms {
+    [name: string]: THREE.IUniform;
+    uHistory: THREE.IUniform<THREE.Texture>;
+    uHead: THREE.IUniform<number>;
+    uRows: THREE.IUniform<number>;
+    uColormap: THREE.IUniform<THREE.Texture>;
+    uHeight: THREE.IUniform<number>;
+    uPulse: THREE.IUniform<number>;
+    uTexel: THREE.IUniform<THREE.Vector2>;
+}
+
+/**
+ * 256x1 texture of a colormap, decoded to linear color when sampled.
+ */
+export function createColormapTexture(name: ColormapName): THREE.DataTexture {
+    const texture = new THREE.DataTexture(new Uint8Array(256 * 4), 256, 1, THREE.RGBAFormat, THREE.UnsignedByteType);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    texture.magFilter = THREE.LinearFilter;
+    texture.minFilter = THREE.LinearFilter;
+    fillColormapTexture(texture, name);
+    return texture;
+}
+
+export function fillColormapTexture(texture: THREE.DataTexture, name: ColormapName) {
+    const lut = getColormap(name);
+    const pixels = texture.image.data as Uint8Array;
+    for (let i = 0; i < 256; i++) {
+        pixels[i * 4] = lut[i * 3];
+        pixels[i * 4 + 1] = lut[i * 3 + 1];
+        pixels[i * 4 + 2] = lut[i * 3 + 2];
+        pixels[i * 4 + 3] = 255;
+    }
+    texture.needsUpdate = true;
+}
+
+export function createSpectrumUniforms(history: SpectrumHistory, colormap: THREE.Texture): SpectrumUniforms {
+    return {
+        uHistory: { value: history.getTexture() },
+        uHead: { value: 0 },
+        uRows: { value: history.getRows() },
+        uColormap: { value: colormap },
+        uHeight: { value: 10 },
+        uPulse: { value: 0 },
+        uTexel: { value: new THREE.Vector2(1 / history.getColumns(), 1 / history.getRows()) }
+    };
+}
+
+const SHADE_GLSL = `
+uniform sampler2D uColormap;
+varying float vLevel;
+varying vec3 vNormal;
+
+void main() {
+    vec3 color = texture2D(uColormap, vec2(clamp(vLevel, 0.0, 1.0), 0.5)).rgb;
+    // Numerical method: Lambertian shading with a fixed view-space light plus ambient
+    float diffuse = max(dot(normalize(vNormal), normalize(vec3(0.3, 0.8, 0.5))), 0.0);
+    gl_FragColor = vec4(color * (0.35 + 0.65 * diffuse), 1.0);
+}`;
+
+const TERRAIN_VERTEX = `
+${HISTORY_GLSL}
+uniform float uHeight;
+uniform vec2 uTexel;
+uniform vec2 uSize;
+varying float vLevel;
+varying vec3 vNormal;
+
+// uv.x runs along the spectrum, uv.y from the near edge (oldest) to the far edge (newest)
+float heightAt(vec2 p) {
+    return historyLevel(p.x, 1.0 - p.y);
+}
+
+void main() {
+    float level = heightAt(uv);
+    vec3 displaced = position + vec3(0.0, level * uHeight, 0.0);
+
+    // Numerical method: Central differences of the height field for the normal
+    float dhdu = (heightAt(uv + vec2(uTexel.x, 0.0)) - heightAt(uv - vec2(uTexel.x, 0.0))) / (2.0 * uTexel.x);
+    float dhdv = (heightAt(uv + vec2(0.0, uTexel.y)) - heightAt(uv - vec2(0.0, uTexel.y))) / (2.0 * uTexel.y);
+    // v grows towards -z, hence the sign flip on the z slope
+    vec3 normal = normalize(vec3(-dhdu * uHeight / uSize.x, 1.0, dhdv * uHeight / uSize.y));
+
+    vLevel = level;
+    vNormal = normalMatrix * normal;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(displaced, 1.0);
+}`;
+
+const TUNNEL_VERTEX = `
+${HISTORY_GLSL}
+uniform float uHeight;
+uniform float uPulse;
+varying float vLevel;
+varying vec3 vNormal;
+
+void main() {
+    // Spectrum mirrored around the circumference so there is no seam; history along the length
+    float u = 1.0 - abs(2.0 * uv.x - 1.0);
+    float level = historyLevel(u, uv.y);
+    // Walls close in with the level and breathe on the beat
+    vec3 displaced = position - normal * (level * uHeight * 0.5 + uPulse);
+
+    vLevel = level;
+    vNormal = normalMatrix * -normal;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(displaced, 1.0);
+}`;
+
+const SPHERE_VERTEX = `
+${HISTORY_GLSL}
+uniform float uHeight;
+uniform float uPulse;
+varying float vLevel;
+varying vec3 vNormal;
+
+void main() {
+    vec3 direction = normalize(position);
+    // Latitude picks the frequency (low at the equator, high at the poles), longitude the age,
+    // mirrored on both so the surface stays continuous
+    float u = abs(direction.y);
+    float age = abs(atan(direction.z, direction.x)) / 3.14159265;
+    float level = historyLevel(u, age);
+    vec3 displaced = position + direction * (level * uHeight * 0.5 + uPulse * 1.5);
+
+    vLevel = level;
+    vNormal = normalMatrix * direction;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(displaced, 1.0);
+}`;
+
+function createMaterial(vertexShader: string, uniforms: { [name: string]: THREE.IUniform }, side: THREE.Side): THREE.ShaderMaterial {
+    return new THREE.ShaderMaterial({
+        uniforms,
+        vertexShader,
+        fragmentShader: SHADE_GLSL,
+        side
+    });
+}
+
+/**
+ * Terrain plane with one vertex per history texel.
+ */
+export function createTerrainMesh(uniforms: SpectrumUniforms, columns: number, rows: number, size: number = 40): THREE.Mesh {
+    const geometry = new THREE.PlaneGeometry(size, size, columns - 1, rows - 1);
+    geometry.rotateX(-Math.PI / 2);
+    const material = createMaterial(TERRAIN_VERTEX, {
+        ...uniforms,
+        uSize: { value: new THREE.Vector2(size, size) }
+    }, THREE.DoubleSide);
+    return new THREE.Mesh(geometry, material);
+}
+
+/**
+ * Open cylinder along -z, seen from inside. The newest spectrum is at the near end (z = 0).
+ */
+export function createTunnelMesh(uniforms: SpectrumUniforms, radius: number = 14, length: number = 160): THREE.Mesh {
+    const geometry = new THREE.CylinderGeometry(radius, radius, length, 128, 255, true);
+    // Cylinder axis is y with uv.y = 1 at the top; after this rotation the top faces +z
+    geometry.rotateX(Math.PI / 2);
+    geometry.translate(0, 0, -length / 2);
+    // The newest row must sit at the near end: flip uv.y so age 0 is at z = 0
+    const uvs = geometry.getAttribute('uv');
+    for (let i = 0; i < uvs.count; i++) {
+        uvs.setY(i, 1 - uvs.getY(i));
+    }
+    return new THREE.Mesh(geometry, createMaterial(TUNNEL_VERTEX, uniforms, THREE.BackSide));
+}
+
+export function createSphereMesh(uniforms: SpectrumUniforms, radius: number = 10): THREE.Mesh {
+    const geometry = new THREE.IcosahedronGeometry(radius, 24);
+    const material = createMaterial(SPHERE_VERTEX, uniforms, THREE.FrontSide);
+    return new THREE.Mesh(geometry, material);
+}
@@ -0,0 +1,345 @@
+/**
+ * Piecewise-polynomial interpolation of 1D data y(x) with strictly increasing x.
+ *
+ * Every method is reduced to the same representation: segment k covers
+ * [knots[k], knots[k + 1]] and evaluates a + b·dx + c·dx² + d·dx³ with dx = x - knots[k].
+ * Fitting is O(n) for all methods; evaluation finds the segment by binary search, or by
+ * walking forward when many sorted x values are evaluated at once.
+ *
+ * Numerical methods:
+ * - Linear: straight segments, C0
+ * - Natural / clamped cubic spline: C2, second derivatives from a tridiagonal system
+ *   solved with the Thomas algorithm; natural ends have zero curvature, clamped ends a
+ *   prescribed slope
+ * - Catmull-Rom: C1 cubic Hermite with central-difference slopes
+ * - Monotone cubic (Fritsch-Carlson): C1 Hermite whose slopes are limited so the curve
+ *   never overshoots the data between knots
+ * - Akima: C1 Hermite with slopes weighted by local slope changes, which keeps isolated
+ *   spikes from ringing into their neighbours
+ * - Bézier smoothing: quadratic Bézier segments between chord midpoints with the data
+ *   points as control points (a uniform quadratic B-spline); approximates rather than
+ *   interpolates, so it also filters noise
+ *
+ * Nothing here touches the DOM, so it runs unchanged under Node for testing.
+ */
+
+export type InterpolationType =
+    'linear' | 'natural-cubic' | 'clamped-cubic' | 'catmull-rom' | 'monotone-cubic' | 'akima' | 'bezier';
+
+export const INTERPOLATION_TYPES: InterpolationType[] = [
+    'linear', 'natural-cubic', 'clamped-cubic', 'catmull-rom', 'monotone-cubic', 'akima', 'bezier'
+];
+
+export const INTERPOLATION_LABELS: { [type in InterpolationType]: string } = {
+    'linear': 'Linear',
+    'natural-cubic': 'Natural cubic spline',
+    'clamped-cubic': 'Clamped cubic spline',
+    'catmull-rom': 'Catmull-Rom',
+    'monotone-cubic': 'Monotone cubic',
+    'akima': 'Akima',
+    'bezier': 'Bézier smoothing'
+};
+
+export class Spline {
+    private knots: Float64Array = new Float64Array(0);
+    private a: Float64Array = new Float64Array(0);
+    private b: Float64Array = new Float64Array(0);
+    private c: Float64Array = new Float64Array(0);
+    private d: Float64Array = new Float64Array(0);
+    private segments: number = 0;
+    // Scratch space for the fits, grown as needed
+    private h: Float64Array = new Float64Array(0);
+    private slopes: Float64Array = new Float64Array(0);
+    private tangents: Float64Array = new Float64Array(0);
+    private l: Float64Array = new Float64Array(0);
+    private mu: Float64Array = new Float64Array(0);
+    private z: Float64Array = new Float64Array(0);
+
+    /**
+     * Fit the spline through (xs[i], ys[i]). Buffers are reused between fits.
+     * @param endSlopes Slopes at the first and last point for 'clamped-cubic'
+     */
+    fit(xs: ArrayLike<number>, ys: ArrayLike<number>, type: InterpolationType, endSlopes: [number, number] = [0, 0]) {
+        const n = Math.min(xs.length, ys.length);
+        this.allocate(n);
+        if (n < 2) {
+            this.segments = 0;
+            if (n === 1) {
+                this.knots[0] = xs[0];
+                this.a[0] = ys[0];
+            }
+            return;
+        }
+
+        for (let i = 0; i < n - 1; i++) {
+            this.h[i] = xs[i + 1] - xs[i];
+            this.slopes[i] = (ys[i + 1] - ys[i]) / this.h[i];
+        }
+
+        switch (type) {
+            case 'linear': this.fitLinear(xs, ys, n); break;
+            case 'natural-cubic': this.fitCubic(xs, ys, n, null); break;
+            case 'clamped-cubic': this.fitCubic(xs, ys, n, endSlopes); break;
+            case 'catmull-rom': this.fitCatmullRom(n); this.fromHermite(xs, ys, n); break;
+            case 'monotone-cubic': this.fitMonotone(n); this.fromHermite(xs, ys, n); break;
+            case 'akima': this.fitAkima(n); this.fromHermite(xs, ys, n); break;
+            case 'bezier': this.fitBezier(xs, ys, n); break;
+        }
+    }
+
+    getSegmentCount(): number {
+        return this.segments;
+    }
+
+    /**
+     * Segment containing x, by binary search. Values outside the knots use the end segments.
+     */
+    findSegment(x: number): number {
+        let low = 0;
+        let high = this.segments - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (this.knots[mid] <= x) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return low;
+    }
+
+    evaluate(x: number): number {
+        if (this.segments === 0) return this.a[0] || 0;
+        return this.evaluateSegment(this.findSegment(x), x);
+    }
+
+    /**
+     * Evaluate at ascending x values. The segment index only ever moves forward, so the
+     * whole pass is O(segments + points) instead of O(points · log segments).
+     */
+    evaluateSorted(xs: ArrayLike<number>, out: Float32Array | Float64Array) {
+        if (this.segments === 0) {
+            const value = this.a[0] || 0;
+            for (let i = 0; i < xs.length; i++) out[i] = value;
+            return;
+        }
+        let k = 0;
+        for (let i = 0; i < xs.length; i++) {
+            const x = xs[i];
+            while (k < this.segments - 1 && x >= this.knots[k + 1]) k++;
+            out[i] = this.evaluateSegment(k, x);
+        }
+    }
+
+    private evaluateSegment(k: number, x: number): number {
+        // Numerical method: Horner's rule for the cubic
+        const dx = x - this.knots[k];
+        return this.a[k] + dx * (this.b[k] + dx * (this.c[k] + dx * this.d[k]));
+    }
+
+    private allocate(n: number) {
+        if (this.knots.length >= n + 1) return;
+        const size = n + 1;
+        this.knots = new Float64Array(size);
+        this.a = new Float64Array(size);
+        this.b = new Float64Array(size);
+        this.c = new Float64Array(size);
+        this.d = new Float64Array(size);
+        this.h = new Float64Array(size);
+        this.slopes = new Float64Array(size);
+        this.tangents = new Float64Array(size);
+        this.l = new Float64Array(size);
+        this.mu = new Float64Array(size);
+        this.z = new Float64Array(size);
+    }
+
+    private fitLinear(xs: ArrayLike<number>, ys: ArrayLike<number>, n: number) {
+        this.segments = n - 1;
+        for (let i = 0; i < n - 1; i++) {
+            this.knots[i] = xs[i];
+            this.a[i] = ys[i];
+            this.b[i] = this.slopes[i];
+            this.c[i] = 0;
+            this.d[i] = 0;
+        }
+        this.knots[n - 1] = xs[n - 1];
+    }
+
+    /**
+     * Cubic spline with natural (endSlopes null) or clamped boundary conditions.
+     * Solves for c = y''/2 at every knot.
+     */
+    private fitCubic(xs: ArrayLike<number>, ys: ArrayLike<number>, n: number, endSlopes: [number, number] | null) {
+        const last = n - 1;
+        const h = this.h;
+        const slopes = this.slopes;
+        const l = this.l;
+        const mu = this.mu;
+        const z = this.z;
+        const c = this.c;
+
+        // Numerical method: Thomas algorithm, forward sweep
+        if (endSlopes) {
+            l[0] = 2 * h[0];
+            mu[0] = 0.5;
+            z[0] = (3 * (slopes[0] - endSlopes[0])) / l[0];
+        } else {
+            l[0] = 1;
+            mu[0] = 0;
+            z[0] = 0;
+        }
+        for (let i = 1; i < last; i++) {
+            const alpha = 3 * (slopes[i] - slopes[i - 1]);
+            l[i] = 2 * (xs[i + 1] - xs[i - 1]) - h[i - 1] * mu[i - 1];
+            mu[i] = h[i] / l[i];
+            z[i] = (alpha - h[i - 1] * z[i - 1]) / l[i];
+        }
+        if (endSlopes) {
+            const alpha = 3 * (endSlopes[1] - slopes[last - 1]);
+            l[last] = h[last - 1] * (2 - mu[last - 1]);
+            z[last] = (alpha - h[last - 1] * z[last - 1]) / l[last];
+        } else {
+            z[last] = 0;
+        }
+
+        // Back substitution
+        c[last] = z[last];
+        for (let j = last - 1; j >= 0; j--) {
+            c[j] = z[j] - mu[j] * c[j + 1];
+        }
+
+        this.segments = last;
+        for (let i = 0; i < last; i++) {
+            this.knots[i] = xs[i];
+            this.a[i] = ys[i];
+            this.b[i] = slopes[i] - h[i] * (c[i + 1] + 2 * c[i]) / 3;
+            this.d[i] = (c[i + 1] - c[i]) / (3 * h[i]);
+        }
+        this.knots[last] = xs[last];
+    }
+
+    /**
+     * Tangents from the neighbours' chord; one-sided at the ends.
+     */
+    private fitCatmullRom(n: number) {
+        const m = this.tangents;
+        const h = this.h;
+        const slopes = this.slopes;
+        m[0] = slopes[0];
+        m[n - 1] = slopes[n - 2];
+        for (let i = 1; i < n - 1; i++) {
+            // Numerical method: Central difference over the two adjacent intervals
+            m[i] = (slopes[i - 1] * h[i - 1] + slopes[i] * h[i]) / (h[i - 1] + h[i]);
+        }
+    }
+
+    /**
+     * Fritsch-Carlson: start from averaged slopes, zero them at local extrema, then shrink
+     * any pair that would leave the monotonicity region α² + β² ≤ 9.
+     */
+    private fitMonotone(n: number) {
+        const m = this.tangents;
+        const slopes = this.slopes;
+        m[0] = slopes[0];
+        m[n - 1] = slopes[n - 2];
+        for (let i = 1; i < n - 1; i++) {
+            m[i] = slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2;
+        }
+        for (let i = 0; i < n - 1; i++) {
+            if (slopes[i] === 0) {
+                m[i] = 0;
+                m[i + 1] = 0;
+                continue;
+            }
+            const alpha = m[i] / slopes[i];
+            const beta = m[i + 1] / slopes[i];
+            const radius = alpha * alpha + beta * beta;
+            if (radius > 9) {
+                const tau = 3 / Math.sqrt(radius);
+                m[i] = tau * alpha * slopes[i];
+                m[i + 1] = tau * beta * slopes[i];
+            }
+        }
+    }
+
+    /**
+     * Akima: the tangent at i weights the chords on either side by how much the slope
+     * changes on the opposite side. Two ghost chords are extrapolated at each end.
+     */
+    private fitAkima(n: number) {
+        const m = this.tangents;
+        const s = this.slopes;
+        const count = n - 1;
+        // Chord slope with linear extrapolation beyond the data
+        const chord = (i: number): number => {
+            if (count === 1) return s[0];
+            if (i === -1) return 2 * s[0] - s[1];
+            if (i === -2) return 3 * s[0] - 2 * s[1];
+            if (i === count) return 2 * s[count - 1] - s[count - 2];
+            if (i === count + 1) return 3 * s[count - 1] - 2 * s[count - 2];
+            return s[i];
+        };
+        for (let i = 0; i < n; i++) {
+            const w1 = Math.abs(chord(i + 1) - chord(i));
+            const w2 = Math.abs(chord(i - 1) - chord(i - 2));
+            const total = w1 + w2;
+            m[i] = total > 1e-12
+                ? (w1 * chord(i - 1) + w2 * chord(i)) / total
+                : (chord(i - 1) + chord(i)) / 2;
+        }
+    }
+
+    /**
+     * Convert values and tangents at the knots into power-basis cubics.
+     * Numerical method: Cubic Hermite basis
+     */
+    private fromHermite(xs: ArrayLike<number>, ys: ArrayLike<number>, n: number) {
+        const m = this.tangents;
+        this.segments = n - 1;
+        for (let i = 0; i < n - 1; i++) {
+            const h = this.h[i];
+            const slope = this.slopes[i];
+            this.knots[i] = xs[i];
+            this.a[i] = ys[i];
+            this.b[i] = m[i];
+            this.c[i] = (3 * slope - 2 * m[i] - m[i + 1]) / h;
+            this.d[i] = (m[i] + m[i + 1] - 2 * slope) / (h * h);
+        }
+        this.knots[n - 1] = xs[n - 1];
+    }
+
+    /**
+     * Knots at x0, the chord midpoints and x(n-1). Between consecutive midpoints the curve is
+     * the quadratic Bézier controlled by the data point between them; the first and last
+     * half-chords use the end points as their own control, which makes them straight.
+     * Assumes x is (close to) linear in the Bézier parameter, which holds for evenly spaced data.
+     */
+    private fitBezier(xs: ArrayLike<number>, ys: ArrayLike<number>, n: number) {
+        if (n < 3) {
+            this.fitLinear(xs, ys, n);
+            return;
+        }
+
+        let k = 0;
+        const addSegment = (x0: number, y0: number, control: number, x1: number, y1: number) => {
+            const h = x1 - x0;
+            this.knots[k] = x0;
+            // Numerical method: Quadratic Bézier expanded into the power basis
+            this.a[k] = y0;
+            this.b[k] = (2 * (control - y0)) / h;
+            this.c[k] = (y0 - 2 * control + y1) / (h * h);
+            this.d[k] = 0;
+            k++;
+        };
+
+        const midX = (i: number) => (xs[i] + xs[i + 1]) / 2;
+        const midY = (i: number) => (ys[i] + ys[i + 1]) / 2;
+        addSegment(xs[0], ys[0], (ys[0] + midY(0)) / 2, midX(0), midY(0));
+        for (let i = 1; i < n - 1; i++) {
+            addSegment(midX(i - 1), midY(i - 1), ys[i], midX(i), midY(i));
+        }
+        addSegment(midX(n - 2), midY(n - 2), (midY(n - 2) + ys[n - 1]) / 2, xs[n - 1], ys[n - 1]);
+        this.knots[k] = xs[n - 1];
+        this.segments = k;
+    }
+}
@@ -1,28 +1,132 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { AudioFrame } from './audio/audioFrame';
+import { FrequencyBandAnalyzer, FrequencyBandOptions } from './audio/frequencyBands';
+import { CameraChoreographer, Viewpoint } from './cameraChoreography';
+import { ColormapName, COLORMAPS } from './colormaps';
+import { PostProcessingChain } from './postProcessing';
+import { SpectrumHistory } from './spectrumHistory';
+import {
+    SpectrumUniforms, createColormapTexture, createSphereMesh, createSpectrumUniforms,
+    createTerrainMesh, createTunnelMesh, fillColormapTexture
+} from './spectrumMeshes';
+import { ThreeParticleEmitter } from './threeParticleEmitter';
+import { ParameterChangeListener, ParameterDefinition, ParameterValue, Visualizer, createVisualizerCanvas } from './visualizer';
+
+/**
+ * Scene variants. Each picks a centerpiece and rearranges the shared layers (bars,
+ * waveform, terrain) around it; the layers themselves can still be toggled individually.
+ */
+export type SceneName = 'stage' | 'tunnel' | 'sphere' | 'radial-bars';
+
+/** Camera placement each scene is composed for */
+export const SCENE_VIEWPOINTS: { [name in SceneName]: Viewpoint } = {
+    'stage': { position: new THREE.Vector3(0, 30, 50), target: new THREE.Vector3(0, 0, 0) },
+    'tunnel': { position: new THREE.Vector3(0, 0, 6), target: new THREE.Vector3(0, 0, -40) },
+    'sphere': { position: new THREE.Vector3(0, 18, 40), target: new THREE.Vector3(0, 0, 0) },
+    'radial-bars': { position: new THREE.Vector3(0, 0, 45), target: new THREE.Vector3(0, 0, 0) }
+};
+
+/** Where the layers go in each scene */
+interface SceneLayout {
+    barRing: 'flat' | 'vertical';   // Flat ring growing up, or vertical ring growing outward
+    barRadius: number;
+    barHeight: number;              // Height of a full-scale bar
+    barOffset: THREE.Vector3;
+    waveformOffset: THREE.Vector3;
+    terrainOffset: THREE.Vector3;
+    showGrid: boolean;
+}
+
+const SCENE_LAYOUTS: { [name in SceneName]: SceneLayout } = {
+    'stage': {
+        barRing: 'flat', barRadius: 20, barHeight: 20, barOffset: new THREE.Vector3(0, 0, 0),
+        waveformOffset: new THREE.Vector3(0, 0, 0), terrainOffset: new THREE.Vector3(0, -10, 0), showGrid: true
+    },
+    'tunnel': {
+        barRing: 'vertical', barRadius: 5, barHeight: 6, barOffset: new THREE.Vector3(0, 0, -70),
+        waveformOffset: new THREE.Vector3(0, -4, -25), terrainOffset: new THREE.Vector3(0, -13, -20), showGrid: false
+    },
+    'sphere': {
+        barRing: 'flat', barRadius: 20, barHeight: 14, barOffset: new THREE.Vector3(0, -4, 0),
+        waveformOffset: new THREE.Vector3(0, 16, 0), terrainOffset: new THREE.Vector3(0, -18, 0), showGrid: false
+    },
+    'radial-bars': {
+        barRing: 'vertical', barRadius: 8, barHeight: 16, barOffset: new THREE.Vector3(0, 0, 0),
+        waveformOffset: new THREE.Vector3(0, 0, 2), terrainOffset: new THREE.Vector3(0, -24, -10), showGrid: false
+    }
+};
+
+export class Three3DVisualizer implements Visualizer {
+    static readonly PARAMETERS: ParameterDefinition[] = [
+        {
+            key: 'scene', label: 'Scene', type: 'select', default: 'stage', group: '3D Scene',
+            options: [
+                { value: 'stage', label: 'Stage' },
+                { value: 'tunnel', label: 'Spectrum Tunnel' },
+                { value: 'sphere', label: 'Deforming Sphere' },
+                { value: 'radial-bars', label: 'Radial Bars' }
+            ]
+        },
+        { key: 'showBars', label: 'Frequency Bars', type: 'boolean', default: true, group: '3D Scene' },
+        { key: 'showWaveform', label: 'Waveform', type: 'boolean', default: true, group: '3D Scene' },
+        { key: 'showTerrain', label: 'Terrain', type: 'boolean', default: true, group: '3D Scene' },
+        { key: 'barScale', label: 'Bar Height', type: 'number', min: 0, max: 3, step: 0.05, default: 1, group: '3D Scene' },
+        { key: 'terrainHeight', label: 'Displacement', type: 'number', min: 0, max: 30, step: 0.5, default: 10, group: '3D Scene' },
+        {
+            key: 'terrainColormap', label: 'Colormap', type: 'select', default: 'viridis', group: '3D Scene',
+            options: COLORMAPS.map(name => ({ value: name, label: name.charAt(0).toUpperCase() + name.slice(1) }))
+        },
+        { key: 'terrainWireframe', label: 'Wireframe Terrain', type: 'boolean', default: false, group: '3D Scene' },
+        { key: 'particlesEnabled', label: '3D Particles', type: 'boolean', default: true, group: '3D Particles' },
+        { key: 'spawnRate', label: 'Spawn Rate', type: 'number', min: 0, max: 3000, step: 50, unit: '/s', default: 600, group: '3D Particles' },
+        { key: 'lifespan', label: 'Lifespan', type: 'number', min: 0.5, max: 10, step: 0.5, unit: 's', default: 3, group: '3D Particles' },
+        { key: 'particleSize', label: 'Particle Size', type: 'number', min: 0.2, max: 4, step: 0.1, default: 1, group: '3D Particles' },
+        { key: 'attractorStrength', label: 'Attractor Strength', type: 'number', min: 0, max: 300, step: 5, default: 60, group: '3D Particles' },
+        ...CameraChoreographer.PARAMETERS,
+        ...PostProcessingChain.PARAMETERS
+    ];
 
-export class Three3DVisualizer {
     private scene: THREE.Scene;
     private camera: THREE.PerspectiveCamera;
-    private renderer: THREE.WebGLRenderer;
-    private controls: OrbitControls;
-    private analyser: AnalyserNode;
-    private frequencyData: Uint8Array;
-    private timeData: Uint8Array;
-    private bufferLength: number;
-    private lastTime: number = 0;
+    private renderer!: THREE.WebGLRenderer;
+    private controls!: OrbitControls;
+    private postProcessing!: PostProcessingChain;
+    private choreographer: CameraChoreographer = new CameraChoreographer();
+    private parameterListeners: ParameterChangeListener[] = [];
+    private frameTime: number = 0;
+    private bandAnalyzer: FrequencyBandAnalyzer;
+    private bandValues: Float32Array = new Float32Array(0);
+    private timeData: Uint8Array = new Uint8Array(0);
     private hueOffset: number = 0;
     
     // 3D objects
+    private barLayer: THREE.Group = new THREE.Group();
     private frequencyBars: THREE.Mesh[] = [];
+    private barBases: THREE.Vector3[] = [];       // Foot of each bar within the bar layer
+    private barDirections: THREE.Vector3[] = [];  // Direction each bar grows in
+    private barCount = 64;
     private waveformCurve: THREE.Line | null = null;
     private waveformPoints: THREE.Vector3[] = [];
-    private terrain: THREE.Mesh | null = null;
-    private terrainSize = 64;
-    private terrainHistory: number[][] = [];
-    private historyLength = 32;
+    private grid: THREE.GridHelper;
+    private particleEmitter: ThreeParticleEmitter;
+
+    // Spectrum surfaces, all displaced on the GPU from one shared history texture
+    private spectrumHistory: SpectrumHistory;
+    private colormapTexture: THREE.DataTexture;
+    private spectrumUniforms: SpectrumUniforms;
+    private terrain: THREE.Mesh;
+    private tunnel: THREE.Mesh;
+    private sphere: THREE.Mesh;
+
+    private sceneName: SceneName = 'stage';
+    private showBars: boolean = true;
+    private showWaveform: boolean = true;
+    private showTerrain: boolean = true;
+    private barScale: number = 1;
+    private colormap: ColormapName = 'viridis';
     
-    constructor(canvasId: string, analyserNode: AnalyserNode) {
+    constructor() {
         // Initialize Three.js scene
         this.scene = new THREE.Scene();
         this.scene.background = new THREE.Color(0x000011);
@@ -35,49 +139,234 @@ export class Three3DVisualizer {
         this.camera.position.set(0, 30, 50);
         this.camera.lookAt(0, 0, 0);
         
+        // One band per bar
+        this.bandAnalyzer = new FrequencyBandAnalyzer({ bandCount: this.barCount, aggregation: 'rms' });
+        
+        // Add lights
+        this.addLights();
+        
+        // Create 3D objects
+        this.createFrequencyBars();
+        this.createWaveform();
+        this.particleEmitter = new ThreeParticleEmitter(this.scene);
+
+        this.spectrumHistory = new SpectrumHistory(256, 256);
+        this.colormapTexture = createColormapTexture(this.colormap);
+        this.spectrumUniforms = createSpectrumUniforms(this.spectrumHistory, this.colormapTexture);
+        this.terrain = createTerrainMesh(this.spectrumUniforms, this.spectrumHistory.getColumns(), this.spectrumHistory.getRows());
+        this.tunnel = createTunnelMesh(this.spectrumUniforms);
+        this.sphere = createSphereMesh(this.spectrumUniforms);
+        this.scene.add(this.terrain, this.tunnel, this.sphere);
+        
+        // Add grid for reference
+        this.grid = new THREE.GridHelper(100, 20, 0x444444, 0x222222);
+        this.scene.add(this.grid);
+
+        this.arrangeScene();
+    }
+
+    public init(container: HTMLElement) {
         // Initialize renderer
-        const canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+        const canvas = createVisualizerCanvas(container);
         this.renderer = new THREE.WebGLRenderer({ 
             canvas,
             antialias: true,
             alpha: true
         });
-        this.renderer.setSize(window.innerWidth, window.innerHeight);
         this.renderer.setPixelRatio(window.devicePixelRatio);
-        
+        this.postProcessing = new PostProcessingChain(this.renderer, this.scene, this.camera);
+        this.postProcessing.setPixelRatio(window.devicePixelRatio);
+
         // Add orbit controls
         this.controls = new OrbitControls(this.camera, this.renderer.domElement);
         this.controls.enableDamping = true;
         this.controls.dampingFactor = 0.05;
         this.controls.maxPolarAngle = Math.PI / 2;
-        
-        // Set up audio analyzer
-        this.analyser = analyserNode;
-        this.bufferLength = this.analyser.frequencyBinCount;
-        this.frequencyData = new Uint8Array(this.bufferLength);
-        this.timeData = new Uint8Array(this.bufferLength);
-        
-        // Initialize terrain history
-        for (let i = 0; i < this.historyLength; i++) {
-            this.terrainHistory.push(new Array(this.terrainSize).fill(0));
+        this.moveToViewpoint(SCENE_VIEWPOINTS[this.sceneName]);
+
+        // Double-click saves the current view as a cut destination, shift-double-click clears them
+        canvas.addEventListener('dblclick', (event: MouseEvent) => {
+            if (event.shiftKey) {
+                this.choreographer.clearViewpoints();
+            } else {
+                this.choreographer.saveViewpoint(this.camera, this.controls.target);
+                console.log(`Saved camera viewpoint ${this.choreographer.getViewpointCount()}`);
+            }
+            this.notifyParameter('viewpoints');
+        });
+    }
+
+    public resize(width: number, height: number) {
+        this.camera.aspect = width / Math.max(1, height);
+        this.camera.updateProjectionMatrix();
+        this.renderer.setSize(width, height);
+        this.postProcessing.setSize(width, height);
+    }
+
+    /**
+     * Release every GPU resource: geometries, materials, textures, the particle buffers,
+     * the post-processing render targets and the WebGL context itself.
+     */
+    public dispose() {
+        this.controls.dispose();
+        this.postProcessing.dispose();
+        this.particleEmitter.dispose();
+        this.spectrumHistory.dispose();
+        this.colormapTexture.dispose();
+        this.scene.traverse(object => {
+            const mesh = object as THREE.Mesh;
+            if (mesh.geometry) mesh.geometry.dispose();
+            if (mesh.material) {
+                const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+                materials.forEach(material => material.dispose());
+            }
+        });
+        this.scene.clear();
+        this.frequencyBars = [];
+        this.waveformCurve = null;
+        this.parameterListeners = [];
+
+        const canvas = this.renderer.domElement;
+        this.renderer.dispose();
+        this.renderer.forceContextLoss();
+        canvas.remove();
+    }
+
+    public getParameterSchema(): ParameterDefinition[] {
+        return Three3DVisualizer.PARAMETERS;
+    }
+
+    public getParameter(key: string): ParameterValue | undefined {
+        const emitter = this.particleEmitter;
+        switch (key) {
+            case 'scene': return this.sceneName;
+            case 'showBars': return this.showBars;
+            case 'showWaveform': return this.showWaveform;
+            case 'showTerrain': return this.showTerrain;
+            case 'barScale': return this.barScale;
+            case 'terrainHeight': return this.spectrumUniforms.uHeight.value;
+            case 'terrainColormap': return this.colormap;
+            case 'terrainWireframe': return (this.terrain.material as THREE.ShaderMaterial).wireframe;
+            case 'particlesEnabled': return emitter.isEnabled();
+            case 'spawnRate': return emitter.getSpawnRate();
+            case 'lifespan': return emitter.getLifespan();
+            case 'particleSize': return emitter.getSizeScale();
+            case 'attractorStrength': return emitter.getAttractorStrength();
         }
-        
-        // Add lights
-        this.addLights();
-        
-        // Create 3D objects
-        this.createFrequencyBars();
-        this.createWaveform();
-        this.createTerrain();
-        
-        // Add grid for reference
-        const grid = new THREE.GridHelper(100, 20, 0x444444, 0x222222);
-        this.scene.add(grid);
-        
-        // Handle window resize
-        window.addEventListener('resize', this.onWindowResize.bind(this));
+        const camera = this.choreographer.getParameter(key);
+        return camera !== undefined ? camera : this.postProcessing.getParameter(key);
     }
-    
+
+    public setParameter(key: string, value: ParameterValue) {
+        const emitter = this.particleEmitter;
+        switch (key) {
+            case 'scene':
+                if (value !== this.sceneName && SCENE_LAYOUTS[value as SceneName]) {
+                    this.sceneName = value as SceneName;
+                    this.arrangeScene();
+                    this.moveToViewpoint(SCENE_VIEWPOINTS[this.sceneName]);
+                }
+                break;
+            case 'showBars': this.showBars = Boolean(value); this.arrangeScene(); break;
+            case 'showWaveform': this.showWaveform = Boolean(value); this.arrangeScene(); break;
+            case 'showTerrain': this.showTerrain = Boolean(value); this.arrangeScene(); break;
+            case 'barScale': this.barScale = Math.max(0, Number(value)); break;
+            case 'terrainHeight': this.spectrumUniforms.uHeight.value = Math.max(0, Number(value)); break;
+            case 'terrainColormap':
+                this.colormap = value as ColormapName;
+                fillColormapTexture(this.colormapTexture, this.colormap);
+                break;
+            case 'terrainWireframe': (this.terrain.material as THREE.ShaderMaterial).wireframe = Boolean(value); break;
+            case 'particlesEnabled': emitter.setEnabled(Boolean(value)); break;
+            case 'spawnRate': emitter.setSpawnRate(Number(value)); break;
+            case 'lifespan': emitter.setLifespan(Number(value)); break;
+            case 'particleSize': emitter.setSizeScale(Number(value)); break;
+            case 'attractorStrength': emitter.setAttractorStrength(Number(value)); break;
+            default:
+                if (!this.choreographer.setParameter(key, value)) {
+                    this.postProcessing.setParameter(key, value);
+                }
+                break;
+        }
+    }
+
+    public onParameterChange(listener: ParameterChangeListener): () => void {
+        this.parameterListeners.push(listener);
+        return () => {
+            this.parameterListeners = this.parameterListeners.filter(l => l !== listener);
+        };
+    }
+
+    private notifyParameter(key: string) {
+        const value = this.getParameter(key);
+        if (value === undefined) return;
+        this.parameterListeners.forEach(listener => listener(key, value));
+    }
+
+    public setBandOptions(options: Partial<FrequencyBandOptions>) {
+        this.bandAnalyzer.setOptions({ ...options, bandCount: this.barCount });
+    }
+
+    /**
+     * Band value for position t (0-1) along the spectrum. Layouts with a fixed
+     * band count (octave, third-octave) may have fewer bands than bars.
+     */
+    private sampleBand(t: number): number {
+        const count = this.bandValues.length;
+        if (count === 0) return 0;
+        return this.bandValues[Math.min(count - 1, Math.floor(t * count))];
+    }
+
+    /**
+     * Show the current scene's centerpiece and move the enabled layers into its layout.
+     */
+    private arrangeScene() {
+        const layout = SCENE_LAYOUTS[this.sceneName];
+
+        this.tunnel.visible = this.sceneName === 'tunnel';
+        this.sphere.visible = this.sceneName === 'sphere';
+        this.grid.visible = layout.showGrid;
+
+        this.barLayer.visible = this.showBars;
+        this.barLayer.position.copy(layout.barOffset);
+        for (let i = 0; i < this.barCount; i++) {
+            const angle = (i / this.barCount) * Math.PI * 2;
+            const bar = this.frequencyBars[i];
+            if (layout.barRing === 'flat') {
+                this.barBases[i].set(Math.cos(angle) * layout.barRadius, 0, Math.sin(angle) * layout.barRadius);
+                this.barDirections[i].set(0, 1, 0);
+                bar.rotation.set(0, 0, 0);
+            } else {
+                // Rotating local +y by angle - 90° about z points it along (cos, sin)
+                this.barBases[i].set(Math.cos(angle) * layout.barRadius, Math.sin(angle) * layout.barRadius, 0);
+                this.barDirections[i].set(Math.cos(angle), Math.sin(angle), 0);
+                bar.rotation.set(0, 0, angle - Math.PI / 2);
+            }
+        }
+
+        if (this.waveformCurve) {
+            this.waveformCurve.visible = this.showWaveform;
+            this.waveformCurve.position.copy(layout.waveformOffset);
+        }
+
+        this.terrain.visible = this.showTerrain;
+        this.terrain.position.copy(layout.terrainOffset);
+    }
+
+    private moveToViewpoint(viewpoint: Viewpoint) {
+        this.camera.position.copy(viewpoint.position);
+        this.controls.target.copy(viewpoint.target);
+        this.controls.update();
+        this.choreographer.setSceneViewpoint(viewpoint);
+    }
+
+    /**
+     * The 3D particle emitter, for tuning spawn rate, lifespan, size and attractor strength.
+     */
+    public getParticleEmitter(): ThreeParticleEmitter {
+        return this.particleEmitter;
+    }
+
     private addLights() {
         // Ambient light
         const ambientLight = new THREE.AmbientLight(0x222222);
@@ -104,10 +393,8 @@ export class Three3DVisualizer {
     
     private createFrequencyBars() {
         // We'll use fewer bars for better performance
-        const barCount = 64;
+        const barCount = this.barCount;
         const barWidth = 0.5;
-        const barSpacing = 0.2;
-        const totalWidth = barCount * (barWidth + barSpacing);
         
         for (let i = 0; i < barCount; i++) {
             const geometry = new THREE.BoxGeometry(barWidth, 1, barWidth);
@@ -120,17 +407,14 @@ export class Three3DVisualizer {
                 emissive: new THREE.Color(`hsl(${hue}, 100%, 20%)`)
             });
             
+            // Positioned around a ring by arrangeScene
             const bar = new THREE.Mesh(geometry, material);
-            
-            // Position bars in a circle
-            const angle = (i / barCount) * Math.PI * 2;
-            const radius = 20;
-            bar.position.x = Math.cos(angle) * radius;
-            bar.position.z = Math.sin(angle) * radius;
-            
-            this.scene.add(bar);
+            this.barLayer.add(bar);
             this.frequencyBars.push(bar);
+            this.barBases.push(new THREE.Vector3());
+            this.barDirections.push(new THREE.Vector3(0, 1, 0));
         }
+        this.scene.add(this.barLayer);
     }
     
     private createWaveform() {
@@ -162,95 +446,35 @@ export class Three3DVisualizer {
         this.scene.add(this.waveformCurve);
     }
     
-    private createTerrain() {
-        // Create a plane geometry for the terrain
-        const geometry = new THREE.PlaneGeometry(
-            40, 40,
-            this.terrainSize - 1, this.historyLength - 1
-        );
-        
-        // Rotate to be horizontal
-        geometry.rotateX(-Math.PI / 2);
-        
-        // Create a material with wireframe
-        const material = new THREE.MeshPhongMaterial({
-            color: 0x0088ff,
-            wireframe: true,
-            shininess: 100,
-            side: THREE.DoubleSide
-        });
-        
-        // Create the mesh
-        this.terrain = new THREE.Mesh(geometry, material);
-        this.terrain.position.set(0, -10, 0);
-        this.scene.add(this.terrain);
-    }
-    
-    private updateTerrain() {
-        if (!this.terrain) return;
-        
-        // Shift history forward
-        this.terrainHistory.pop();
-        
-        // Add new data at the front
-        const newRow: number[] = [];
-        for (let i = 0; i < this.terrainSize; i++) {
-            const dataIndex = Math.floor((i / this.terrainSize) * this.bufferLength);
-            newRow.push(this.frequencyData[dataIndex] / 255);
-        }
-        this.terrainHistory.unshift(newRow);
-        
-        // Update the terrain geometry
-        const geometry = this.terrain.geometry as THREE.PlaneGeometry;
-        const positionAttribute = geometry.getAttribute('position');
-        
-        for (let z = 0; z < this.historyLength; z++) {
-            for (let x = 0; x < this.terrainSize; x++) {
-                const index = z * this.terrainSize + x;
-                const height = this.terrainHistory[z][x] * 10; // Scale height
-                positionAttribute.setY(index, height);
-            }
-        }
-        
-        positionAttribute.needsUpdate = true;
-        geometry.computeVertexNormals();
-    }
-    
-    private onWindowResize() {
-        this.camera.aspect = window.innerWidth / window.innerHeight;
-        this.camera.updateProjectionMatrix();
-        this.renderer.setSize(window.innerWidth, window.innerHeight);
-    }
-    
-    public animate() {
-        const now = performance.now();
-        const dt = now - this.lastTime;
-        this.lastTime = now;
-        
+    public update(frame: AudioFrame) {
+        // Clamp dt so a backgrounded tab doesn't fling particles away
+        const dt = Math.min(frame.dt, 0.1);
+        this.frameTime = dt;
+
         // Update hue offset for color cycling
-        this.hueOffset = (this.hueOffset + dt * 0.01) % 360;
+        this.hueOffset = (this.hueOffset + frame.dt * 1000 * 0.01) % 360;
         
         // Get audio data
-        this.analyser.getByteFrequencyData(this.frequencyData);
-        this.analyser.getByteTimeDomainData(this.timeData);
+        this.bandValues = this.bandAnalyzer.update(frame.frequencyData, frame.sampleRate, 255, dt);
+        this.timeData = frame.timeDomainData;
         
-        // Calculate overall intensity for effects
-        let totalIntensity = 0;
-        for (let i = 0; i < this.bufferLength; i++) {
-            totalIntensity += this.frequencyData[i];
-        }
-        const avgIntensity = totalIntensity / this.bufferLength / 255;
+        // Beat pulse drives the effects rather than raw loudness
+        const pulse = frame.beat.pulse;
+        const features = frame.features;
+
+        // Noisier material thickens the fog
+        (this.scene.fog as THREE.FogExp2).density = 0.0025 + features.flatness * 0.01;
         
         // Update frequency bars
         const barCount = this.frequencyBars.length;
+        const barHeight = SCENE_LAYOUTS[this.sceneName].barHeight * this.barScale;
         for (let i = 0; i < barCount; i++) {
-            const dataIndex = Math.floor((i / barCount) * this.bufferLength);
-            const value = this.frequencyData[dataIndex] / 255;
+            const value = this.sampleBand(i / barCount);
             
-            // Update height
-            const height = value * 20 + 0.1; // Add small offset to always show bars
+            // Update height, growing away from the foot of the bar
+            const height = value * barHeight * (1 + pulse * 0.5) + 0.1; // Add small offset to always show bars
             this.frequencyBars[i].scale.y = height;
-            this.frequencyBars[i].position.y = height / 2;
+            this.frequencyBars[i].position.copy(this.barBases[i]).addScaledVector(this.barDirections[i], height / 2);
             
             // Update color based on intensity and position
             const hue = (i / barCount * 360 + this.hueOffset) % 360;
@@ -265,28 +489,41 @@ export class Three3DVisualizer {
             const segmentCount = positions.count;
             
             for (let i = 0; i < segmentCount; i++) {
-                const dataIndex = Math.floor((i / segmentCount) * this.bufferLength);
+                const dataIndex = Math.floor((i / segmentCount) * this.timeData.length);
                 const value = (this.timeData[dataIndex] / 128.0 - 1) * 10; // Scale for visibility
                 
                 positions.setY(i, value);
             }
             
             positions.needsUpdate = true;
+            this.waveformCurve.scale.y = 1 + pulse;
             
             // Rotate waveform for effect
             this.waveformCurve.rotation.y += 0.005;
         }
         
-        // Update terrain
-        this.updateTerrain();
-        
-        // Update camera for subtle movement based on audio
-        this.camera.position.y = 30 + avgIntensity * 5;
+        // Append this frame to the spectrum history the surfaces are displaced from
+        this.spectrumHistory.push(frame, this.renderer);
+        this.spectrumUniforms.uHead.value = this.spectrumHistory.getHead();
+        this.spectrumUniforms.uPulse.value = pulse;
+
+        // Update particles
+        this.particleEmitter.update(dt, this.bandValues, pulse);
         
+        // Auto-orbit and phrase cuts move the camera's base pose
+        this.choreographer.update(frame, this.camera, this.controls.target);
+
+        this.postProcessing.update(frame);
+    }
+
+    public render() {
         // Update controls
         this.controls.update();
         
-        // Render scene
-        this.renderer.render(this.scene, this.camera);
+        // Render scene through the post-processing chain, with the beat and transient
+        // camera moves added only for the duration of the render
+        this.choreographer.apply(this.camera, this.controls.target);
+        this.postProcessing.render(this.frameTime);
+        this.choreographer.restore(this.camera);
     }
 }
@@ -0,0 +1,342 @@
+import * as THREE from 'three';
+
+/**
+ * Audio-reactive 3D particle emitter rendered as a single THREE.Points draw call.
+ *
+ * Particles are stored densely in typed arrays: live particles occupy indices
+ * [0, count), and a dying particle is replaced by the last live one (swap-remove),
+ * so the geometry's draw range always covers exactly the live set.
+ *
+ * Numerical methods:
+ * - Band-weighted random sampling to pick which band a new particle belongs to
+ * - Inverse-square attraction toward a ring of band attractors (3D analogue of
+ *   CanvasParticleSystem.applyFFTForces), with softening to avoid singularities
+ * - Semi-implicit Euler integration with exponential velocity damping
+ * - Linear interpolation of size and opacity over each particle's lifetime
+ */
+export class ThreeParticleEmitter {
+    private scene: THREE.Scene;
+    private points: THREE.Points;
+    private geometry: THREE.BufferGeometry;
+    private material: THREE.ShaderMaterial;
+    private maxParticles: number;
+    private count: number = 0;
+    private spawnAccumulator: number = 0;
+
+    // Per-particle state
+    private positions: Float32Array;
+    private velocities: Float32Array;
+    private colors: Float32Array;
+    private sizes: Float32Array;
+    private alphas: Float32Array;
+    private baseSizes: Float32Array;
+    private ages: Float32Array;
+    private lifespans: Float32Array;
+    private bandIndices: Uint8Array;
+
+    private attractors: THREE.Vector3[] = [];
+    private attractorIntensities: Float32Array;
+
+    private spawnRate: number = 600;         // Particles per second at full band energy
+    private lifespan: number = 3;            // Seconds
+    private sizeScale: number = 1;
+    private attractorStrength: number = 60;
+    private enabled: boolean = true;
+
+    private readonly NUM_ATTRACTORS = 8;
+    private readonly ATTRACTOR_RADIUS = 15;
+    private readonly ATTRACTOR_HEIGHT = 8;
+    private readonly SOFTENING = 4;          // Added to r² so forces stay finite near an attractor
+    private readonly DAMPING = 0.6;          // Fraction of velocity lost per second
+    private readonly BASE_SIZE = 1.2;
+    private readonly color = new THREE.Color();
+
+    constructor(scene: THREE.Scene, maxParticles: number = 8000) {
+        this.scene = scene;
+        this.maxParticles = maxParticles;
+
+        this.positions = new Float32Array(maxParticles * 3);
+        this.velocities = new Float32Array(maxParticles * 3);
+        this.colors = new Float32Array(maxParticles * 3);
+        this.sizes = new Float32Array(maxParticles);
+        this.alphas = new Float32Array(maxParticles);
+        this.baseSizes = new Float32Array(maxParticles);
+        this.ages = new Float32Array(maxParticles);
+        this.lifespans = new Float32Array(maxParticles);
+        this.bandIndices = new Uint8Array(maxParticles);
+        this.attractorIntensities = new Float32Array(this.NUM_ATTRACTORS);
+
+        for (let i = 0; i < this.NUM_ATTRACTORS; i++) {
+            const angle = (2 * Math.PI * i) / this.NUM_ATTRACTORS;
+            this.attractors.push(new THREE.Vector3(
+                Math.cos(angle) * this.ATTRACTOR_RADIUS,
+                this.ATTRACTOR_HEIGHT,
+                Math.sin(angle) * this.ATTRACTOR_RADIUS
+            ));
+        }
+
+        this.geometry = new THREE.BufferGeometry();
+        this.geometry.setAttribute('position', new THREE.BufferAttribute(this.positions, 3).setUsage(THREE.DynamicDrawUsage));
+        this.geometry.setAttribute('color', new THREE.BufferAttribute(this.colors, 3).setUsage(THREE.DynamicDrawUsage));
+        this.geometry.setAttribute('size', new THREE.BufferAttribute(this.sizes, 1).setUsage(THREE.DynamicDrawUsage));
+        this.geometry.setAttribute('alpha', new THREE.BufferAttribute(this.alphas, 1).setUsage(THREE.DynamicDrawUsage));
+        this.geometry.setDrawRange(0, 0);
+
+        // PointsMaterial has no per-particle size or opacity, so use a small custom shader
+        this.material = new THREE.ShaderMaterial({
+            vertexShader: `
+                attribute float size;
+                attribute float alpha;
+                varying vec3 vColor;
+                varying float vAlpha;
+                void main() {
+                    vColor = color;
+                    vAlpha = alpha;
+                    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+                    gl_PointSize = size * (300.0 / -mvPosition.z);
+                    gl_Position = projectionMatrix * mvPosition;
+                }
+            `,
+            fragmentShader: `
+                varying vec3 vColor;
+                varying float vAlpha;
+                void main() {
+                    // Soft round sprite
+                    float d = length(gl_PointCoord - vec2(0.5));
+                    if (d > 0.5) discard;
+                    gl_FragColor = vec4(vColor, vAlpha * (1.0 - d * 2.0));
+                }
+            `,
+            vertexColors: true,
+            transparent: true,
+            depthWrite: false,
+            blending: THREE.AdditiveBlending
+        });
+
+        this.points = new THREE.Points(this.geometry, this.material);
+        // Particles move everywhere; skip bounding-sphere culling
+        this.points.frustumCulled = false;
+        this.scene.add(this.points);
+    }
+
+    setEnabled(enabled: boolean) {
+        this.enabled = enabled;
+        this.points.visible = enabled;
+        if (!enabled) {
+            this.count = 0;
+            this.geometry.setDrawRange(0, 0);
+        }
+    }
+
+    isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    setSpawnRate(rate: number) {
+        this.spawnRate = Math.max(0, rate);
+    }
+
+    getSpawnRate(): number {
+        return this.spawnRate;
+    }
+
+    setLifespan(seconds: number) {
+        this.lifespan = Math.max(0.1, seconds);
+    }
+
+    getLifespan(): number {
+        return this.lifespan;
+    }
+
+    setSizeScale(scale: number) {
+        this.sizeScale = Math.max(0, scale);
+    }
+
+    getSizeScale(): number {
+        return this.sizeScale;
+    }
+
+    setAttractorStrength(strength: number) {
+        this.attractorStrength = strength;
+    }
+
+    getAttractorStrength(): number {
+        return this.attractorStrength;
+    }
+
+    getParticleCount(): number {
+        return this.count;
+    }
+
+    /**
+     * Advance the emitter.
+     * @param dt Seconds since the last update
+     * @param bands Band energies (0-1); grouped down to one value per attractor
+     * @param pulse Beat pulse (0-1); briefly boosts spawning and launch speed
+     */
+    update(dt: number, bands: Float32Array, pulse: number = 0) {
+        if (!this.enabled) return;
+
+        this.updateAttractorIntensities(bands);
+        this.spawn(dt, pulse);
+        this.integrate(dt);
+        this.syncAttributes();
+    }
+
+    /**
+     * Average the incoming bands into one intensity per attractor.
+     */
+    private updateAttractorIntensities(bands: Float32Array) {
+        const groups = this.NUM_ATTRACTORS;
+        for (let a = 0; a < groups; a++) {
+            const start = Math.floor((a * bands.length) / groups);
+            const end = Math.max(start + 1, Math.floor(((a + 1) * bands.length) / groups));
+            let sum = 0;
+            for (let i = start; i < end && i < bands.length; i++) sum += bands[i];
+            this.attractorIntensities[a] = bands.length > 0 ? sum / (end - start) : 0;
+        }
+    }
+
+    private spawn(dt: number, pulse: number) {
+        let totalEnergy = 0;
+        for (let a = 0; a < this.NUM_ATTRACTORS; a++) totalEnergy += this.attractorIntensities[a];
+        const meanEnergy = totalEnergy / this.NUM_ATTRACTORS;
+
+        // Fractional particles carry over to the next frame so low rates still emit
+        this.spawnAccumulator += this.spawnRate * (meanEnergy + pulse * 0.5) * dt;
+        let toSpawn = Math.floor(this.spawnAccumulator);
+        this.spawnAccumulator -= toSpawn;
+
+        while (toSpawn-- > 0 && this.count < this.maxParticles) {
+            const band = this.pickBand(totalEnergy);
+            const energy = this.attractorIntensities[band];
+            const i = this.count++;
+            const i3 = i * 3;
+
+            // Launch from near the origin in a random upward-biased direction
+            const theta = Math.random() * Math.PI * 2;
+            const phi = Math.acos(Math.random() * 2 - 1);
+            const speed = 4 + energy * 10 + pulse * 8;
+            this.positions[i3] = (Math.random() - 0.5) * 2;
+            this.positions[i3 + 1] = Math.random() * 2;
+            this.positions[i3 + 2] = (Math.random() - 0.5) * 2;
+            this.velocities[i3] = Math.sin(phi) * Math.cos(theta) * speed;
+            this.velocities[i3 + 1] = Math.abs(Math.cos(phi)) * speed;
+            this.velocities[i3 + 2] = Math.sin(phi) * Math.sin(theta) * speed;
+
+            // Low bands live longer and are bigger; high bands are short, small sparks
+            const bandPosition = band / (this.NUM_ATTRACTORS - 1);
+            this.lifespans[i] = this.lifespan * (1.3 - bandPosition * 0.6) * (0.75 + Math.random() * 0.5);
+            this.ages[i] = 0;
+            this.baseSizes[i] = this.BASE_SIZE * (0.5 + energy * 1.5) * (1.4 - bandPosition * 0.8);
+            this.bandIndices[i] = band;
+
+            this.color.setHSL(band / this.NUM_ATTRACTORS, 1, 0.4 + energy * 0.3);
+            this.colors[i3] = this.color.r;
+            this.colors[i3 + 1] = this.color.g;
+            this.colors[i3 + 2] = this.color.b;
+        }
+    }
+
+    /**
+     * Numerical method: Roulette-wheel selection weighted by band energy
+     */
+    private pickBand(totalEnergy: number): number {
+        if (totalEnergy <= 0) return Math.floor(Math.random() * this.NUM_ATTRACTORS);
+        let r = Math.random() * totalEnergy;
+        for (let a = 0; a < this.NUM_ATTRACTORS; a++) {
+            r -= this.attractorIntensities[a];
+            if (r <= 0) return a;
+        }
+        return this.NUM_ATTRACTORS - 1;
+    }
+
+    private integrate(dt: number) {
+        const damping = Math.exp(-this.DAMPING * dt);
+        let i = 0;
+        while (i < this.count) {
+            this.ages[i] += dt;
+            if (this.ages[i] >= this.lifespans[i]) {
+                this.kill(i);
+                continue;  // Re-examine index i, which now holds the former last particle
+            }
+
+            const i3 = i * 3;
+            const px = this.positions[i3];
+            const py = this.positions[i3 + 1];
+            const pz = this.positions[i3 + 2];
+            let ax = 0;
+            let ay = 0;
+            let az = 0;
+
+            // Numerical method: Softened inverse-square attraction toward each band attractor
+            for (let a = 0; a < this.NUM_ATTRACTORS; a++) {
+                const intensity = this.attractorIntensities[a];
+                if (intensity <= 0) continue;
+                const target = this.attractors[a];
+                const dx = target.x - px;
+                const dy = target.y - py;
+                const dz = target.z - pz;
+                const distSq = dx * dx + dy * dy + dz * dz + this.SOFTENING;
+                const invDist = 1 / Math.sqrt(distSq);
+                // A particle is pulled hardest by its own band's attractor
+                const affinity = this.bandIndices[i] === a ? 3 : 1;
+                const force = (this.attractorStrength * intensity * affinity) / distSq;
+                ax += dx * invDist * force;
+                ay += dy * invDist * force;
+                az += dz * invDist * force;
+            }
+
+            // Numerical method: Semi-implicit Euler (update velocity first, then position with the new velocity)
+            this.velocities[i3] = (this.velocities[i3] + ax * dt) * damping;
+            this.velocities[i3 + 1] = (this.velocities[i3 + 1] + ay * dt) * damping;
+            this.velocities[i3 + 2] = (this.velocities[i3 + 2] + az * dt) * damping;
+            this.positions[i3] += this.velocities[i3] * dt;
+            this.positions[i3 + 1] += this.velocities[i3 + 1] * dt;
+            this.positions[i3 + 2] += this.velocities[i3 + 2] * dt;
+
+            // Numerical method: Linear interpolation of size and opacity over the lifetime
+            const life = this.ages[i] / this.lifespans[i];
+            this.sizes[i] = this.baseSizes[i] * this.sizeScale * (1 - life * 0.5);
+            this.alphas[i] = life < 0.1 ? life / 0.1 : 1 - (life - 0.1) / 0.9;
+            i++;
+        }
+    }
+
+    /**
+     * Remove particle i by moving the last live particle into its slot.
+     */
+    private kill(i: number) {
+        const last = --this.count;
+        if (i === last) return;
+        const i3 = i * 3;
+        const l3 = last * 3;
+        for (let k = 0; k < 3; k++) {
+            this.positions[i3 + k] = this.positions[l3 + k];
+            this.velocities[i3 + k] = this.velocities[l3 + k];
+            this.colors[i3 + k] = this.colors[l3 + k];
+        }
+        this.sizes[i] = this.sizes[last];
+        this.alphas[i] = this.alphas[last];
+        this.baseSizes[i] = this.baseSizes[last];
+        this.ages[i] = this.ages[last];
+        this.lifespans[i] = this.lifespans[last];
+        this.bandIndices[i] = this.bandIndices[last];
+    }
+
+    private syncAttributes() {
+        this.geometry.setDrawRange(0, this.count);
+        ['position', 'color', 'size', 'alpha'].forEach(name => {
+            const attribute = this.geometry.getAttribute(name) as THREE.BufferAttribute;
+            attribute.clearUpdateRanges();
+            attribute.addUpdateRange(0, this.count * attribute.itemSize);
+            attribute.needsUpdate = true;
+        });
+    }
+
+    dispose() {
+        this.scene.remove(this.points);
+        this.geometry.dispose();
+        this.material.dispose();
+    }
+}
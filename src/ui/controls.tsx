@@ -1,49 +1,868 @@
-import React from 'react';
+import React, { useEffect, useReducer, useRef, useState } from 'react';
+import { AudioAnalyser, SpectrumEngine, SPECTRUM_ENGINES } from '../audio/analyser';
+import { AudioManager } from '../audio/audioContext';
+import { WindowFunction, WINDOW_FUNCTIONS } from '../audio/fft';
+import { BandAggregation, BandLayout, BAND_AGGREGATIONS, BAND_LAYOUTS, DEFAULT_BAND_OPTIONS } from '../audio/frequencyBands';
+import { MidiAction, MidiController, MidiStatus, describeAction, describeControl } from '../midi';
+import {
+    LFO_SHAPES, LfoShape, MODULATION_CURVES, MODULATION_SOURCES, MODULATION_SOURCE_LABELS, ModulationCurve,
+    ModulationMatrix, ModulationRoute, ModulationSource, createRoute, getModulationRange, isModulatable
+} from '../modulation';
+import { ParameterDefinition, ParameterValue } from '../visualizer';
+import { VisualizerRegistry } from '../visualizerRegistry';
+import { PresetStore, capturePreset, downloadJSON } from './presets';
 
-interface ControlsProps {
-    onSimulationSpeedChange: (speed: number) => void;
-    onParticleCountChange: (count: number) => void;
-    onVisualizationModeChange: (mode: '2D' | '3D') => void;
+export type AudioSourceType = 'microphone' | 'file';
+
+/**
+ * What the panel controls. The app owns all state; the panel only reads it when rendering
+ * and writes through these objects, so values changed elsewhere (canvas dragging, presets)
+ * show up as soon as the owner reports them.
+ */
+export interface ControlSurface {
+    registry: VisualizerRegistry;
+    presets: PresetStore;
+    modulation: ModulationMatrix;
+    midi: MidiController;
+    analyser: AudioAnalyser;
+    audioManager: AudioManager;
+    getAudioSource(): AudioSourceType;
+    setAudioSource(type: AudioSourceType): void;
+    loadAudioFile(file: File): void;
+    activateMode(id: string): void;
+    applyPreset(name: string): void;
+    /** Subscribe to changes made outside the panel (source switches, applied presets) */
+    onStateChange(listener: () => void): () => void;
+}
+
+interface SectionProps {
+    surface: ControlSurface;
+}
+
+const PANEL_STYLE: React.CSSProperties = {
+    maxHeight: 'calc(100vh - 80px)', overflowY: 'auto', minWidth: '240px'
+};
+
+const TOGGLE_STYLE: React.CSSProperties = {
+    position: 'absolute', top: '0', right: '0', zIndex: 11,
+    background: 'rgba(0,0,0,0.7)', color: 'white', border: 'none',
+    borderRadius: '5px', padding: '8px', cursor: 'pointer', fontSize: '16px'
+};
+
+const TEST_BUTTON_STYLE: React.CSSProperties = {
+    padding: '10px', margin: '10px', backgroundColor: '#00aaff', color: 'white',
+    border: 'none', borderRadius: '5px', cursor: 'pointer'
+};
+
+const NOTE_STYLE: React.CSSProperties = { display: 'block', fontSize: '12px', opacity: 0.7 };
+
+const MIDI_STATUS_LABELS: { [status in MidiStatus]: string } = {
+    unavailable: 'Web MIDI is not supported by this browser',
+    idle: 'MIDI off',
+    requesting: 'Waiting for MIDI permission…',
+    connected: 'MIDI on',
+    denied: 'MIDI access was denied'
+};
+
+/**
+ * Re-render on demand; the panel reads live values straight from the app's objects.
+ */
+function useRefresh(): () => void {
+    const [, refresh] = useReducer((n: number) => n + 1, 0);
+    return refresh as () => void;
+}
+
+/**
+ * Re-render whenever the app reports a change made outside the panel.
+ */
+function useSurfaceState(surface: ControlSurface) {
+    const refresh = useRefresh();
+    useEffect(() => surface.onStateChange(refresh), [surface]);
+}
+
+/**
+ * Re-render every `interval` ms, for readouts that change continuously.
+ */
+function usePolling(interval: number) {
+    const refresh = useRefresh();
+    useEffect(() => {
+        const id = window.setInterval(refresh, interval);
+        return () => window.clearInterval(id);
+    }, [interval]);
 }
 
-export const Controls: React.FC<ControlsProps> = ({
-    onSimulationSpeedChange,
-    onParticleCountChange,
-    onVisualizationModeChange
-}) => {
+function formatTime(seconds: number): string {
+    const minutes = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${minutes}:${secs < 10 ? '0' : ''}${secs}`;
+}
+
+/**
+ * The control panel: a gear button toggling every section, from the audio input down to
+ * the active mode's parameters.
+ */
+export const Controls: React.FC<SectionProps> = ({ surface }) => {
+    const [open, setOpen] = useState(false);
+    return (
+        <>
+            <button id="controls-toggle" style={TOGGLE_STYLE} onClick={() => setOpen(!open)}>⚙️</button>
+            {open && (
+                <div className="controls-panel" style={PANEL_STYLE}>
+                    <AudioSourceSection surface={surface} />
+                    <InputDeviceSection surface={surface} />
+                    <TestModeButton surface={surface} />
+                    <SpectrumEngineSection surface={surface} />
+                    <FrequencyBandSection surface={surface} />
+                    <HarmonySection surface={surface} />
+                    <PresetSection surface={surface} />
+                    <ModeSection surface={surface} />
+                    <ParameterPanel surface={surface} />
+                    <ModulationSection surface={surface} />
+                    <MidiSection surface={surface} />
+                </div>
+            )}
+        </>
+    );
+};
+
+/**
+ * Audio source selection, file picker and transport controls for file playback.
+ */
+const AudioSourceSection: React.FC<SectionProps> = ({ surface }) => {
+    useSurfaceState(surface);
+    usePolling(200);
+    const refresh = useRefresh();
+    // Don't fight the user while they drag; seek once they let go
+    const [seeking, setSeeking] = useState<number | null>(null);
+    const player = surface.audioManager.getFilePlayer();
+    const duration = player.getDuration();
+    const position = seeking !== null ? seeking : player.getCurrentTime();
+
+    const togglePlayback = () => {
+        if (!player.hasBuffer()) return;
+        if (surface.getAudioSource() !== 'file') {
+            surface.setAudioSource('file');
+        }
+        player.togglePlayback();
+        refresh();
+    };
+
     return (
-        <div className="controls">
-            <div className="control-group">
-                <label>Simulation Speed</label>
+        <div className="control-group">
+            <label>Audio Source:</label>
+            <select value={surface.getAudioSource()} onChange={e => surface.setAudioSource(e.target.value as AudioSourceType)}>
+                <option value="microphone">Microphone</option>
+                <option value="file">Audio File</option>
+            </select>
+            <input
+                type="file"
+                accept="audio/*,.mp3,.wav,.ogg"
+                style={{ marginTop: '8px' }}
+                onChange={e => {
+                    const file = e.target.files && e.target.files[0];
+                    if (file) surface.loadAudioFile(file);
+                }}
+            />
+            <span style={NOTE_STYLE}>{player.hasBuffer() ? player.getFileName() : 'Or drop an audio file anywhere'}</span>
+            <div style={{ marginTop: '8px' }}>
+                <button style={{ marginRight: '8px' }} disabled={!player.hasBuffer()} onClick={togglePlayback}>
+                    {player.isPlaying() ? 'Pause' : 'Play'}
+                </button>
+                <label style={{ display: 'inline' }}>
+                    <input
+                        type="checkbox"
+                        style={{ width: 'auto' }}
+                        checked={player.getLoop()}
+                        onChange={e => { player.setLoop(e.target.checked); refresh(); }}
+                    /> Loop
+                </label>
                 <input
                     type="range"
-                    min="0"
-                    max="2"
-                    step="0.1"
-                    defaultValue="1"
-                    onChange={(e) => onSimulationSpeedChange(parseFloat(e.target.value))}
+                    min={0}
+                    max={Math.max(duration, 1)}
+                    step={0.01}
+                    value={position}
+                    disabled={!player.hasBuffer()}
+                    style={{ display: 'block', marginTop: '8px' }}
+                    onChange={e => setSeeking(parseFloat(e.target.value))}
+                    onPointerUp={() => {
+                        if (seeking !== null) player.seek(seeking);
+                        setSeeking(null);
+                    }}
+                    onKeyUp={() => {
+                        if (seeking !== null) player.seek(seeking);
+                        setSeeking(null);
+                    }}
                 />
+                <span style={{ fontSize: '12px' }}>{formatTime(position)} / {formatTime(duration)}</span>
             </div>
-            
-            <div className="control-group">
-                <label>Particle Count</label>
+        </div>
+    );
+};
+
+/**
+ * Microphone / line-in device selection.
+ */
+const InputDeviceSection: React.FC<SectionProps> = ({ surface }) => {
+    const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+    const [selected, setSelected] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+        const refreshDevices = async () => {
+            const list = await surface.audioManager.listInputDevices();
+            if (cancelled) return;
+            const preferred = surface.audioManager.getPreferredDeviceId();
+            setDevices(list);
+            setSelected(preferred && list.some(d => d.deviceId === preferred) ? preferred : '');
+        };
+        document.addEventListener('audioDevicesChanged', refreshDevices);
+        refreshDevices();
+        return () => {
+            cancelled = true;
+            document.removeEventListener('audioDevicesChanged', refreshDevices);
+        };
+    }, [surface]);
+
+    const select = async (deviceId: string) => {
+        setSelected(deviceId);
+        await surface.audioManager.selectInputDevice(deviceId || null);
+        surface.setAudioSource('microphone');
+    };
+
+    return (
+        <div className="control-group">
+            <label>Input Device:</label>
+            <select value={selected} onChange={e => select(e.target.value)}>
+                <option value="">System Default</option>
+                {devices
+                    // The browser lists a pseudo-device for the default input; we already offer that
+                    .filter(device => device.deviceId && device.deviceId !== 'default')
+                    .map((device, i) => (
+                        <option key={device.deviceId} value={device.deviceId}>{device.label || `Input ${i + 1}`}</option>
+                    ))}
+            </select>
+        </div>
+    );
+};
+
+const TestModeButton: React.FC<SectionProps> = ({ surface }) => {
+    const [enabled, setEnabled] = useState(false);
+    const toggle = () => {
+        if (enabled) {
+            surface.analyser.disableTestMode();
+        } else {
+            surface.analyser.enableTestMode(surface.audioManager.getContext());
+        }
+        setEnabled(!enabled);
+    };
+    return (
+        <button style={TEST_BUTTON_STYLE} onClick={toggle}>
+            {enabled ? 'Disable Test Mode' : 'Enable Test Mode'}
+        </button>
+    );
+};
+
+/**
+ * Spectrum engine: native AnalyserNode or our own FFT, with its window function and zero-padding.
+ */
+const SpectrumEngineSection: React.FC<SectionProps> = ({ surface }) => {
+    useSurfaceState(surface);
+    const refresh = useRefresh();
+    const analyser = surface.analyser;
+    // Window and padding only matter for the custom engine
+    const custom = analyser.getEngine() === 'fft';
+    const engineLabels: { [engine in SpectrumEngine]: string } = { native: 'Native AnalyserNode', fft: 'Custom FFT' };
+
+    return (
+        <div className="control-group">
+            <label>Spectrum Engine:</label>
+            <select value={analyser.getEngine()} onChange={e => { analyser.setEngine(e.target.value as SpectrumEngine); refresh(); }}>
+                {SPECTRUM_ENGINES.map(engine => <option key={engine} value={engine}>{engineLabels[engine]}</option>)}
+            </select>
+            <select
+                style={{ marginTop: '8px' }}
+                disabled={!custom}
+                value={analyser.getWindowFunction()}
+                onChange={e => { analyser.setWindowFunction(e.target.value as WindowFunction); refresh(); }}
+            >
+                {WINDOW_FUNCTIONS.map(type => <option key={type} value={type}>Window: {type}</option>)}
+            </select>
+            <select
+                style={{ marginTop: '8px' }}
+                disabled={!custom}
+                value={analyser.getZeroPadding()}
+                onChange={e => { analyser.setZeroPadding(parseInt(e.target.value, 10)); refresh(); }}
+            >
+                {[1, 2, 4].map(factor => (
+                    <option key={factor} value={factor}>{factor === 1 ? 'No zero-padding' : `Zero-padding x${factor}`}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
+
+/**
+ * The frequency-band model shared by every visualizer.
+ */
+const FrequencyBandSection: React.FC<SectionProps> = ({ surface }) => {
+    useSurfaceState(surface);
+    const refresh = useRefresh();
+    const registry = surface.registry;
+    const options = { ...DEFAULT_BAND_OPTIONS, ...registry.getBandOptions() };
+    const apply = (change: Parameters<VisualizerRegistry['setBandOptions']>[0]) => {
+        registry.setBandOptions(change);
+        refresh();
+    };
+
+    return (
+        <div className="control-group">
+            <label>Frequency Bands:</label>
+            <select value={options.layout} onChange={e => apply({ layout: e.target.value as BandLayout })}>
+                {BAND_LAYOUTS.map(layout => <option key={layout} value={layout}>Layout: {layout}</option>)}
+            </select>
+            <select style={{ marginTop: '8px' }} value={options.aggregation} onChange={e => apply({ aggregation: e.target.value as BandAggregation })}>
+                {BAND_AGGREGATIONS.map(aggregation => <option key={aggregation} value={aggregation}>Aggregation: {aggregation}</option>)}
+            </select>
+            <label style={{ marginTop: '8px' }}>
+                <input type="checkbox" style={{ width: 'auto' }} checked={options.autoGain} onChange={e => apply({ autoGain: e.target.checked })} /> Auto Gain
+            </label>
+            <label>Release (ms):</label>
+            <input
+                type="range" min={0} max={1000} step={10}
+                value={Math.round(options.release * 1000)}
+                onChange={e => apply({ release: parseInt(e.target.value, 10) / 1000 })}
+            />
+        </div>
+    );
+};
+
+/**
+ * Readout of detected pitch, key and tempo.
+ */
+const HarmonySection: React.FC<SectionProps> = ({ surface }) => {
+    usePolling(250);
+    const analyser = surface.analyser;
+    const pitch = analyser.getPitch();
+    const key = analyser.getKey();
+    const beat = analyser.getBeatState();
+    const note = pitch.clarity > 0.8 ? `${pitch.note} (${pitch.cents >= 0 ? '+' : ''}${pitch.cents}¢)` : '-';
+    const bpm = beat.bpm > 0 ? `${Math.round(beat.bpm)} BPM` : '- BPM';
+
+    return (
+        <div className="control-group">
+            <label>Harmony:</label>
+            <div style={{ fontSize: '12px' }}>Pitch: {note} · Key: {key.name || '-'} · {bpm}</div>
+        </div>
+    );
+};
+
+/**
+ * Preset picker: apply, save, overwrite, rename, delete, and JSON import/export.
+ */
+const PresetSection: React.FC<SectionProps> = ({ surface }) => {
+    const presets = surface.presets;
+    const [selected, setSelected] = useState(presets.list()[0].name);
+    const refresh = useRefresh();
+    const fileInput = useRef<HTMLInputElement>(null);
+    useEffect(() => presets.onChange(refresh), [presets]);
+
+    const current = presets.get(selected) ? selected : presets.list()[0].name;
+    // Built-ins are read-only
+    const readOnly = presets.isBuiltIn(current);
+
+    const run = (action: () => void) => () => {
+        try {
+            action();
+        } catch (error) {
+            alert((error as Error).message);
+        }
+    };
+
+    const saveAs = run(() => {
+        const name = prompt('Preset name:', presets.uniqueName('My Preset'));
+        if (!name) return;
+        presets.save(capturePreset(name.trim(), surface.registry, surface.analyser, surface.modulation));
+        setSelected(name.trim());
+    });
+    const overwrite = run(() => {
+        if (!confirm(`Replace "${current}" with the current settings?`)) return;
+        presets.save(capturePreset(current, surface.registry, surface.analyser, surface.modulation), true);
+    });
+    const rename = run(() => {
+        const name = prompt('New name:', current);
+        if (!name) return;
+        presets.rename(current, name);
+        setSelected(name.trim());
+    });
+    const remove = run(() => {
+        if (!confirm(`Delete preset "${current}"?`)) return;
+        presets.delete(current);
+    });
+
+    const importFile = async (file: File) => {
+        try {
+            const result = presets.import(await file.text());
+            result.warnings.forEach(warning => console.warn(warning));
+            const lines: string[] = [];
+            if (result.imported.length > 0) lines.push(`Imported: ${result.imported.join(', ')}`);
+            if (result.errors.length > 0) lines.push(`Skipped:\n${result.errors.join('\n')}`);
+            alert(lines.join('\n\n') || 'The file contains no presets.');
+        } catch (error) {
+            alert(`Could not import "${file.name}": ${(error as Error).message}`);
+        }
+    };
+
+    const buttonStyle: React.CSSProperties = { marginRight: '4px', marginBottom: '4px' };
+    return (
+        <div className="control-group">
+            <label>Presets:</label>
+            <select value={current} onChange={e => { setSelected(e.target.value); surface.applyPreset(e.target.value); }}>
+                {presets.list().map(preset => (
+                    <option key={preset.name} value={preset.name}>
+                        {presets.isBuiltIn(preset.name) ? `${preset.name} (built-in)` : preset.name}
+                    </option>
+                ))}
+            </select>
+            <div style={{ marginTop: '8px' }}>
+                <button style={buttonStyle} onClick={() => surface.applyPreset(current)}>Apply</button>
+                <button style={buttonStyle} onClick={saveAs}>Save As…</button>
+                <button style={buttonStyle} disabled={readOnly} onClick={overwrite}>Overwrite</button>
+                <button style={buttonStyle} disabled={readOnly} onClick={rename}>Rename…</button>
+                <button style={buttonStyle} disabled={readOnly} onClick={remove}>Delete</button>
+                <button style={buttonStyle} onClick={() => downloadJSON(presets.export(), 'visualizer-presets.json')}>Export</button>
+                <button style={buttonStyle} onClick={() => fileInput.current && fileInput.current.click()}>Import…</button>
                 <input
-                    type="range"
-                    min="100"
-                    max="10000"
-                    step="100"
-                    defaultValue="1000"
-                    onChange={(e) => onParticleCountChange(parseInt(e.target.value))}
+                    ref={fileInput}
+                    type="file"
+                    accept="application/json,.json"
+                    style={{ display: 'none' }}
+                    onChange={e => {
+                        const file = e.target.files && e.target.files[0];
+                        e.target.value = '';
+                        if (file) importFile(file);
+                    }}
                 />
             </div>
-            
-            <div className="control-group">
-                <label>Visualization Mode</label>
-                <select onChange={(e) => onVisualizationModeChange(e.target.value as '2D' | '3D')}>
-                    <option value="2D">2D</option>
-                    <option value="3D">3D</option>
-                </select>
+        </div>
+    );
+};
+
+const ModeSection: React.FC<SectionProps> = ({ surface }) => {
+    const registry = surface.registry;
+    const refresh = useRefresh();
+    useEffect(() => registry.onChange(refresh), [registry]);
+
+    return (
+        <div className="control-group">
+            <label>Visualization Mode:</label>
+            <select value={registry.getActiveId() || ''} onChange={e => surface.activateMode(e.target.value)}>
+                {registry.getRegistrations().map(registration => (
+                    <option key={registration.id} value={registration.id}>{registration.label}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
+
+/**
+ * The active mode's parameters, generated from its schema: one section per group in
+ * order of first appearance, with a reset button for each changed value and each group.
+ */
+const ParameterPanel: React.FC<SectionProps> = ({ surface }) => {
+    const registry = surface.registry;
+    const refresh = useRefresh();
+    useEffect(() => {
+        const unsubscribeMode = registry.onChange(refresh);
+        const unsubscribeParameters = registry.onParameterChange(refresh);
+        const unsubscribeRoutes = surface.modulation.onChange(refresh);
+        return () => {
+            unsubscribeMode();
+            unsubscribeParameters();
+            unsubscribeRoutes();
+        };
+    }, [registry]);
+
+    const id = registry.getActiveId();
+    if (!id) return null;
+
+    const groups: { name: string, definitions: ParameterDefinition[] }[] = [];
+    registry.getParameterSchema(id).forEach(definition => {
+        if (definition.hidden) return;
+        const name = definition.group || 'Parameters';
+        let group = groups.find(g => g.name === name);
+        if (!group) {
+            group = { name, definitions: [] };
+            groups.push(group);
+        }
+        group.definitions.push(definition);
+    });
+
+    const valueOf = (definition: ParameterDefinition) => {
+        const value = registry.getParameter(id, definition.key);
+        return value !== undefined ? value : definition.default;
+    };
+    const reset = (definitions: ParameterDefinition[]) => {
+        definitions.forEach(definition => registry.setParameter(id, definition.key, definition.default));
+    };
+    const modulated = surface.modulation.getRoutes(id).filter(route => route.enabled).map(route => route.target);
+
+    return (
+        <>
+            {groups.map(group => {
+                const changed = group.definitions.filter(definition => valueOf(definition) !== definition.default);
+                return (
+                    <div className="control-group" key={`${id}:${group.name}`}>
+                        <label style={{ fontWeight: 'bold' }}>
+                            {group.name}:
+                            {changed.length > 0 && (
+                                <button style={{ float: 'right', fontSize: '11px' }} title="Reset this section to defaults" onClick={() => reset(changed)}>
+                                    Reset
+                                </button>
+                            )}
+                        </label>
+                        {group.definitions.map(definition => (
+                            <ParameterControl
+                                key={definition.key}
+                                definition={definition}
+                                value={valueOf(definition)}
+                                modulated={modulated.indexOf(definition.key) !== -1}
+                                onChange={value => registry.setParameter(id, definition.key, value)}
+                                onReset={() => reset([definition])}
+                            />
+                        ))}
+                    </div>
+                );
+            })}
+        </>
+    );
+};
+
+/**
+ * Modulation routes of the active mode, with a live meter per route and a picker to add more.
+ */
+const ModulationSection: React.FC<SectionProps> = ({ surface }) => {
+    const { registry, modulation } = surface;
+    const refresh = useRefresh();
+    useEffect(() => {
+        const unsubscribeMode = registry.onChange(refresh);
+        const unsubscribeRoutes = modulation.onChange(refresh);
+        return () => {
+            unsubscribeMode();
+            unsubscribeRoutes();
+        };
+    }, [registry, modulation]);
+
+    const id = registry.getActiveId();
+    const routes = id ? modulation.getRoutes(id) : [];
+    // Meters only need redrawing while something is routed
+    usePolling(routes.length > 0 ? 100 : 1000);
+    if (!id) return null;
+
+    const schema = registry.getParameterSchema(id);
+    const available = schema.filter(definition =>
+        !definition.hidden && isModulatable(definition) && !routes.some(route => route.target === definition.key));
+
+    return (
+        <div className="control-group">
+            <label style={{ fontWeight: 'bold' }}>Modulation:</label>
+            {routes.map(route => {
+                const definition = schema.find(d => d.key === route.target);
+                if (!definition) return null;
+                return (
+                    <RouteEditor
+                        key={route.target}
+                        definition={definition}
+                        route={route}
+                        level={modulation.getOutput(id, route.target)}
+                        onChange={changed => modulation.setRoute(id, changed)}
+                        onRemove={() => modulation.removeRoute(id, route.target)}
+                    />
+                );
+            })}
+            <select
+                value=""
+                onChange={e => {
+                    const definition = schema.find(d => d.key === e.target.value);
+                    if (definition) modulation.setRoute(id, createRoute(definition));
+                }}
+            >
+                <option value="">Add modulation…</option>
+                {available.map(definition => (
+                    <option key={definition.key} value={definition.key}>{definition.group ? `${definition.group}: ` : ''}{definition.label}</option>
+                ))}
+            </select>
+        </div>
+    );
+};
+
+/**
+ * Web MIDI: enabling input, MIDI-learn onto a parameter of the active mode, a mode switch
+ * or a preset, and the list of learned mappings.
+ */
+const MidiSection: React.FC<SectionProps> = ({ surface }) => {
+    const { registry, presets, midi } = surface;
+    const [target, setTarget] = useState('');
+    const refresh = useRefresh();
+    useEffect(() => {
+        const unsubscribeMidi = midi.onChange(refresh);
+        const unsubscribeMode = registry.onChange(refresh);
+        const unsubscribePresets = presets.onChange(refresh);
+        return () => {
+            unsubscribeMidi();
+            unsubscribeMode();
+            unsubscribePresets();
+        };
+    }, [midi, registry, presets]);
+
+    const status = midi.getStatus();
+    const learning = midi.getLearning();
+    const id = registry.getActiveId();
+
+    // Learn targets, keyed by their JSON so one select can hold all three kinds
+    const targets: { label: string, action: MidiAction }[] = [];
+    if (id) {
+        registry.getParameterSchema(id)
+            .filter(definition => !definition.hidden && definition.type !== 'string')
+            .forEach(definition => targets.push({
+                label: `${definition.group ? `${definition.group}: ` : ''}${definition.label}`,
+                action: { type: 'parameter', mode: id, key: definition.key }
+            }));
+    }
+    registry.getRegistrations().forEach(registration => targets.push({
+        label: `Mode: ${registration.label}`, action: { type: 'mode', mode: registration.id }
+    }));
+    presets.list().forEach(preset => targets.push({
+        label: `Preset: ${preset.name}`, action: { type: 'preset', name: preset.name }
+    }));
+    const selected = targets.some(t => JSON.stringify(t.action) === target) ? target : JSON.stringify(targets[0].action);
+
+    return (
+        <div className="control-group">
+            <label style={{ fontWeight: 'bold' }}>MIDI:</label>
+            <span style={NOTE_STYLE}>
+                {MIDI_STATUS_LABELS[status]}
+                {status === 'connected' && ` (${midi.getInputNames().join(', ') || 'no inputs'})`}
+            </span>
+            {(status === 'idle' || status === 'denied') && <button onClick={() => midi.enable()}>Enable MIDI</button>}
+            {status === 'connected' && <button onClick={() => midi.disable()}>Disable MIDI</button>}
+            <label>
+                <input
+                    type="checkbox"
+                    style={{ width: 'auto' }}
+                    checked={midi.getSoftTakeover()}
+                    onChange={e => midi.setSoftTakeover(e.target.checked)}
+                /> Soft takeover
+            </label>
+            {status === 'connected' && (learning ? (
+                <div>
+                    <span style={NOTE_STYLE}>Move a control for {describeAction(learning)}…</span>
+                    <button onClick={() => midi.cancelLearn()}>Cancel</button>
+                </div>
+            ) : (
+                <div>
+                    <select value={selected} onChange={e => setTarget(e.target.value)}>
+                        {targets.map(t => {
+                            const key = JSON.stringify(t.action);
+                            return <option key={key} value={key}>{t.label}</option>;
+                        })}
+                    </select>
+                    <button style={{ marginTop: '4px' }} onClick={() => midi.learn(JSON.parse(selected) as MidiAction)}>MIDI Learn</button>
+                </div>
+            ))}
+            {midi.getMappings().map(mapping => (
+                <div key={describeControl(mapping)} style={{ fontSize: '12px' }}>
+                    {describeControl(mapping)} → {describeAction(mapping.action)}
+                    <button
+                        style={{ marginLeft: '6px', padding: '0 4px', fontSize: '11px' }}
+                        title="Remove mapping"
+                        onClick={() => midi.removeMapping(mapping)}
+                    >✕</button>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+interface RouteEditorProps {
+    definition: ParameterDefinition;
+    route: ModulationRoute;
+    /** Current shaped level (0-1) */
+    level: number;
+    onChange: (route: ModulationRoute) => void;
+    onRemove: () => void;
+}
+
+const RouteEditor: React.FC<RouteEditorProps> = ({ definition, route, level, onChange, onRemove }) => {
+    const [low, high] = getModulationRange(definition);
+    const step = definition.type === 'number' && definition.step !== undefined ? definition.step : (high - low) / 100;
+    const update = (change: Partial<ModulationRoute>) => onChange({ ...route, ...change });
+    const boxStyle: React.CSSProperties = {
+        border: '1px solid rgba(255,255,255,0.2)', borderRadius: '5px', padding: '6px', marginBottom: '8px'
+    };
+
+    return (
+        <div style={boxStyle}>
+            <label>
+                <input type="checkbox" style={{ width: 'auto' }} checked={route.enabled} onChange={e => update({ enabled: e.target.checked })} />
+                {` ${definition.label}`}
+                <button style={{ float: 'right', padding: '0 4px', fontSize: '11px' }} title="Remove route" onClick={onRemove}>✕</button>
+            </label>
+            <div style={{ height: '4px', background: 'rgba(255,255,255,0.15)', marginBottom: '6px' }}>
+                <div style={{ height: '100%', width: `${Math.round(level * 100)}%`, background: '#00aaff' }} />
             </div>
+            <select value={route.source} onChange={e => update({ source: e.target.value as ModulationSource })}>
+                {MODULATION_SOURCES.map(source => <option key={source} value={source}>{MODULATION_SOURCE_LABELS[source]}</option>)}
+            </select>
+            {route.source === 'lfo' && (
+                <>
+                    <select style={{ marginTop: '4px' }} value={route.lfoShape} onChange={e => update({ lfoShape: e.target.value as LfoShape })}>
+                        {LFO_SHAPES.map(shape => <option key={shape} value={shape}>Shape: {shape}</option>)}
+                    </select>
+                    <label>LFO Rate: {route.lfoRate.toFixed(2)} Hz</label>
+                    <input
+                        type="range" min={-2} max={1} step={0.01}
+                        value={Math.log10(Math.max(0.01, route.lfoRate))}
+                        onChange={e => update({ lfoRate: Math.pow(10, parseFloat(e.target.value)) })}
+                    />
+                </>
+            )}
+            <label>From: {formatRouteValue(definition, route.min)}</label>
+            <input type="range" min={low} max={high} step={step} value={route.min} onChange={e => update({ min: parseFloat(e.target.value) })} />
+            <label>To: {formatRouteValue(definition, route.max)}</label>
+            <input type="range" min={low} max={high} step={step} value={route.max} onChange={e => update({ max: parseFloat(e.target.value) })} />
+            <select value={route.curve} onChange={e => update({ curve: e.target.value as ModulationCurve })}>
+                {MODULATION_CURVES.map(curve => <option key={curve} value={curve}>Curve: {curve}</option>)}
+            </select>
+            <label>Smoothing: {Math.round(route.smoothing * 1000)} ms</label>
+            <input type="range" min={0} max={2} step={0.01} value={route.smoothing} onChange={e => update({ smoothing: parseFloat(e.target.value) })} />
+            <label>
+                <input type="checkbox" style={{ width: 'auto' }} checked={route.invert} onChange={e => update({ invert: e.target.checked })} /> Invert
+            </label>
         </div>
     );
-}; 
\ No newline at end of file
+};
+
+/**
+ * A route endpoint in the parameter's terms: a number, on/off, or the select option it lands on.
+ */
+function formatRouteValue(definition: ParameterDefinition, value: number): string {
+    if (definition.type === 'boolean') return value >= 0.5 ? 'on' : 'off';
+    if (definition.type === 'select') {
+        const options = definition.options || [];
+        const option = options[Math.min(options.length - 1, Math.max(0, Math.floor(value * options.length)))];
+        return option ? option.label : '-';
+    }
+    const step = definition.step !== undefined ? definition.step : 0.01;
+    const decimals = step >= 1 ? 0 : Math.min(4, Math.ceil(-Math.log10(step)));
+    return `${value.toFixed(decimals)}${definition.unit || ''}`;
+}
+
+interface ParameterControlProps {
+    definition: ParameterDefinition;
+    value: ParameterValue;
+    /** Driven by a modulation route; the control then edits the value it returns to */
+    modulated?: boolean;
+    onChange: (value: ParameterValue) => void;
+    onReset: () => void;
+}
+
+/**
+ * The control matching a parameter definition: checkbox, select, text field or slider.
+ */
+const ParameterControl: React.FC<ParameterControlProps> = ({ definition, value, modulated, onChange, onReset }) => {
+    const resetButton = (
+        <>
+            {modulated && <span style={{ marginLeft: '6px', color: '#00aaff' }} title="Modulated">∿</span>}
+            {value !== definition.default && (
+                <button
+                    style={{ marginLeft: '6px', padding: '0 4px', fontSize: '11px' }}
+                    title={`Reset to ${String(definition.default)}`}
+                    onClick={onReset}
+                >↺</button>
+            )}
+        </>
+    );
+
+    if (definition.type === 'boolean') {
+        return (
+            <label>
+                <input type="checkbox" style={{ width: 'auto' }} checked={Boolean(value)} onChange={e => onChange(e.target.checked)} />
+                {` ${definition.label}`}{resetButton}
+            </label>
+        );
+    }
+
+    if (definition.type === 'select') {
+        return (
+            <>
+                <label>{definition.label}:{resetButton}</label>
+                <select value={String(value)} onChange={e => onChange(e.target.value)}>
+                    {(definition.options || []).map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+                </select>
+            </>
+        );
+    }
+
+    if (definition.type === 'string') {
+        return <StringControl definition={definition} value={value} onChange={onChange} resetButton={resetButton} />;
+    }
+
+    const min = definition.min !== undefined ? definition.min : 0;
+    const max = definition.max !== undefined ? definition.max : 1;
+    const unit = definition.unit || '';
+    const current = Number(value);
+
+    if (definition.scale === 'log') {
+        // Slider position is log10 of the value
+        return (
+            <>
+                <label>{definition.label}:{resetButton}</label>
+                <input
+                    type="range" min={Math.log10(min)} max={Math.log10(max)} step={0.01}
+                    value={Math.log10(current)}
+                    onChange={e => onChange(Math.pow(10, parseFloat(e.target.value)))}
+                />
+                <span style={{ marginLeft: '8px' }}>{current.toExponential(1)}{unit}</span>
+            </>
+        );
+    }
+
+    const step = definition.step !== undefined ? definition.step : (max - min) / 100;
+    const decimals = step >= 1 ? 0 : Math.min(4, Math.ceil(-Math.log10(step)));
+    return (
+        <>
+            <label>{definition.label}:{resetButton}</label>
+            <input type="range" min={min} max={max} step={step} value={current} onChange={e => onChange(parseFloat(e.target.value))} />
+            <span style={{ marginLeft: '8px' }}>{current.toFixed(decimals)}{unit}</span>
+        </>
+    );
+};
+
+/**
+ * Text field that commits on blur or Enter rather than on every keystroke.
+ */
+const StringControl: React.FC<{
+    definition: ParameterDefinition;
+    value: ParameterValue;
+    onChange: (value: ParameterValue) => void;
+    resetButton: React.ReactNode;
+}> = ({ definition, value, onChange, resetButton }) => {
+    const [draft, setDraft] = useState(String(value));
+    useEffect(() => setDraft(String(value)), [value]);
+    const commit = () => {
+        if (draft !== String(value)) onChange(draft);
+    };
+    return (
+        <>
+            <label>{definition.label}:{resetButton}</label>
+            <input
+                type="text"
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                onBlur={commit}
+                onKeyDown={e => { if (e.key === 'Enter') commit(); }}
+            />
+        </>
+    );
+};
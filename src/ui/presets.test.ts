@@ -0,0 +1,34 @@
+import { PRESET_VERSION, PresetSchema, validatePreset } from './presets';
+
+const schema: PresetSchema = {
+    modes: {
+        particles: [
+            { key: 'particleCount', label: 'Particles', type: 'number', default: 500, min: 10, max: 5000, step: 10 }
+        ]
+    }
+};
+
+function presetWithPadding(zeroPadding: unknown) {
+    return {
+        version: PRESET_VERSION,
+        name: 'Padded',
+        mode: 'particles',
+        parameters: {},
+        modulation: {},
+        analysis: { engine: 'fft', windowFunction: 'hann', zeroPadding }
+    };
+}
+
+describe('validatePreset', () => {
+    it('accepts power-of-two zero-padding factors', () => {
+        [1, 2, 4, 8, 16].forEach(factor => {
+            expect(validatePreset(presetWithPadding(factor), schema).preset.analysis.zeroPadding).toBe(factor);
+        });
+    });
+
+    it('rejects fractional and non-power-of-two zero-padding', () => {
+        [1.5, 2.5, 3, 32, 0, '2'].forEach(factor => {
+            expect(() => validatePreset(presetWithPadding(factor), schema)).toThrow(/zeroPadding/);
+        });
+    });
+});
@@ -1,41 +1,657 @@
+import { AudioAnalyser, SPECTRUM_ENGINES, SpectrumEngine } from '../audio/analyser';
+import { WINDOW_FUNCTIONS, WindowFunction } from '../audio/fft';
+import { BAND_AGGREGATIONS, BAND_LAYOUTS, DEFAULT_BAND_OPTIONS, FrequencyBandOptions } from '../audio/frequencyBands';
+import { ModulationMatrix, ModulationRoute, validateRoute } from '../modulation';
+import { ParameterDefinition, ParameterValue } from '../visualizer';
+import { VisualizerRegistry } from '../visualizerRegistry';
+
+/**
+ * Presets capture the whole look of the app: the active mode, every parameter of every
+ * mode, the modulation routes and the shared analysis settings.
+ *
+ * Presets are versioned. Anything read from storage or from a file goes through
+ * migratePreset() (older versions are upgraded one step at a time) and then
+ * validatePreset(), which checks every value against the registered parameter schemas.
+ * Wrong types and unknown options are errors; unknown modes or parameters (e.g. from a
+ * newer build) and out-of-range numbers only produce warnings and are dropped or clamped.
+ */
+export const PRESET_VERSION = 3;
+
+/** Marker of an exported preset file */
+export const PRESET_FILE_FORMAT = 'audio-visualizer-presets';
+
+export interface AnalysisSettings {
+    engine: SpectrumEngine;
+    windowFunction: WindowFunction;
+    zeroPadding: number;
+    /** Shared band settings; the band count stays with each mode */
+    bands: Partial<FrequencyBandOptions>;
+}
+
 export interface Preset {
+    version: number;
     name: string;
-    simulationSpeed: number;
-    particleCount: number;
-    visualizationMode: '2D' | '3D';
+    /** Id of the active visualization mode */
+    mode: string;
+    /** Parameter values by mode id; missing keys mean the parameter's default */
+    parameters: { [visualizerId: string]: { [key: string]: ParameterValue } };
+    /** Modulation routes by mode id */
+    modulation: { [visualizerId: string]: ModulationRoute[] };
+    analysis: AnalysisSettings;
+}
+
+export interface PresetValidation {
+    preset: Preset;
+    warnings: string[];
 }
 
-export const defaultPresets: Preset[] = [
+/** Parameter schemas by mode id, to validate presets against */
+export interface PresetSchema {
+    modes: { [visualizerId: string]: ParameterDefinition[] };
+}
+
+type RawPreset = { [key: string]: unknown };
+
+// Band settings shared by all modes: everything but the band count, which each mode sets itself
+const { bandCount: defaultBandCount, ...DEFAULT_SHARED_BANDS } = DEFAULT_BAND_OPTIONS;
+
+// Zero-padding factors the analyser accepts
+const ZERO_PADDING_FACTORS = [1, 2, 4, 8, 16];
+
+export const DEFAULT_ANALYSIS: AnalysisSettings = {
+    engine: 'native',
+    windowFunction: 'hann',
+    zeroPadding: 1,
+    bands: DEFAULT_SHARED_BANDS
+};
+
+/** Shipped with the app; they can be applied but not renamed, deleted or overwritten */
+export const BUILT_IN_PRESETS: Preset[] = [
     {
+        version: PRESET_VERSION,
         name: 'Default',
-        simulationSpeed: 1.0,
-        particleCount: 1000,
-        visualizationMode: '2D'
+        mode: 'particles',
+        parameters: {},
+        modulation: {},
+        analysis: DEFAULT_ANALYSIS
     },
     {
+        version: PRESET_VERSION,
         name: 'High Performance',
-        simulationSpeed: 0.5,
-        particleCount: 500,
-        visualizationMode: '2D'
+        mode: 'particles',
+        parameters: { particles: { particleCount: 500, showConnections: false } },
+        modulation: {},
+        analysis: DEFAULT_ANALYSIS
     },
     {
+        version: PRESET_VERSION,
         name: 'Visual Quality',
-        simulationSpeed: 1.0,
-        particleCount: 5000,
-        visualizationMode: '3D'
+        mode: '3d',
+        parameters: { particles: { particleCount: 5000 } },
+        modulation: {
+            '3d': [{
+                target: 'bloomAmount', source: 'bass', min: 0.6, max: 2.4, curve: 's-curve',
+                smoothing: 0.15, invert: false, enabled: true, lfoRate: 0.25, lfoShape: 'sine'
+            }]
+        },
+        analysis: { ...DEFAULT_ANALYSIS, engine: 'fft', windowFunction: 'blackman-harris', zeroPadding: 2 }
     }
 ];
 
-export const savePreset = (preset: Preset): void => {
-    const presets = loadPresets();
-    presets.push(preset);
-    localStorage.setItem('visualizer-presets', JSON.stringify(presets));
+/**
+ * Upgrades from each version to the next. Version 1 is the original unversioned shape:
+ * { name, simulationSpeed, particleCount, visualizationMode: '2D' | '3D', parameters? }.
+ */
+const MIGRATIONS: { [fromVersion: number]: (preset: RawPreset, warnings: string[]) => RawPreset } = {
+    1: (preset, warnings) => {
+        const parameters = isObject(preset.parameters) ? { ...preset.parameters } as RawPreset : {};
+        if (typeof preset.particleCount === 'number') {
+            const particles = isObject(parameters.particles) ? parameters.particles : {};
+            parameters.particles = { particleCount: preset.particleCount, ...particles };
+        }
+        if (preset.simulationSpeed !== undefined && preset.simulationSpeed !== 1) {
+            warnings.push('simulationSpeed has no equivalent any more and was dropped');
+        }
+        return {
+            version: 2,
+            name: preset.name,
+            mode: preset.visualizationMode === '3D' ? '3d' : 'particles',
+            parameters,
+            analysis: DEFAULT_ANALYSIS
+        };
+    },
+    // Version 3 added modulation routes
+    2: preset => ({ ...preset, version: 3, modulation: {} })
 };
 
-export const loadPresets = (): Preset[] => {
-    const saved = localStorage.getItem('visualizer-presets');
-    if (saved) {
-        return JSON.parse(saved);
+/**
+ * Bring a parsed preset of any known version up to PRESET_VERSION. Throws for presets
+ * from a newer version or without a usable version.
+ */
+export function migratePreset(raw: unknown, warnings: string[] = []): RawPreset {
+    if (!isObject(raw)) {
+        throw new Error(`Preset must be an object, got ${describe(raw)}`);
+    }
+    let preset = raw;
+    let version = preset.version === undefined ? 1 : preset.version;
+    const label = typeof preset.name === 'string' ? `Preset "${preset.name}"` : 'Preset';
+    if (typeof version !== 'number' || Math.floor(version) !== version || version < 1) {
+        throw new Error(`${label}: version must be a positive integer, got ${describe(version)}`);
+    }
+    if (version > PRESET_VERSION) {
+        throw new Error(`${label} was saved by a newer version (${version}, this build reads up to ${PRESET_VERSION})`);
+    }
+    while (version < PRESET_VERSION) {
+        preset = MIGRATIONS[version](preset, warnings);
+        version++;
+    }
+    return preset;
+}
+
+/**
+ * Migrate and check a parsed preset. Throws one error listing every problem found;
+ * recoverable issues are fixed and reported as warnings instead.
+ */
+export function validatePreset(raw: unknown, schema: PresetSchema): PresetValidation {
+    const warnings: string[] = [];
+    const migrated = migratePreset(raw, warnings);
+    const errors: string[] = [];
+
+    const name = typeof migrated.name === 'string' ? migrated.name.trim() : '';
+    if (!name) errors.push(`name must be a non-empty string, got ${describe(migrated.name)}`);
+
+    let mode = typeof migrated.mode === 'string' ? migrated.mode : '';
+    if (!schema.modes[mode]) {
+        if (typeof migrated.mode !== 'string') {
+            errors.push(`mode must be a string, got ${describe(migrated.mode)}`);
+        } else {
+            warnings.push(`mode "${mode}" is not available, using "${BUILT_IN_PRESETS[0].mode}"`);
+        }
+        mode = BUILT_IN_PRESETS[0].mode;
+    }
+
+    const parameters: Preset['parameters'] = {};
+    if (!isObject(migrated.parameters)) {
+        errors.push(`parameters must be an object, got ${describe(migrated.parameters)}`);
+    } else {
+        const modes = migrated.parameters;
+        Object.keys(modes).forEach(id => {
+            const definitions = schema.modes[id];
+            if (!definitions) {
+                warnings.push(`parameters.${id}: unknown mode, ignored`);
+                return;
+            }
+            const values = modes[id];
+            if (!isObject(values)) {
+                errors.push(`parameters.${id} must be an object, got ${describe(values)}`);
+                return;
+            }
+            parameters[id] = {};
+            Object.keys(values).forEach(key => {
+                const definition = definitions.find(d => d.key === key);
+                if (!definition) {
+                    warnings.push(`parameters.${id}.${key}: unknown parameter, ignored`);
+                    return;
+                }
+                const value = checkParameter(`parameters.${id}.${key}`, definition, values[key], errors, warnings);
+                if (value !== undefined) parameters[id][key] = value;
+            });
+        });
     }
-    return defaultPresets;
-}; 
\ No newline at end of file
+
+    const modulation = checkModulation(migrated.modulation, schema, errors, warnings);
+    const analysis = checkAnalysis(migrated.analysis, errors, warnings);
+
+    if (errors.length > 0) {
+        const label = name ? `Preset "${name}"` : 'Preset';
+        throw new Error(`${label} is invalid:\n- ${errors.join('\n- ')}`);
+    }
+    return {
+        preset: { version: PRESET_VERSION, name, mode, parameters, modulation, analysis },
+        warnings
+    };
+}
+
+function checkParameter(path: string, definition: ParameterDefinition, value: unknown,
+                        errors: string[], warnings: string[]): ParameterValue | undefined {
+    switch (definition.type) {
+        case 'number': {
+            if (typeof value !== 'number' || !isFinite(value)) {
+                errors.push(`${path} must be a number, got ${describe(value)}`);
+                return undefined;
+            }
+            const min = definition.min !== undefined ? definition.min : -Infinity;
+            const max = definition.max !== undefined ? definition.max : Infinity;
+            if (value < min || value > max) {
+                warnings.push(`${path}: ${value} is outside ${min}-${max}, clamped`);
+                return Math.max(min, Math.min(max, value));
+            }
+            return value;
+        }
+        case 'boolean':
+            if (typeof value !== 'boolean') {
+                errors.push(`${path} must be true or false, got ${describe(value)}`);
+                return undefined;
+            }
+            return value;
+        case 'select': {
+            const options = (definition.options || []).map(option => option.value);
+            if (typeof value !== 'string' || options.indexOf(value) === -1) {
+                errors.push(`${path} must be one of ${options.join(', ')}, got ${describe(value)}`);
+                return undefined;
+            }
+            return value;
+        }
+        case 'string':
+            if (typeof value !== 'string') {
+                errors.push(`${path} must be a string, got ${describe(value)}`);
+                return undefined;
+            }
+            return value;
+    }
+    return undefined;
+}
+
+function checkModulation(raw: unknown, schema: PresetSchema, errors: string[], warnings: string[]): Preset['modulation'] {
+    const modulation: Preset['modulation'] = {};
+    if (!isObject(raw)) {
+        errors.push(`modulation must be an object, got ${describe(raw)}`);
+        return modulation;
+    }
+    Object.keys(raw).forEach(id => {
+        const definitions = schema.modes[id];
+        const routes = raw[id];
+        if (!definitions) {
+            warnings.push(`modulation.${id}: unknown mode, ignored`);
+            return;
+        }
+        if (!Array.isArray(routes)) {
+            errors.push(`modulation.${id} must be a list, got ${describe(routes)}`);
+            return;
+        }
+        const valid: ModulationRoute[] = [];
+        routes.forEach((entry, i) => {
+            const route = validateRoute(entry, definitions, `modulation.${id}[${i}]`, errors, warnings);
+            if (!route) return;
+            // One route per parameter; the last one wins
+            const index = valid.findIndex(r => r.target === route.target);
+            if (index !== -1) {
+                warnings.push(`modulation.${id}[${i}]: ${route.target} is already modulated, replacing the earlier route`);
+                valid.splice(index, 1);
+            }
+            valid.push(route);
+        });
+        if (valid.length > 0) modulation[id] = valid;
+    });
+    return modulation;
+}
+
+function checkAnalysis(raw: unknown, errors: string[], warnings: string[]): AnalysisSettings {
+    if (raw === undefined) {
+        warnings.push('analysis settings missing, using defaults');
+        return DEFAULT_ANALYSIS;
+    }
+    if (!isObject(raw)) {
+        errors.push(`analysis must be an object, got ${describe(raw)}`);
+        return DEFAULT_ANALYSIS;
+    }
+
+    const oneOf = <T extends string>(path: string, value: unknown, allowed: T[], fallback: T): T => {
+        if (value === undefined) return fallback;
+        if (typeof value !== 'string' || allowed.indexOf(value as T) === -1) {
+            errors.push(`${path} must be one of ${allowed.join(', ')}, got ${describe(value)}`);
+            return fallback;
+        }
+        return value as T;
+    };
+
+    const settings: AnalysisSettings = {
+        engine: oneOf('analysis.engine', raw.engine, SPECTRUM_ENGINES, DEFAULT_ANALYSIS.engine),
+        windowFunction: oneOf('analysis.windowFunction', raw.windowFunction, WINDOW_FUNCTIONS, DEFAULT_ANALYSIS.windowFunction),
+        zeroPadding: DEFAULT_ANALYSIS.zeroPadding,
+        bands: { ...DEFAULT_SHARED_BANDS }
+    };
+
+    if (raw.zeroPadding !== undefined) {
+        const padding = raw.zeroPadding;
+        // Whole powers of two only: anything else makes the FFT throw on every frame
+        if (typeof padding !== 'number' || ZERO_PADDING_FACTORS.indexOf(padding) === -1) {
+            errors.push(`analysis.zeroPadding must be 1, 2, 4, 8 or 16, got ${describe(padding)}`);
+        } else {
+            settings.zeroPadding = padding;
+        }
+    }
+
+    if (raw.bands !== undefined) {
+        if (!isObject(raw.bands)) {
+            errors.push(`analysis.bands must be an object, got ${describe(raw.bands)}`);
+            return settings;
+        }
+        const bands = raw.bands;
+        const target = settings.bands;
+        Object.keys(bands).forEach(key => {
+            const path = `analysis.bands.${key}`;
+            const value = bands[key];
+            switch (key) {
+                case 'layout': target.layout = oneOf(path, value, BAND_LAYOUTS, DEFAULT_SHARED_BANDS.layout); break;
+                case 'aggregation': target.aggregation = oneOf(path, value, BAND_AGGREGATIONS, DEFAULT_SHARED_BANDS.aggregation); break;
+                case 'autoGain':
+                    if (typeof value !== 'boolean') errors.push(`${path} must be true or false, got ${describe(value)}`);
+                    else target.autoGain = value;
+                    break;
+                case 'minFrequency':
+                case 'maxFrequency':
+                case 'attack':
+                case 'release':
+                case 'autoGainRelease':
+                    if (typeof value !== 'number' || !isFinite(value) || value < 0) {
+                        errors.push(`${path} must be a non-negative number, got ${describe(value)}`);
+                    } else {
+                        target[key] = value;
+                    }
+                    break;
+                default:
+                    warnings.push(`${path}: unknown band setting, ignored`);
+            }
+        });
+    }
+    return settings;
+}
+
+/**
+ * Snapshot of the current state as a preset.
+ */
+export function capturePreset(name: string, registry: VisualizerRegistry, analyser: AudioAnalyser,
+                              modulation: ModulationMatrix): Preset {
+    const parameters: Preset['parameters'] = {};
+    registry.getRegistrations().forEach(registration => {
+        const values: { [key: string]: ParameterValue } = {};
+        registration.parameters.forEach(definition => {
+            const value = registry.getParameter(registration.id, definition.key);
+            if (value !== undefined) values[definition.key] = value;
+        });
+        parameters[registration.id] = values;
+    });
+
+    const { bandCount: activeBandCount, ...bands } = registry.getBandOptions();
+    return {
+        version: PRESET_VERSION,
+        name,
+        mode: registry.getActiveId() || BUILT_IN_PRESETS[0].mode,
+        parameters,
+        modulation: modulation.getAllRoutes(),
+        analysis: {
+            engine: analyser.getEngine(),
+            windowFunction: analyser.getWindowFunction(),
+            zeroPadding: analyser.getZeroPadding(),
+            bands: { ...DEFAULT_SHARED_BANDS, ...bands }
+        }
+    };
+}
+
+/**
+ * Restore a validated preset: every parameter of every mode (defaults where the preset
+ * has no value), the modulation routes, the analysis settings, and finally the preset's mode.
+ */
+export function applyPreset(preset: Preset, registry: VisualizerRegistry, analyser: AudioAnalyser,
+                            modulation: ModulationMatrix, container: HTMLElement) {
+    analyser.setEngine(preset.analysis.engine);
+    analyser.setWindowFunction(preset.analysis.windowFunction);
+    analyser.setZeroPadding(preset.analysis.zeroPadding);
+    registry.setBandOptions({ ...DEFAULT_SHARED_BANDS, ...preset.analysis.bands });
+
+    // Routes first, so parameters they release return to the preset's values below
+    modulation.setAllRoutes(preset.modulation);
+    registry.getRegistrations().forEach(registration => {
+        const values = preset.parameters[registration.id] || {};
+        registration.parameters.forEach(definition => {
+            const value = values[definition.key];
+            registry.setParameter(registration.id, definition.key, value !== undefined ? value : definition.default);
+        });
+    });
+
+    if (registry.has(preset.mode)) {
+        registry.activate(preset.mode, container);
+    }
+}
+
+/**
+ * User presets in localStorage, alongside the read-only built-ins. Names are unique
+ * across both; lookups are case-sensitive.
+ */
+export class PresetStore {
+    private schema: PresetSchema;
+    private presets: Preset[] = [];
+    private listeners: (() => void)[] = [];
+    private readonly STORAGE_KEY = 'visualizer-presets';
+
+    constructor(schema: PresetSchema) {
+        this.schema = schema;
+        this.presets = this.readStorage();
+    }
+
+    /**
+     * Built-ins first, then user presets in the order they were saved.
+     */
+    list(): Preset[] {
+        return BUILT_IN_PRESETS.concat(this.presets);
+    }
+
+    get(name: string): Preset | undefined {
+        return this.list().find(preset => preset.name === name);
+    }
+
+    isBuiltIn(name: string): boolean {
+        return BUILT_IN_PRESETS.some(preset => preset.name === name);
+    }
+
+    /**
+     * Subscribe to any change in the list. Returns a function that removes the listener.
+     */
+    onChange(listener: () => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    /**
+     * Store a preset under its name. An existing user preset of that name is only
+     * replaced when `overwrite` is set.
+     */
+    save(preset: Preset, overwrite: boolean = false) {
+        const { preset: valid } = validatePreset(preset, this.schema);
+        this.assertWritable(valid.name);
+        const index = this.indexOf(valid.name);
+        if (index !== -1) {
+            if (!overwrite) {
+                throw new Error(`A preset named "${valid.name}" already exists`);
+            }
+            this.presets[index] = valid;
+        } else {
+            this.presets.push(valid);
+        }
+        this.commit();
+    }
+
+    rename(name: string, newName: string) {
+        const trimmed = newName.trim();
+        const index = this.indexOf(name);
+        if (index === -1) {
+            throw new Error(this.isBuiltIn(name) ? `Built-in preset "${name}" cannot be renamed` : `No preset named "${name}"`);
+        }
+        if (!trimmed) {
+            throw new Error('Preset name must not be empty');
+        }
+        if (trimmed !== name && this.get(trimmed)) {
+            throw new Error(`A preset named "${trimmed}" already exists`);
+        }
+        this.presets[index] = { ...this.presets[index], name: trimmed };
+        this.commit();
+    }
+
+    delete(name: string) {
+        const index = this.indexOf(name);
+        if (index === -1) {
+            throw new Error(this.isBuiltIn(name) ? `Built-in preset "${name}" cannot be deleted` : `No preset named "${name}"`);
+        }
+        this.presets.splice(index, 1);
+        this.commit();
+    }
+
+    /**
+     * JSON file contents for the named presets (all user presets by default).
+     */
+    export(names?: string[]): string {
+        const presets = names ? this.list().filter(preset => names.indexOf(preset.name) !== -1) : this.presets;
+        return JSON.stringify({ format: PRESET_FILE_FORMAT, version: PRESET_VERSION, presets }, null, 2);
+    }
+
+    /**
+     * Add the presets in an exported file (also accepts a bare preset or array of presets).
+     * Invalid presets are skipped and reported; nothing is stored if none are valid.
+     * Presets whose names are taken are renamed unless `overwrite` is set.
+     */
+    import(json: string, overwrite: boolean = false): { imported: string[], warnings: string[], errors: string[] } {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(json);
+        } catch (error) {
+            throw new Error(`Not a valid JSON file: ${(error as Error).message}`);
+        }
+
+        let entries: unknown[];
+        if (Array.isArray(parsed)) {
+            entries = parsed;
+        } else if (isObject(parsed) && parsed.format === PRESET_FILE_FORMAT) {
+            if (!Array.isArray(parsed.presets)) {
+                throw new Error('Preset file has no "presets" list');
+            }
+            entries = parsed.presets;
+        } else {
+            entries = [parsed];
+        }
+
+        const imported: string[] = [];
+        const warnings: string[] = [];
+        const errors: string[] = [];
+        entries.forEach((entry, i) => {
+            try {
+                const result = validatePreset(entry, this.schema);
+                const preset = result.preset;
+                result.warnings.forEach(warning => warnings.push(`Preset "${preset.name}": ${warning}`));
+
+                const taken = this.get(preset.name);
+                if (taken && (!overwrite || this.isBuiltIn(preset.name))) {
+                    preset.name = this.uniqueName(preset.name);
+                }
+                const index = this.indexOf(preset.name);
+                if (index !== -1) {
+                    this.presets[index] = preset;
+                } else {
+                    this.presets.push(preset);
+                }
+                imported.push(preset.name);
+            } catch (error) {
+                errors.push(`Entry ${i + 1}: ${(error as Error).message}`);
+            }
+        });
+
+        if (imported.length > 0) {
+            this.commit();
+        }
+        return { imported, warnings, errors };
+    }
+
+    /**
+     * `name`, or `name (2)`, `name (3)`... whichever is free.
+     */
+    uniqueName(name: string): string {
+        if (!this.get(name)) return name;
+        let n = 2;
+        while (this.get(`${name} (${n})`)) n++;
+        return `${name} (${n})`;
+    }
+
+    private indexOf(name: string): number {
+        for (let i = 0; i < this.presets.length; i++) {
+            if (this.presets[i].name === name) return i;
+        }
+        return -1;
+    }
+
+    private assertWritable(name: string) {
+        if (this.isBuiltIn(name)) {
+            throw new Error(`Built-in preset "${name}" cannot be overwritten`);
+        }
+    }
+
+    /**
+     * Load, migrate and validate stored presets. Broken entries are logged and skipped
+     * rather than taking the rest down with them.
+     */
+    private readStorage(): Preset[] {
+        const saved = localStorage.getItem(this.STORAGE_KEY);
+        if (!saved) return [];
+
+        let entries: unknown;
+        try {
+            entries = JSON.parse(saved);
+        } catch (error) {
+            console.error('Stored presets are not valid JSON and were ignored:', error);
+            return [];
+        }
+        if (!Array.isArray(entries)) {
+            console.error('Stored presets are not a list and were ignored');
+            return [];
+        }
+
+        const presets: Preset[] = [];
+        entries.forEach(entry => {
+            try {
+                const { preset, warnings } = validatePreset(entry, this.schema);
+                warnings.forEach(warning => console.warn(`Preset "${preset.name}": ${warning}`));
+                // Legacy storage held copies of the built-ins
+                if (this.isBuiltIn(preset.name) || presets.some(p => p.name === preset.name)) return;
+                presets.push(preset);
+            } catch (error) {
+                console.error('Skipping stored preset:', (error as Error).message);
+            }
+        });
+        return presets;
+    }
+
+    private commit() {
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.presets));
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+/**
+ * Offer JSON text as a file download.
+ */
+export function downloadJSON(json: string, fileName: string) {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
+
+function isObject(value: unknown): value is RawPreset {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Short rendering of an unexpected value for error messages.
+ */
+function describe(value: unknown): string {
+    if (value === undefined) return 'nothing';
+    if (typeof value === 'string') return `"${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+    if (Array.isArray(value)) return 'a list';
+    if (typeof value === 'object' && value !== null) return 'an object';
+    return String(value);
+}
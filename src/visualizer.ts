@@ -0,0 +1,69 @@
+import { AudioFrame } from './audio/audioFrame';
+import { FrequencyBandOptions } from './audio/frequencyBands';
+
+export type ParameterValue = number | boolean | string;
+
+/**
+ * Describes one tweakable visualizer parameter, enough for a UI to render a control for it.
+ */
+export interface ParameterDefinition {
+    key: string;
+    label: string;
+    type: 'number' | 'boolean' | 'select' | 'string';
+    default: ParameterValue;
+    /** Section the control is grouped under */
+    group?: string;
+    min?: number;
+    max?: number;
+    step?: number;
+    /** Slider moves in log10 space; min and max are still given in real units */
+    scale?: 'linear' | 'log';
+    unit?: string;
+    options?: { value: string, label: string }[];
+    /** Saved and restored like any other parameter, but edited elsewhere (e.g. by dragging on the canvas) */
+    hidden?: boolean;
+}
+
+export type ParameterChangeListener = (key: string, value: ParameterValue) => void;
+
+/**
+ * Contract every visualization mode implements.
+ *
+ * Lifecycle: init() once when the mode is activated, then resize() whenever the
+ * window changes, update() + render() every frame, and dispose() when switched
+ * away. dispose() must release everything init() created (DOM, GPU resources,
+ * listeners) so inactive modes cost nothing.
+ */
+export interface Visualizer {
+    /** Create the visualizer's canvas inside the container and allocate resources */
+    init(container: HTMLElement): void;
+    resize(width: number, height: number): void;
+    /** Advance the simulation / animation with this frame's audio */
+    update(frame: AudioFrame): void;
+    render(): void;
+    dispose(): void;
+    getParameterSchema(): ParameterDefinition[];
+    getParameter(key: string): ParameterValue | undefined;
+    setParameter(key: string, value: ParameterValue): void;
+    /** Apply the shared frequency-band settings (layout, aggregation, smoothing...) */
+    setBandOptions?(options: Partial<FrequencyBandOptions>): void;
+    /**
+     * Subscribe to parameters the visualizer changes itself (e.g. through direct manipulation
+     * on the canvas). Returns a function that removes the listener.
+     */
+    onParameterChange?(listener: ParameterChangeListener): () => void;
+}
+
+/**
+ * Create a full-window canvas inside a container. Shared by the canvas-based visualizers.
+ */
+export function createVisualizerCanvas(container: HTMLElement): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    canvas.style.position = 'absolute';
+    canvas.style.top = '0';
+    canvas.style.left = '0';
+    canvas.width = container.clientWidth || window.innerWidth;
+    canvas.height = container.clientHeight || window.innerHeight;
+    container.insertBefore(canvas, container.firstChild);
+    return canvas;
+}
@@ -0,0 +1,236 @@
+import { FrequencyBandOptions } from './audio/frequencyBands';
+import { ParameterDefinition, ParameterValue, Visualizer } from './visualizer';
+
+export interface VisualizerRegistration {
+    id: string;
+    label: string;
+    /** Static parameter schema, so inactive modes can be configured without creating them */
+    parameters: ParameterDefinition[];
+    /** Called lazily the first time (and every time) the mode is activated */
+    create: () => Visualizer;
+}
+
+/**
+ * Registry of visualization modes.
+ *
+ * Only the active mode exists at any time: activating another mode disposes the
+ * current one entirely. Parameter values are remembered per mode, so switching
+ * away and back restores the user's settings, and parameters of inactive modes
+ * can still be read and written (e.g. by presets).
+ *
+ * Modulation (see ModulationMatrix) drives parameters of the active mode through
+ * modulate(): the visualizer gets the modulated value, while getParameter(), the saved
+ * values and change listeners keep seeing the user's own value.
+ */
+export class VisualizerRegistry {
+    private registrations: VisualizerRegistration[] = [];
+    private active: Visualizer | null = null;
+    private activeId: string | null = null;
+    private parameterValues: { [id: string]: { [key: string]: ParameterValue } } = {};
+    private bandOptions: Partial<FrequencyBandOptions> = {};
+    private changeListeners: ((id: string) => void)[] = [];
+    private parameterListeners: ((id: string, key: string, value: ParameterValue) => void)[] = [];
+    private bandListeners: ((options: Partial<FrequencyBandOptions>) => void)[] = [];
+    private unsubscribeActive: (() => void) | null = null;
+    // Values currently pushed by modulation into the active mode, by key
+    private modulatedValues: { [key: string]: ParameterValue } = {};
+
+    register(registration: VisualizerRegistration) {
+        if (this.has(registration.id)) {
+            throw new Error(`Visualizer "${registration.id}" is already registered`);
+        }
+        this.registrations.push(registration);
+        this.parameterValues[registration.id] = {};
+    }
+
+    has(id: string): boolean {
+        return this.registrations.some(r => r.id === id);
+    }
+
+    getRegistrations(): VisualizerRegistration[] {
+        return this.registrations.slice();
+    }
+
+    getActive(): Visualizer | null {
+        return this.active;
+    }
+
+    getActiveId(): string | null {
+        return this.activeId;
+    }
+
+    /**
+     * Subscribe to mode switches. Returns a function that removes the listener.
+     */
+    onChange(listener: (id: string) => void): () => void {
+        this.changeListeners.push(listener);
+        return () => {
+            this.changeListeners = this.changeListeners.filter(l => l !== listener);
+        };
+    }
+
+    /**
+     * Subscribe to parameter changes on any mode, whether made through setParameter()
+     * or by the active visualizer itself. Returns a function that removes the listener.
+     */
+    onParameterChange(listener: (id: string, key: string, value: ParameterValue) => void): () => void {
+        this.parameterListeners.push(listener);
+        return () => {
+            this.parameterListeners = this.parameterListeners.filter(l => l !== listener);
+        };
+    }
+
+    /**
+     * Subscribe to changes of the shared band settings. Returns a function that removes the listener.
+     */
+    onBandOptionsChange(listener: (options: Partial<FrequencyBandOptions>) => void): () => void {
+        this.bandListeners.push(listener);
+        return () => {
+            this.bandListeners = this.bandListeners.filter(l => l !== listener);
+        };
+    }
+
+    /**
+     * Dispose the current mode (if any) and create, initialize and size the requested one.
+     */
+    activate(id: string, container: HTMLElement): Visualizer {
+        const registration = this.registrations.find(r => r.id === id);
+        if (!registration) {
+            throw new Error(`Unknown visualizer "${id}"`);
+        }
+        if (this.active && this.activeId === id) {
+            return this.active;
+        }
+
+        this.disposeActive();
+
+        const visualizer = registration.create();
+        visualizer.init(container);
+        if (visualizer.setBandOptions) {
+            visualizer.setBandOptions(this.bandOptions);
+        }
+
+        // Restore values the user set last time this mode was active
+        const saved = this.parameterValues[id];
+        Object.keys(saved).forEach(key => visualizer.setParameter(key, saved[key]));
+
+        visualizer.resize(container.clientWidth || window.innerWidth, container.clientHeight || window.innerHeight);
+
+        if (visualizer.onParameterChange) {
+            this.unsubscribeActive = visualizer.onParameterChange((key, value) => {
+                this.parameterValues[id][key] = value;
+                this.parameterListeners.forEach(listener => listener(id, key, value));
+            });
+        }
+
+        this.active = visualizer;
+        this.activeId = id;
+        console.log(`Visualizer "${id}" activated`);
+        this.changeListeners.forEach(listener => listener(id));
+        return visualizer;
+    }
+
+    disposeActive() {
+        if (!this.active || !this.activeId) return;
+        const id = this.activeId;
+        // Remember current values before the instance goes away; modulated ones keep their base value
+        this.getParameterSchema(id).forEach(definition => {
+            if (this.modulatedValues[definition.key] !== undefined) return;
+            const value = this.active!.getParameter(definition.key);
+            if (value !== undefined) {
+                this.parameterValues[id][definition.key] = value;
+            }
+        });
+        if (this.unsubscribeActive) {
+            this.unsubscribeActive();
+            this.unsubscribeActive = null;
+        }
+        this.active.dispose();
+        this.modulatedValues = {};
+        this.active = null;
+        this.activeId = null;
+        console.log(`Visualizer "${id}" disposed`);
+    }
+
+    getParameterSchema(id: string): ParameterDefinition[] {
+        const registration = this.registrations.find(r => r.id === id);
+        return registration ? registration.parameters : [];
+    }
+
+    getParameter(id: string, key: string): ParameterValue | undefined {
+        if (id === this.activeId && this.active && this.modulatedValues[key] === undefined) {
+            const value = this.active.getParameter(key);
+            if (value !== undefined) return value;
+        }
+        const stored = this.parameterValues[id] && this.parameterValues[id][key];
+        if (stored !== undefined) return stored;
+        const definition = this.getParameterSchema(id).find(d => d.key === key);
+        return definition ? definition.default : undefined;
+    }
+
+    /**
+     * Set a parameter on any registered mode; applied immediately if it is active.
+     */
+    setParameter(id: string, key: string, value: ParameterValue) {
+        if (!this.parameterValues[id]) {
+            throw new Error(`Unknown visualizer "${id}"`);
+        }
+        this.parameterValues[id][key] = value;
+        // While modulated, the new value is the base the route returns to once released
+        if (id === this.activeId && this.active && this.modulatedValues[key] === undefined) {
+            this.active.setParameter(key, value);
+        }
+        this.parameterListeners.forEach(listener => listener(id, key, value));
+    }
+
+    /**
+     * Drive a parameter of the active mode without touching its stored value. Ignored
+     * for inactive modes, since modulation only runs for the active one.
+     */
+    modulate(id: string, key: string, value: ParameterValue) {
+        if (id !== this.activeId || !this.active) return;
+        if (this.modulatedValues[key] === value) return;
+        if (this.modulatedValues[key] === undefined && this.parameterValues[id][key] === undefined) {
+            // First modulation of a never-set parameter: keep its current value as the base
+            const base = this.active.getParameter(key);
+            if (base !== undefined) this.parameterValues[id][key] = base;
+        }
+        this.modulatedValues[key] = value;
+        this.active.setParameter(key, value);
+    }
+
+    /**
+     * Stop modulating a parameter and put the user's value back.
+     */
+    releaseModulation(id: string, key: string) {
+        if (id !== this.activeId || !this.active || this.modulatedValues[key] === undefined) return;
+        delete this.modulatedValues[key];
+        const value = this.getParameter(id, key);
+        if (value !== undefined) this.active.setParameter(key, value);
+    }
+
+    isModulated(id: string, key: string): boolean {
+        return id === this.activeId && this.modulatedValues[key] !== undefined;
+    }
+
+    /**
+     * Shared band settings, applied to the active mode now and to every mode activated later.
+     */
+    setBandOptions(options: Partial<FrequencyBandOptions>) {
+        this.bandOptions = { ...this.bandOptions, ...options };
+        if (this.active && this.active.setBandOptions) {
+            this.active.setBandOptions(this.bandOptions);
+        }
+        this.bandListeners.forEach(listener => listener(this.getBandOptions()));
+    }
+
+    getBandOptions(): Partial<FrequencyBandOptions> {
+        return { ...this.bandOptions };
+    }
+
+    resize(width: number, height: number) {
+        if (this.active) {
+            this.active.resize(width, height);
+        }
+    }
+}
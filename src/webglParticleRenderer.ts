@@ -0,0 +1,271 @@
+/**
+ * WebGL2 drawing backend for the particle system.
+ *
+ * The simulation stays on the CPU; this only replaces the Canvas2D drawing, which is the
+ * bottleneck at high particle counts (one arc per dot). Each frame the caller fills flat
+ * Float32Arrays and every primitive type is drawn with a single call:
+ * - Circles: one quad instanced per particle, antialiased in the fragment shader
+ * - Lines and triangles: plain vertex arrays
+ *
+ * Colors are passed as HSLA (hue in degrees, saturation/lightness/alpha 0-1) and converted
+ * on the GPU, matching the hsla() strings the Canvas2D path uses.
+ */
+
+/** Floats per circle instance: x, y, radius, hue, saturation, lightness, alpha */
+export const CIRCLE_STRIDE = 7;
+/** Floats per line/triangle vertex: x, y, hue, saturation, lightness, alpha */
+export const VERTEX_STRIDE = 6;
+
+const HSL_TO_RGB = `
+vec4 hslaToRgba(vec4 hsla) {
+    // Numerical method: Piecewise-linear hue ramps, scaled by chroma around the lightness
+    vec3 rgb = clamp(abs(mod(hsla.x / 60.0 + vec3(0.0, 4.0, 2.0), 6.0) - 3.0) - 1.0, 0.0, 1.0);
+    float chroma = hsla.y * (1.0 - abs(2.0 * hsla.z - 1.0));
+    return vec4(hsla.z + chroma * (rgb - 0.5), hsla.w);
+}`;
+
+const CIRCLE_VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 corner;
+layout(location = 1) in vec3 instance;
+layout(location = 2) in vec4 color;
+uniform vec2 resolution;
+out vec2 offset;
+out float radius;
+out vec4 rgba;
+${HSL_TO_RGB}
+void main() {
+    // One extra pixel around the disc leaves room for the antialiased edge
+    offset = corner * (instance.z + 1.0);
+    radius = instance.z;
+    rgba = hslaToRgba(color);
+    vec2 clip = (instance.xy + offset) / resolution * 2.0 - 1.0;
+    gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}`;
+
+const CIRCLE_FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec2 offset;
+in float radius;
+in vec4 rgba;
+out vec4 fragColor;
+void main() {
+    float coverage = clamp(radius + 0.5 - length(offset), 0.0, 1.0);
+    if (coverage <= 0.0) discard;
+    fragColor = vec4(rgba.rgb, rgba.a * coverage);
+}`;
+
+const VERTEX_SHADER = `#version 300 es
+layout(location = 0) in vec2 position;
+layout(location = 1) in vec4 color;
+uniform vec2 resolution;
+out vec4 rgba;
+${HSL_TO_RGB}
+void main() {
+    rgba = hslaToRgba(color);
+    vec2 clip = position / resolution * 2.0 - 1.0;
+    gl_Position = vec4(clip.x, -clip.y, 0.0, 1.0);
+}`;
+
+const FRAGMENT_SHADER = `#version 300 es
+precision mediump float;
+in vec4 rgba;
+out vec4 fragColor;
+void main() {
+    fragColor = rgba;
+}`;
+
+export class WebGLParticleRenderer {
+    private gl: WebGL2RenderingContext;
+    private circleProgram: WebGLProgram;
+    private shapeProgram: WebGLProgram;
+    private circleVao: WebGLVertexArrayObject;
+    private shapeVao: WebGLVertexArrayObject;
+    private cornerBuffer: WebGLBuffer;
+    private instanceBuffer: WebGLBuffer;
+    private vertexBuffer: WebGLBuffer;
+    private circleResolution: WebGLUniformLocation | null;
+    private shapeResolution: WebGLUniformLocation | null;
+
+    /**
+     * Returns null when the browser has no WebGL2, so callers can fall back to Canvas2D.
+     */
+    static create(canvas: HTMLCanvasElement): WebGLParticleRenderer | null {
+        const gl = canvas.getContext('webgl2', { antialias: true, premultipliedAlpha: false });
+        if (!gl) return null;
+        try {
+            return new WebGLParticleRenderer(gl);
+        } catch (error) {
+            console.error('Error initializing WebGL particle renderer:', error);
+            return null;
+        }
+    }
+
+    private constructor(gl: WebGL2RenderingContext) {
+        this.gl = gl;
+        this.circleProgram = this.createProgram(CIRCLE_VERTEX_SHADER, CIRCLE_FRAGMENT_SHADER);
+        this.shapeProgram = this.createProgram(VERTEX_SHADER, FRAGMENT_SHADER);
+        this.circleResolution = gl.getUniformLocation(this.circleProgram, 'resolution');
+        this.shapeResolution = gl.getUniformLocation(this.shapeProgram, 'resolution');
+
+        this.cornerBuffer = gl.createBuffer()!;
+        this.instanceBuffer = gl.createBuffer()!;
+        this.vertexBuffer = gl.createBuffer()!;
+
+        // Circles: a unit quad as two triangles, with per-instance position/radius and color
+        this.circleVao = gl.createVertexArray()!;
+        gl.bindVertexArray(this.circleVao);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.cornerBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, 1, 1, -1, -1, 1, 1, -1, 1]), gl.STATIC_DRAW);
+        gl.enableVertexAttribArray(0);
+        gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+        gl.enableVertexAttribArray(1);
+        gl.vertexAttribPointer(1, 3, gl.FLOAT, false, CIRCLE_STRIDE * 4, 0);
+        gl.vertexAttribDivisor(1, 1);
+        gl.enableVertexAttribArray(2);
+        gl.vertexAttribPointer(2, 4, gl.FLOAT, false, CIRCLE_STRIDE * 4, 3 * 4);
+        gl.vertexAttribDivisor(2, 1);
+
+        // Lines and triangles share one interleaved vertex layout
+        this.shapeVao = gl.createVertexArray()!;
+        gl.bindVertexArray(this.shapeVao);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+        gl.enableVertexAttribArray(0);
+        gl.vertexAttribPointer(0, 2, gl.FLOAT, false, VERTEX_STRIDE * 4, 0);
+        gl.enableVertexAttribArray(1);
+        gl.vertexAttribPointer(1, 4, gl.FLOAT, false, VERTEX_STRIDE * 4, 2 * 4);
+        gl.bindVertexArray(null);
+
+        gl.enable(gl.BLEND);
+        gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
+    }
+
+    resize(width: number, height: number) {
+        this.gl.viewport(0, 0, width, height);
+    }
+
+    /**
+     * Fill the canvas with an RGB color (components 0-255).
+     */
+    clear(r: number, g: number, b: number) {
+        this.gl.clearColor(r / 255, g / 255, b / 255, 1);
+        this.gl.clear(this.gl.COLOR_BUFFER_BIT);
+    }
+
+    /**
+     * Draw `count` circles laid out as CIRCLE_STRIDE floats each.
+     */
+    drawCircles(data: Float32Array, count: number) {
+        if (count === 0) return;
+        const gl = this.gl;
+        gl.useProgram(this.circleProgram);
+        gl.uniform2f(this.circleResolution, gl.drawingBufferWidth, gl.drawingBufferHeight);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, data.subarray(0, count * CIRCLE_STRIDE), gl.STREAM_DRAW);
+        gl.bindVertexArray(this.circleVao);
+        gl.drawArraysInstanced(gl.TRIANGLES, 0, 6, count);
+        gl.bindVertexArray(null);
+    }
+
+    /**
+     * Draw `vertexCount` vertices (VERTEX_STRIDE floats each) as independent line segments.
+     */
+    drawLines(data: Float32Array, vertexCount: number) {
+        this.drawShapes(this.gl.LINES, data, vertexCount);
+    }
+
+    /**
+     * Draw `vertexCount` vertices (VERTEX_STRIDE floats each) as independent triangles.
+     */
+    drawTriangles(data: Float32Array, vertexCount: number) {
+        this.drawShapes(this.gl.TRIANGLES, data, vertexCount);
+    }
+
+    dispose() {
+        const gl = this.gl;
+        gl.deleteBuffer(this.cornerBuffer);
+        gl.deleteBuffer(this.instanceBuffer);
+        gl.deleteBuffer(this.vertexBuffer);
+        gl.deleteVertexArray(this.circleVao);
+        gl.deleteVertexArray(this.shapeVao);
+        gl.deleteProgram(this.circleProgram);
+        gl.deleteProgram(this.shapeProgram);
+        const loseContext = gl.getExtension('WEBGL_lose_context');
+        if (loseContext) loseContext.loseContext();
+    }
+
+    private drawShapes(mode: number, data: Float32Array, vertexCount: number) {
+        if (vertexCount === 0) return;
+        const gl = this.gl;
+        gl.useProgram(this.shapeProgram);
+        gl.uniform2f(this.shapeResolution, gl.drawingBufferWidth, gl.drawingBufferHeight);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.vertexBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, data.subarray(0, vertexCount * VERTEX_STRIDE), gl.STREAM_DRAW);
+        gl.bindVertexArray(this.shapeVao);
+        gl.drawArrays(mode, 0, vertexCount);
+        gl.bindVertexArray(null);
+    }
+
+    private createProgram(vertexSource: string, fragmentSource: string): WebGLProgram {
+        const gl = this.gl;
+        const program = gl.createProgram()!;
+        gl.attachShader(program, this.compileShader(gl.VERTEX_SHADER, vertexSource));
+        gl.attachShader(program, this.compileShader(gl.FRAGMENT_SHADER, fragmentSource));
+        gl.linkProgram(program);
+        if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+            throw new Error(`Shader program failed to link: ${gl.getProgramInfoLog(program)}`);
+        }
+        return program;
+    }
+
+    private compileShader(type: number, source: string): WebGLShader {
+        const gl = this.gl;
+        const shader = gl.createShader(type)!;
+        gl.shaderSource(shader, source);
+        gl.compileShader(shader);
+        if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+            throw new Error(`Shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+        }
+        return shader;
+    }
+}
+
+/**
+ * Growable Float32Array for per-frame vertex data; reallocates only when a frame needs more room.
+ */
+export class VertexBuffer {
+    data: Float32Array;
+    length: number = 0;
+
+    constructor(initialFloats: number) {
+        this.data = new Float32Array(initialFloats);
+    }
+
+    reset() {
+        this.length = 0;
+    }
+
+    /**
+     * Append one vertex in the VERTEX_STRIDE layout.
+     */
+    push(x: number, y: number, hue: number, saturation: number, lightness: number, alpha: number) {
+        if (this.length + VERTEX_STRIDE > this.data.length) {
+            const grown = new Float32Array(this.data.length * 2);
+            grown.set(this.data);
+            this.data = grown;
+        }
+        const d = this.data;
+        const i = this.length;
+        d[i] = x;
+        d[i + 1] = y;
+        d[i + 2] = hue;
+        d[i + 3] = saturation;
+        d[i + 4] = lightness;
+        d[i + 5] = alpha;
+        this.length += VERTEX_STRIDE;
+    }
+
+    getVertexCount(): number {
+        return this.length / VERTEX_STRIDE;
+    }
+}